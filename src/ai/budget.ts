@@ -0,0 +1,179 @@
+import type { Schema } from "@google/genai";
+import type { z } from "zod";
+import type { CourseSpend, LawNoteSettings } from "../types";
+import type { LLMClient } from "./llm-provider";
+
+/**
+ * Hard spend limits. A run may cost at most `runBudgetUSD`, and each course
+ * at most `courseMonthlyBudgetUSD` per calendar month (0 = no limit). Every
+ * generation client of a run reports to one shared `RunBudget`; before each
+ * call the metering wrapper checks the projected spend (what the run has cost
+ * so far plus the prompt about to be sent) against the limit and, when it
+ * would cross it, pauses the pipeline until the student confirms or stops.
+ * Amounts use the same rough rates as the cost meter.
+ */
+
+/** "2026-10" — the month course spend is tallied under. */
+export function monthKey(date: Date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** USD recorded against `course` ("" = default output folder) in the month of `now`. */
+export function courseMonthSpendUSD(settings: LawNoteSettings, course: string, now: Date = new Date()): number {
+    const spend = settings.courseSpend?.[course];
+    return spend && spend.month === monthKey(now) ? spend.usd : 0;
+}
+
+/** Course spend with `usd` added to the current month (a new month starts from zero). */
+export function recordCourseSpend(
+    settings: LawNoteSettings,
+    course: string,
+    usd: number,
+    now: Date = new Date()
+): Record<string, CourseSpend> {
+    const month = monthKey(now);
+    return {
+        ...settings.courseSpend,
+        [course]: { month, usd: courseMonthSpendUSD(settings, course, now) + usd },
+    };
+}
+
+/** True when the course has a monthly budget and this month's spend has reached it. */
+export function courseBudgetExhausted(settings: LawNoteSettings, course: string, now: Date = new Date()): boolean {
+    const limit = settings.courseMonthlyBudgetUSD ?? 0;
+    return limit > 0 && courseMonthSpendUSD(settings, course, now) >= limit;
+}
+
+/**
+ * The tighter of the per-run budget and what is left of the course's monthly
+ * budget; `Infinity` when neither is set.
+ */
+export function runLimitUSD(settings: LawNoteSettings, course: string, now: Date = new Date()): number {
+    let limit = Number.POSITIVE_INFINITY;
+    if ((settings.runBudgetUSD ?? 0) > 0) limit = settings.runBudgetUSD;
+    const monthly = settings.courseMonthlyBudgetUSD ?? 0;
+    if (monthly > 0) limit = Math.min(limit, Math.max(0, monthly - courseMonthSpendUSD(settings, course, now)));
+    return limit;
+}
+
+/** Thrown by a metered call once the student declines to go over budget. */
+export class BudgetExceededError extends Error {
+    constructor(limitUSD: number) {
+        super(`Budget of $${limitUSD.toFixed(2)} reached — run stopped. (已达预算上限，已停止)`);
+        this.name = "BudgetExceededError";
+    }
+}
+
+/**
+ * Asked when the projected spend would cross the limit: resolve true to keep
+ * going for the rest of the run, false to stop.
+ */
+export type BudgetConfirm = (spentUSD: number, projectedUSD: number, limitUSD: number) => Promise<boolean>;
+
+/**
+ * Spend tracker shared by every client of one run. Clients register a meter
+ * (their billed USD so far); `check` compares spent + projected against the
+ * limit. Concurrent calls that cross the limit together wait on one prompt.
+ */
+export class RunBudget {
+    private meters: Array<() => number> = [];
+    private pending: Promise<boolean> | null = null;
+    private approved = false;
+    private declined = false;
+
+    constructor(
+        readonly limitUSD: number,
+        private readonly confirm: BudgetConfirm
+    ) {}
+
+    /** Whether the student stopped the run at the budget prompt. */
+    get stopped(): boolean {
+        return this.declined;
+    }
+
+    get spentUSD(): number {
+        return this.meters.reduce((sum, meter) => sum + meter(), 0);
+    }
+
+    track(meter: () => number): void {
+        this.meters.push(meter);
+    }
+
+    /** Resolve if `projectedUSD` more may be spent; throws `BudgetExceededError` once declined. */
+    async check(projectedUSD: number): Promise<void> {
+        if (this.declined) throw new BudgetExceededError(this.limitUSD);
+        if (this.approved || this.spentUSD + projectedUSD <= this.limitUSD) return;
+
+        if (!this.pending) {
+            this.pending = this.confirm(this.spentUSD, projectedUSD, this.limitUSD);
+        }
+        const proceed = await this.pending;
+        if (proceed) {
+            this.approved = true;
+            return;
+        }
+        this.declined = true;
+        throw new BudgetExceededError(this.limitUSD);
+    }
+}
+
+/**
+ * `LLMClient` decorator that checks the run's budget before every generation
+ * call, projecting the call's cost from its prompt. Spend itself is metered
+ * from the underlying clients' token counts (see `RunBudget.track`), so a
+ * session view made with `withInner` shares its parent's tally.
+ */
+export class MeteredLLMClient implements LLMClient {
+    constructor(
+        readonly inner: LLMClient,
+        private readonly budget: RunBudget,
+        private readonly projectUSD: (prompt: string) => number
+    ) {}
+
+    /** The same budget around a different inner client (e.g. a per-page session). */
+    withInner(inner: LLMClient): MeteredLLMClient {
+        return new MeteredLLMClient(inner, this.budget, this.projectUSD);
+    }
+
+    getTotalTokensUsed(): number {
+        return this.inner.getTotalTokensUsed();
+    }
+
+    abort(): void {
+        this.inner.abort();
+    }
+
+    embedTexts(texts: string[]): Promise<number[][]> {
+        return this.inner.embedTexts(texts);
+    }
+
+    async generate(prompt: string): Promise<string> {
+        await this.budget.check(this.projectUSD(prompt));
+        return this.inner.generate(prompt);
+    }
+
+    async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>, responseSchema?: Schema): Promise<T> {
+        await this.budget.check(this.projectUSD(prompt));
+        return this.inner.generateStructured(prompt, schema, responseSchema);
+    }
+
+    async generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void,
+        jsonMode?: boolean,
+        responseSchema?: Schema
+    ): Promise<string> {
+        await this.budget.check(this.projectUSD(prompt));
+        return this.inner.generateStreaming(prompt, onChunk, jsonMode, responseSchema);
+    }
+
+    async generateStructuredStreaming<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        onChunk: (text: string, accumulated: string) => void,
+        responseSchema?: Schema
+    ): Promise<T> {
+        await this.budget.check(this.projectUSD(prompt));
+        return this.inner.generateStructuredStreaming(prompt, schema, onChunk, responseSchema);
+    }
+}
@@ -1,34 +1,150 @@
-import type { LawNoteSettings } from "../types";
+import { DEFAULT_MODEL_CATALOG, type LawNoteSettings, type ModelSpec, type ModelStep } from "../types";
+import { generationLabel } from "./fallback-client";
+import { geminiSpec, labelSpec } from "./model-catalog";
+import { settingsForStep } from "./step-routing";
 
 /**
  * A tiny, ballpark cost meter. Token counts come straight from the API's usage
- * metadata; prices are approximate blended (input+output) Gemini rates and are
- * only meant to give the student a rough sense of spend — not an invoice.
+ * metadata; prices come from the model catalog in settings. Where a call's
+ * input/output split is known (the usage ledger, the pre-run input estimate)
+ * each side is priced at its own rate; running totals without a split use a
+ * blended rate. Only meant to give the student a rough sense of spend — not an
+ * invoice.
  */
 
-/** Approximate blended Gemini price in USD per 1M tokens. */
-const PRICE_PER_MTOK: Record<string, number> = {
-    "gemini-2.5-pro": 5,
-    "gemini-2.5-flash": 0.3,
-    "gemini-2.5-flash-lite": 0.1,
-};
-
-const DEFAULT_RATE = 0.3;
+/** Input tokens per output token assumed when pricing a total without a split. */
+const INPUT_PER_OUTPUT = 3;
 
 /** A mutable accumulator threaded through the pipeline steps. */
 export interface TokenUsage {
     tokens: number;
+    /** The same tokens split by provider label ("gemini:gemini-2.5-flash"). */
+    byProvider?: Record<string, number>;
+}
+
+/** One call's (or a sum of calls') tokens, split by how they are billed. */
+export interface SplitTokens {
+    input: number;
+    /** Output tokens, thinking included. */
+    output: number;
+    /** The part of `input` served from the provider's context cache. */
+    cachedInput?: number;
+}
+
+/** Add a client's per-provider token counts to the run's usage. */
+export function addUsage(usage: TokenUsage, byProvider: Record<string, number>): void {
+    const totals = { ...usage.byProvider };
+    for (const [label, tokens] of Object.entries(byProvider)) {
+        usage.tokens += tokens;
+        totals[label] = (totals[label] ?? 0) + tokens;
+    }
+    usage.byProvider = totals;
 }
 
-/** Local generation (Ollama) has no API cost. */
+/**
+ * Whether generation has no per-token API cost: a self-hosted model (Ollama,
+ * or an OpenAI-compatible server such as vLLM or LM Studio) without catalog
+ * rates. An OpenAI-compatible model priced in the catalog is billed.
+ */
 export function isLocalGeneration(settings: LawNoteSettings): boolean {
-    return settings.generationProvider === "ollama";
+    return !isPricedLabel(generationLabel(settings), settings.modelCatalog ?? DEFAULT_MODEL_CATALOG);
+}
+
+/** Steps that are sent the full source text, i.e. where a run's input tokens are billed. */
+const SOURCE_READING_STEPS: readonly ModelStep[] = ["extraction", "relationships"];
+
+/**
+ * Approximate input cost of a run: the sources go to entity extraction and to
+ * relationship mapping, each priced at the input rate of the model that step
+ * is routed to (models without catalog rates on self-hosted providers are free).
+ */
+export function estimateInputCostUSD(settings: LawNoteSettings, inputTokens: number): number {
+    const catalog = settings.modelCatalog ?? DEFAULT_MODEL_CATALOG;
+    return SOURCE_READING_STEPS.reduce((sum, step) => {
+        const label = generationLabel(settingsForStep(settings, step));
+        return sum + providerSplitCostUSD(label, { input: inputTokens, output: 0 }, catalog);
+    }, 0);
+}
+
+function specCostUSD(spec: ModelSpec, tokens: SplitTokens): number {
+    const cached = Math.min(tokens.cachedInput ?? 0, tokens.input);
+    return (
+        ((tokens.input - cached) * spec.inputPerMTok +
+            cached * spec.cachedPerMTok +
+            tokens.output * spec.outputPerMTok) /
+        1_000_000
+    );
+}
+
+/** Blended USD per 1M tokens for totals whose input/output split is unknown. */
+function blendedRate(spec: ModelSpec): number {
+    return (INPUT_PER_OUTPUT * spec.inputPerMTok + spec.outputPerMTok) / (INPUT_PER_OUTPUT + 1);
+}
+
+/** Approximate USD cost of `tokens` (no split known) for the given Gemini model. */
+export function estimateCostUSD(
+    model: string,
+    tokens: number,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): number {
+    return (tokens / 1_000_000) * blendedRate(geminiSpec(catalog, model));
+}
+
+/** Approximate USD cost of a Gemini call, input and output (incl. thinking) tokens priced separately. */
+export function splitCostUSD(
+    model: string,
+    tokens: SplitTokens,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): number {
+    return specCostUSD(geminiSpec(catalog, model), tokens);
+}
+
+/** Whether calls billed to a provider label cost money (it has catalog rates, or is Gemini). */
+export function isPricedLabel(label: string, catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG): boolean {
+    const spec = labelSpec(catalog, label);
+    return !!spec && (spec.inputPerMTok > 0 || spec.outputPerMTok > 0);
+}
+
+/** `splitCostUSD` for a provider label; models without catalog rates on self-hosted providers are free. */
+export function providerSplitCostUSD(
+    label: string,
+    tokens: SplitTokens,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): number {
+    const spec = labelSpec(catalog, label);
+    return spec ? specCostUSD(spec, tokens) : 0;
+}
+
+/** Approximate USD cost of `tokens` (no split known) billed to a provider label. */
+export function providerCostUSD(
+    label: string,
+    tokens: number,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): number {
+    const spec = labelSpec(catalog, label);
+    return spec ? (tokens / 1_000_000) * blendedRate(spec) : 0;
+}
+
+/** Approximate USD cost of a per-provider token split. */
+export function usageCostUSD(
+    byProvider: Record<string, number>,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): number {
+    return Object.entries(byProvider).reduce((sum, [label, tokens]) => sum + providerCostUSD(label, tokens, catalog), 0);
 }
 
-/** Approximate USD cost of `tokens` for the given Gemini model. */
-export function estimateCostUSD(model: string, tokens: number): number {
-    const rate = PRICE_PER_MTOK[model] ?? DEFAULT_RATE;
-    return (tokens / 1_000_000) * rate;
+/** "gemini:gemini-2.5-flash 10.0K ~$0.01 · ollama:llama3.1 2.0K free" (providers with no tokens omitted). */
+export function formatProviderBreakdown(
+    byProvider: Record<string, number>,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): string {
+    return Object.entries(byProvider)
+        .filter(([, tokens]) => tokens > 0)
+        .map(([label, tokens]) => {
+            const cost = isPricedLabel(label, catalog) ? `~${formatUSD(providerCostUSD(label, tokens, catalog))}` : "free";
+            return `${label} ${formatTokens(tokens)} ${cost}`;
+        })
+        .join(" · ");
 }
 
 export function formatUSD(usd: number): string {
@@ -42,10 +158,26 @@ export function formatTokens(tokens: number): string {
     return String(Math.max(0, Math.round(tokens)));
 }
 
-/** One-line usage summary, e.g. "12.3K tokens · ~$0.02" or "8.0K tokens · local — free". */
-export function usageSummary(settings: LawNoteSettings, tokens: number): string {
-    if (isLocalGeneration(settings)) {
-        return `${formatTokens(tokens)} tokens · local — free`;
+/**
+ * One-line usage summary, e.g. "12.3K tokens · ~$0.02" or "8.0K tokens · local — free".
+ * With a per-provider split (a fallback chain may answer from several models),
+ * the cost is summed per provider and, if more than one was used, the split
+ * is appended.
+ */
+export function usageSummary(
+    settings: LawNoteSettings,
+    tokens: number,
+    byProvider: Record<string, number> = {}
+): string {
+    const catalog = settings.modelCatalog ?? DEFAULT_MODEL_CATALOG;
+    const used = Object.entries(byProvider).filter(([, t]) => t > 0);
+    if (used.length === 0) {
+        if (isLocalGeneration(settings)) return `${formatTokens(tokens)} tokens · local — free`;
+        return `${formatTokens(tokens)} tokens · ~${formatUSD(providerCostUSD(generationLabel(settings), tokens, catalog))}`;
+    }
+    const split = used.length > 1 ? ` (${formatProviderBreakdown(byProvider, catalog)})` : "";
+    if (used.every(([label]) => !isPricedLabel(label, catalog))) {
+        return `${formatTokens(tokens)} tokens · local — free${split}`;
     }
-    return `${formatTokens(tokens)} tokens · ~${formatUSD(estimateCostUSD(settings.modelName, tokens))}`;
+    return `${formatTokens(tokens)} tokens · ~${formatUSD(usageCostUSD(byProvider, catalog))}${split}`;
 }
@@ -1,6 +1,7 @@
 import { requestUrl } from "obsidian";
 import type { LawNoteSettings } from "../types";
 import { GeminiClient } from "./gemini-client";
+import { fixtureStoreFor, RecordingEmbedder, ReplayLLMClient } from "./record-replay";
 
 /** Anything that can turn texts into vectors (decoupled from text generation). */
 export interface Embedder {
@@ -71,9 +72,82 @@ export class OllamaEmbedder implements Embedder {
     }
 }
 
-/** Build the embedder for the current settings (Gemini cloud or local Ollama). */
+/**
+ * Embeddings from any server speaking the OpenAI `/v1/embeddings` protocol
+ * (vLLM, LM Studio, llama.cpp server, OpenAI itself).
+ */
+export class OpenAICompatibleEmbedder implements Embedder {
+    private static readonly BATCH = 64;
+
+    private baseUrl: string;
+    private apiKey: string;
+    private model: string;
+
+    constructor(settings: LawNoteSettings) {
+        this.baseUrl = openaiBaseUrl(settings);
+        this.apiKey = settings.openaiApiKey;
+        this.model = settings.openaiEmbeddingModel;
+    }
+
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        if (!this.model) throw new Error("Set an embedding model for the OpenAI-compatible server in Settings.");
+        const out: number[][] = [];
+        for (let i = 0; i < texts.length; i += OpenAICompatibleEmbedder.BATCH) {
+            out.push(...(await this.embedBatch(texts.slice(i, i + OpenAICompatibleEmbedder.BATCH))));
+        }
+        return out;
+    }
+
+    private async embedBatch(batch: string[]): Promise<number[][]> {
+        let data: { data?: Array<{ embedding: number[]; index?: number }> };
+        try {
+            const res = await requestUrl({
+                url: `${this.baseUrl}/embeddings`,
+                method: "POST",
+                contentType: "application/json",
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+                body: JSON.stringify({ model: this.model, input: batch }),
+            });
+            data = res.json as typeof data;
+        } catch (error) {
+            const raw = error instanceof Error ? error.message : String(error);
+            throw new Error(
+                `Embedding failed at ${this.baseUrl} (model "${this.model}"). ` +
+                    `Is the server running and serving that model? [${raw}]`
+            );
+        }
+        const rows = [...(data.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+        if (rows.length !== batch.length) {
+            throw new Error(
+                `${this.baseUrl} returned ${rows.length} vectors for ${batch.length} inputs. ` +
+                    `Is "${this.model}" an embedding model?`
+            );
+        }
+        return rows.map((r) => r.embedding);
+    }
+}
+
+/** Base URL of the OpenAI-compatible server, without a trailing slash. */
+export function openaiBaseUrl(settings: LawNoteSettings): string {
+    return (settings.openaiBaseUrl || "http://localhost:8000/v1").replace(/\/+$/, "");
+}
+
+/**
+ * Build the embedder for the current settings (Gemini cloud, local Ollama, or
+ * an OpenAI-compatible server). In fixture "replay" mode vectors come from the
+ * fixture files; in "record" mode they are saved there.
+ */
 export function createEmbedder(settings: LawNoteSettings): Embedder {
+    const fixtures = fixtureStoreFor(settings);
+    if (fixtures?.mode === "replay") return new ReplayLLMClient(fixtures);
+    const embedder = providerEmbedder(settings);
+    return fixtures ? new RecordingEmbedder(embedder, fixtures) : embedder;
+}
+
+function providerEmbedder(settings: LawNoteSettings): Embedder {
     if (settings.embeddingProvider === "ollama") return new OllamaEmbedder(settings);
+    if (settings.embeddingProvider === "openai") return new OpenAICompatibleEmbedder(settings);
     return new GeminiClient(settings);
 }
 
@@ -83,7 +157,12 @@ export function createEmbedder(settings: LawNoteSettings): Embedder {
  * instead of mixing incompatible vectors.
  */
 export function embedderSignature(settings: LawNoteSettings): string {
-    return settings.embeddingProvider === "ollama"
-        ? `ollama:${settings.ollamaEmbeddingModel || "nomic-embed-text"}`
-        : `gemini:${settings.embeddingModel || "gemini-embedding-001"}`;
+    if (settings.embeddingProvider === "ollama") {
+        return `ollama:${settings.ollamaEmbeddingModel || "nomic-embed-text"}`;
+    }
+    if (settings.embeddingProvider === "openai") {
+        // Two servers can expose different weights under one model name.
+        return `openai:${settings.openaiEmbeddingModel}@${openaiBaseUrl(settings)}`;
+    }
+    return `gemini:${settings.embeddingModel || "gemini-embedding-001"}`;
 }
@@ -0,0 +1,182 @@
+import type { Schema } from "@google/genai";
+import type { z } from "zod";
+import type { FallbackTarget, LawNoteSettings, ModelProvider } from "../types";
+import type { LLMClient } from "./llm-provider";
+
+/** One link of a fallback chain: a generation client and the label it is reported under. */
+export interface FallbackProvider {
+    /** `provider:model`, e.g. "gemini:gemini-2.5-flash". */
+    label: string;
+    client: LLMClient;
+}
+
+/** Why a provider's error should hand the request to the next provider; null = rethrow. */
+export type FailoverReason = "rate-limit" | "server" | "safety";
+
+const PROVIDERS: readonly ModelProvider[] = ["gemini", "ollama", "openai"];
+
+/** "provider:model" — the label used in metadata and the cost meter. */
+export function providerLabel(provider: ModelProvider, model: string): string {
+    return `${provider}:${model}`;
+}
+
+/** Model name the generation client will call (recorded in metadata and cache keys). */
+export function generationModelName(settings: LawNoteSettings): string {
+    if (settings.generationProvider === "ollama") return settings.ollamaModel;
+    if (settings.generationProvider === "openai") return settings.openaiModel;
+    return settings.modelName;
+}
+
+/** Label of the primary generation model, e.g. "gemini:gemini-2.5-flash". */
+export function generationLabel(settings: LawNoteSettings): string {
+    return providerLabel(settings.generationProvider, generationModelName(settings));
+}
+
+/**
+ * Classify a provider error by message, using the same substrings the clients
+ * themselves retry on. User aborts, bad keys, unreachable local servers and
+ * malformed output are not failover-worthy: the next provider would not help.
+ */
+export function failoverReason(error: Error): FailoverReason | null {
+    const msg = error.message.toLowerCase();
+    if (msg.includes("aborted")) return null;
+    if (
+        msg.includes("429") || msg.includes("rate limit") || msg.includes("rate-limit") ||
+        msg.includes("resource exhausted") || msg.includes("resource_exhausted") || msg.includes("quota")
+    ) {
+        return "rate-limit";
+    }
+    if (
+        /\b50[0-4]\b/.test(msg) || msg.includes("internal") || msg.includes("unavailable") ||
+        msg.includes("server error") || msg.includes("overloaded")
+    ) {
+        return "server";
+    }
+    if (msg.includes("safety") || msg.includes("blocked")) return "safety";
+    return null;
+}
+
+/**
+ * Parse the settings text box: one `provider:model` per line (blank lines and
+ * `#` comments ignored). Lines with an unknown provider or no model are skipped.
+ */
+export function parseFallbackChain(text: string): FallbackTarget[] {
+    const chain: FallbackTarget[] = [];
+    for (const raw of text.split("\n")) {
+        const line = raw.trim();
+        if (!line || line.startsWith("#")) continue;
+        const sep = line.indexOf(":");
+        if (sep === -1) continue;
+        const provider = line.slice(0, sep).trim().toLowerCase() as ModelProvider;
+        const model = line.slice(sep + 1).trim();
+        if (PROVIDERS.includes(provider) && model) chain.push({ provider, model });
+    }
+    return chain;
+}
+
+export function formatFallbackChain(chain: FallbackTarget[]): string {
+    return chain.map((t) => providerLabel(t.provider, t.model)).join("\n");
+}
+
+/**
+ * Composite `LLMClient` over an ordered list of providers (e.g. Gemini Flash →
+ * Gemini Pro → local Ollama). Each call goes to the first provider; if it fails
+ * with a rate-limit, server or safety error the same call is replayed on the
+ * next one. A provider that hit its quota is skipped for the rest of the
+ * client's life, so a long run does not wait out its retries on every page.
+ *
+ * Token usage is kept per provider (`usageByProvider`). `session()` returns a
+ * view sharing the same providers whose `servedBy` reports who answered *its*
+ * calls — needed because pages are generated concurrently.
+ */
+export class FallbackLLMClient implements LLMClient {
+    private lastServedBy: string | undefined;
+
+    constructor(
+        private readonly providers: FallbackProvider[],
+        private readonly onFailover?: (from: string, to: string, error: Error) => void,
+        private readonly exhausted: Set<string> = new Set()
+    ) {
+        if (providers.length === 0) throw new Error("A fallback chain needs at least one provider.");
+    }
+
+    /** Label of the provider that answered this client's most recent call. */
+    get servedBy(): string | undefined {
+        return this.lastServedBy;
+    }
+
+    /** A view over the same providers (and quota state) that tracks its own `servedBy`. */
+    session(): FallbackLLMClient {
+        return new FallbackLLMClient(this.providers, this.onFailover, this.exhausted);
+    }
+
+    /** Tokens billed per provider label across every call made through the chain. */
+    usageByProvider(): Record<string, number> {
+        const usage: Record<string, number> = {};
+        for (const { label, client } of this.providers) {
+            usage[label] = (usage[label] ?? 0) + client.getTotalTokensUsed();
+        }
+        return usage;
+    }
+
+    getTotalTokensUsed(): number {
+        return this.providers.reduce((sum, p) => sum + p.client.getTotalTokensUsed(), 0);
+    }
+
+    abort(): void {
+        for (const { client } of this.providers) client.abort();
+    }
+
+    /** Embeddings never fail over: vectors from different models are not comparable. */
+    embedTexts(texts: string[]): Promise<number[][]> {
+        return this.providers[0].client.embedTexts(texts);
+    }
+
+    generate(prompt: string): Promise<string> {
+        return this.run((client) => client.generate(prompt));
+    }
+
+    generateStructured<T>(prompt: string, schema: z.ZodSchema<T>, responseSchema?: Schema): Promise<T> {
+        return this.run((client) => client.generateStructured(prompt, schema, responseSchema));
+    }
+
+    generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void,
+        jsonMode?: boolean,
+        responseSchema?: Schema
+    ): Promise<string> {
+        return this.run((client) => client.generateStreaming(prompt, onChunk, jsonMode, responseSchema));
+    }
+
+    generateStructuredStreaming<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        onChunk: (text: string, accumulated: string) => void,
+        responseSchema?: Schema
+    ): Promise<T> {
+        return this.run((client) => client.generateStructuredStreaming(prompt, schema, onChunk, responseSchema));
+    }
+
+    private async run<T>(call: (client: LLMClient) => Promise<T>): Promise<T> {
+        const available = this.providers.filter((p) => !this.exhausted.has(p.label));
+        // Every provider is out of quota: try them all again rather than fail outright.
+        const candidates = available.length > 0 ? available : this.providers;
+
+        for (let i = 0; ; i++) {
+            const { label, client } = candidates[i];
+            try {
+                const result = await call(client);
+                this.lastServedBy = label;
+                return result;
+            } catch (error) {
+                const err = error instanceof Error ? error : new Error(String(error));
+                const reason = failoverReason(err);
+                const next = candidates[i + 1];
+                if (!reason || !next) throw err;
+                if (reason === "rate-limit") this.exhausted.add(label);
+                this.onFailover?.(label, next.label, err);
+            }
+        }
+    }
+}
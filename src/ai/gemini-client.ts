@@ -2,14 +2,18 @@ import { GoogleGenAI, type Schema } from "@google/genai";
 import { Notice } from "obsidian";
 import type { z } from "zod";
 import { parseAndValidate } from "./json-parse";
-import type { LawNoteSettings } from "../types";
-import type { LLMClient } from "./llm-provider";
+import { DEFAULT_MODEL_CATALOG, type LawNoteSettings } from "../types";
+import type { CallUsage, LLMClient } from "./llm-provider";
+import { maxOutputTokens } from "./model-catalog";
 
-const MAX_OUTPUT_TOKENS = 65536;
 const DEFAULT_EMBEDDING_MODEL = "gemini-embedding-001";
 
 /** Subset of the SDK's usage metadata we care about. */
 interface UsageLike {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
     totalTokenCount?: number;
 }
 
@@ -18,6 +22,8 @@ export class GeminiClient implements LLMClient {
     private settings: LawNoteSettings;
     private abortController: AbortController | null = null;
     private totalTokensUsed = 0;
+    /** Called with the token split of every successful call (feeds the usage ledger). */
+    onUsage?: (usage: CallUsage) => void;
 
     constructor(settings: LawNoteSettings) {
         this.settings = settings;
@@ -31,9 +37,10 @@ export class GeminiClient implements LLMClient {
 
     /** Build the shared generation config (temperature, output cap, JSON mode, thinking). */
     private buildConfig(jsonMode: boolean, responseSchema?: Schema): Record<string, unknown> {
+        const catalog = this.settings.modelCatalog ?? DEFAULT_MODEL_CATALOG;
         const config: Record<string, unknown> = {
             temperature: this.settings.temperature,
-            maxOutputTokens: MAX_OUTPUT_TOKENS,
+            maxOutputTokens: maxOutputTokens(catalog, this.settings.modelName),
         };
         if (jsonMode) {
             config.responseMimeType = "application/json";
@@ -52,6 +59,14 @@ export class GeminiClient implements LLMClient {
         if (usage?.totalTokenCount) {
             this.totalTokensUsed += usage.totalTokenCount;
         }
+        if (usage) {
+            this.onUsage?.({
+                inputTokens: usage.promptTokenCount ?? 0,
+                outputTokens: usage.candidatesTokenCount ?? 0,
+                thinkingTokens: usage.thoughtsTokenCount ?? 0,
+                cachedInputTokens: usage.cachedContentTokenCount ?? 0,
+            });
+        }
     }
 
     async generate(prompt: string): Promise<string> {
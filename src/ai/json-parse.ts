@@ -1,4 +1,4 @@
-import type { z } from "zod";
+import { ZodError, type z } from "zod";
 import { normalizeExtractedEntities, normalizeRelationshipMatrix } from "./schemas";
 
 /**
@@ -17,6 +17,61 @@ export function parseAndValidate<T>(raw: string, schema: z.ZodSchema<T>): T {
     return tryParseAndValidate(repaired, schema);
 }
 
+/** Most validation issues quoted back to the model in a repair prompt. */
+const MAX_REPAIR_ISSUES = 12;
+/** How much of the rejected answer a repair prompt quotes. */
+const MAX_REPAIR_ECHO_CHARS = 2000;
+
+/**
+ * Generate, validate and — when the output still fails — re-prompt the model
+ * with the validation error, up to `maxRepairs` times. For providers without
+ * strict constrained decoding (small local models drift from the schema).
+ * The last error is rethrown once the repairs are used up.
+ */
+export async function generateWithRepair<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    generate: (prompt: string) => Promise<string>,
+    maxRepairs = 2
+): Promise<T> {
+    let current = prompt;
+    for (let attempt = 0; ; attempt++) {
+        const raw = await generate(current);
+        try {
+            return parseAndValidate(raw, schema);
+        } catch (error) {
+            if (attempt >= maxRepairs) throw error;
+            console.warn(`[law-restructurer] Output failed validation; asking the model to repair it (${attempt + 1}/${maxRepairs}).`);
+            current = buildRepairPrompt(prompt, raw, error);
+        }
+    }
+}
+
+/** The original prompt plus the rejected answer and what was wrong with it. */
+export function buildRepairPrompt(prompt: string, raw: string, error: unknown): string {
+    const echo = raw.length > MAX_REPAIR_ECHO_CHARS ? `${raw.slice(0, MAX_REPAIR_ECHO_CHARS)}\n…(truncated)` : raw;
+    return (
+        `${prompt}\n\n## Your previous answer was rejected\n\n` +
+        `It did not match the required JSON structure:\n${describeValidationError(error)}\n\n` +
+        `Previous answer:\n${echo}\n\n` +
+        `Answer again with the complete, corrected JSON object only — no commentary, no code fences.`
+    );
+}
+
+/** One line per Zod issue (`- concepts.0.category: Invalid enum value…`), or the parse error message. */
+export function describeValidationError(error: unknown): string {
+    if (error instanceof ZodError) {
+        const lines = error.issues.slice(0, MAX_REPAIR_ISSUES).map((issue) => {
+            const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+            return `- ${path}: ${issue.message}`;
+        });
+        const more = error.issues.length - MAX_REPAIR_ISSUES;
+        if (more > 0) lines.push(`- …and ${more} more`);
+        return lines.join("\n");
+    }
+    return `- ${error instanceof Error ? error.message : String(error)}`;
+}
+
 function normalizeData(data: Record<string, unknown>): void {
     if ("concepts" in data || "cases" in data || "principles" in data || "rules" in data) {
         normalizeExtractedEntities(data);
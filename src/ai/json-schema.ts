@@ -0,0 +1,39 @@
+import type { Schema } from "@google/genai";
+
+/**
+ * Translate the Gemini response schemas (`response-schemas.ts`, the outline
+ * `TocResponseSchema`) into plain JSON Schema for providers that take standard
+ * structured-output contracts (OpenAI-compatible `response_format`, Ollama
+ * `format`). Gemini spells types in upper case, marks optional values with
+ * `nullable` and adds `propertyOrdering`; JSON Schema uses lower-case types,
+ * `["string", "null"]` unions and has no ordering hint (the required list and
+ * property order carry it instead).
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export function toJsonSchema(schema: Schema): JsonSchema {
+    const out: JsonSchema = {};
+    if (schema.type && schema.type !== "TYPE_UNSPECIFIED") {
+        const type = schema.type.toLowerCase();
+        out.type = schema.nullable ? [type, "null"] : type;
+    }
+    if (schema.description) out.description = schema.description;
+    if (schema.enum) out.enum = schema.nullable ? [...schema.enum, null] : [...schema.enum];
+    if (schema.items) out.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        const properties: Record<string, JsonSchema> = {};
+        const order = schema.propertyOrdering ?? Object.keys(schema.properties);
+        const keys = [...order, ...Object.keys(schema.properties).filter((k) => !order.includes(k))];
+        for (const key of keys) {
+            const prop = schema.properties[key];
+            if (prop) properties[key] = toJsonSchema(prop);
+        }
+        out.properties = properties;
+    }
+    if (schema.required) out.required = [...schema.required];
+    if (schema.anyOf) out.anyOf = schema.anyOf.map(toJsonSchema);
+    if (schema.minItems !== undefined) out.minItems = Number(schema.minItems);
+    if (schema.maxItems !== undefined) out.maxItems = Number(schema.maxItems);
+    return out;
+}
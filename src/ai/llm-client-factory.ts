@@ -1,10 +1,145 @@
-import type { LawNoteSettings } from "../types";
-import type { LLMClient } from "./llm-provider";
+import { Notice } from "obsidian";
+import { estimateTokens, type LawNoteSettings, type ModelProvider } from "../types";
+import type { CallUsage, LLMClient } from "./llm-provider";
+import { FallbackLLMClient, generationLabel, generationModelName, providerLabel } from "./fallback-client";
+import { CachedLLMClient, type ResponseCache } from "./response-cache";
+import { MeteredLLMClient, type RunBudget } from "./budget";
+import { providerSplitCostUSD, usageCostUSD } from "./cost";
+import type { UsageRecorder } from "./usage-ledger";
+import { fixtureStoreFor, RecordingLLMClient, ReplayLLMClient } from "./record-replay";
 import { GeminiClient } from "./gemini-client";
 import { OllamaClient } from "./ollama-client";
+import { OpenAICompatibleClient } from "./openai-compatible-client";
 
-/** Build the generation client for the current settings (Gemini cloud or local Ollama). */
-export function createLLMClient(settings: LawNoteSettings): LLMClient {
-    if (settings.generationProvider === "ollama") return new OllamaClient(settings);
-    return new GeminiClient(settings);
+/**
+ * Client for one provider, with `model` in place of the configured model.
+ * With a `recorder`, each call's token split goes to the usage ledger.
+ */
+function createProviderClient(
+    settings: LawNoteSettings,
+    provider: ModelProvider,
+    model: string,
+    recorder?: UsageRecorder
+): LLMClient {
+    const client =
+        provider === "ollama"
+            ? new OllamaClient({ ...settings, ollamaModel: model })
+            : provider === "openai"
+              ? new OpenAICompatibleClient({ ...settings, openaiModel: model })
+              : new GeminiClient({ ...settings, modelName: model });
+    if (recorder) {
+        const label = providerLabel(provider, model);
+        client.onUsage = (usage) => recorder(label, usage);
+    }
+    return client;
+}
+
+/**
+ * Build the generation client for the current settings (Gemini cloud, local
+ * Ollama, or an OpenAI-compatible server). With a fallback chain configured,
+ * the primary provider is wrapped in a `FallbackLLMClient` ahead of the backups.
+ * With a `budget`, every call is metered against the run's spend limit (cache
+ * hits are free, so the meter sits inside the cache). With a `cache`, answers
+ * are looked up in / saved to the response cache. With a `recorder`, every
+ * call — cache hits included — is written to the usage ledger. In fixture
+ * "replay" mode recorded answers stand in for the model (nothing is billed);
+ * in "record" mode every call, cache hits included, is saved as a fixture.
+ */
+export function createLLMClient(
+    settings: LawNoteSettings,
+    cache?: ResponseCache,
+    budget?: RunBudget,
+    recorder?: UsageRecorder
+): LLMClient {
+    const fixtures = fixtureStoreFor(settings);
+    if (fixtures?.mode === "replay") {
+        const replay = new ReplayLLMClient(fixtures);
+        return cache ? withCache(replay, settings, cache, recorder) : replay;
+    }
+    let client = createChainClient(settings, recorder);
+    if (budget) {
+        const chain = client;
+        const catalog = settings.modelCatalog;
+        budget.track(() => usageCostUSD(clientUsageByProvider(chain, settings), catalog));
+        const label = generationLabel(settings);
+        client = new MeteredLLMClient(chain, budget, (prompt) =>
+            providerSplitCostUSD(label, { input: estimateTokens(prompt), output: 0 }, catalog)
+        );
+    }
+    if (cache) client = withCache(client, settings, cache, recorder);
+    return fixtures ? new RecordingLLMClient(client, fixtures) : client;
+}
+
+function withCache(
+    client: LLMClient,
+    settings: LawNoteSettings,
+    cache: ResponseCache,
+    recorder?: UsageRecorder
+): CachedLLMClient {
+    return new CachedLLMClient(client, cache, {
+        model: generationLabel(settings),
+        temperature: settings.temperature,
+        describe: (inner) => servedByLabel(inner, settings),
+        onHit: recorder && ((producedBy) => recorder(producedBy, NO_TOKENS, true)),
+    });
+}
+
+const NO_TOKENS: CallUsage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+
+function createChainClient(settings: LawNoteSettings, recorder?: UsageRecorder): LLMClient {
+    const primary = createProviderClient(
+        settings,
+        settings.generationProvider,
+        generationModelName(settings),
+        recorder
+    );
+    const chain = settings.fallbackChain ?? [];
+    if (chain.length === 0) return primary;
+
+    return new FallbackLLMClient(
+        [
+            { label: generationLabel(settings), client: primary },
+            ...chain.map((t) => ({
+                label: providerLabel(t.provider, t.model),
+                client: createProviderClient(settings, t.provider, t.model, recorder),
+            })),
+        ],
+        (from, to) => new Notice(`${from} failed — falling back to ${to}. (切换备用模型)`)
+    );
+}
+
+/** Tokens a client has billed, per provider label. A plain client bills everything to the primary. */
+export function clientUsageByProvider(client: LLMClient, settings: LawNoteSettings): Record<string, number> {
+    if (
+        client instanceof CachedLLMClient ||
+        client instanceof MeteredLLMClient ||
+        client instanceof RecordingLLMClient
+    ) {
+        return clientUsageByProvider(client.inner, settings);
+    }
+    if (client instanceof FallbackLLMClient) return client.usageByProvider();
+    return { [generationLabel(settings)]: client.getTotalTokensUsed() };
+}
+
+/** A per-page view of `client`, so `servedByLabel` can tell which provider wrote that page. */
+export function clientSession(client: LLMClient): LLMClient {
+    if (
+        client instanceof CachedLLMClient ||
+        client instanceof MeteredLLMClient ||
+        client instanceof RecordingLLMClient
+    ) {
+        return client.withInner(clientSession(client.inner));
+    }
+    return client instanceof FallbackLLMClient ? client.session() : client;
+}
+
+/** Which provider produced the output of `client`'s last call (see `clientSession`). */
+export function servedByLabel(client: LLMClient, settings: LawNoteSettings): string {
+    if (client instanceof MeteredLLMClient || client instanceof RecordingLLMClient) {
+        return servedByLabel(client.inner, settings);
+    }
+    if (client instanceof CachedLLMClient || client instanceof FallbackLLMClient) {
+        return client.servedBy ?? generationLabel(settings);
+    }
+    return generationLabel(settings);
 }
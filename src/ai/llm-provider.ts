@@ -1,6 +1,18 @@
 import type { Schema } from "@google/genai";
 import type { z } from "zod";
 
+/**
+ * Tokens billed by one model call, as the provider reported them. Thinking
+ * (reasoning) tokens are counted separately from the visible output.
+ */
+export interface CallUsage {
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    /** The part of `inputTokens` the provider served from its context cache. */
+    cachedInputTokens?: number;
+}
+
 /**
  * Provider-agnostic contract for the LLM the pipeline talks to.
  *
@@ -0,0 +1,103 @@
+import { DEFAULT_MODEL_CATALOG, type ModelSpec } from "../types";
+
+/**
+ * The editable model catalog: per-model input / output / cached-input prices,
+ * context window and output cap. The cost meter, budgets and usage report
+ * price calls with it, Step 2 sizes its extraction chunks from it, and the
+ * Gemini client caps its output with it. Models missing from the catalog keep
+ * working: Gemini models are priced like Flash, other providers are free, and
+ * limits fall back to the built-in defaults.
+ */
+
+/** Output cap used for models without a catalog entry. */
+export const DEFAULT_MAX_OUTPUT_TOKENS = 65_536;
+
+/**
+ * Share of a model's output cap one extraction chunk may take as source text:
+ * extraction emits roughly a third as many tokens as it reads, and the margin
+ * keeps the JSON well inside the cap (40K source tokens for a 65K cap).
+ */
+const SOURCE_PER_OUTPUT_TOKEN = 0.625;
+
+/** At most this share of the context window goes to source text; the rest is prompt and answer. */
+const SOURCE_SHARE_OF_CONTEXT = 0.5;
+
+/** Smallest chunk worth a call, even for tiny local models. */
+const MIN_CHUNK_TOKENS = 2_000;
+
+/** Pricing for Gemini models missing from the catalog. */
+const FALLBACK_GEMINI_SPEC = DEFAULT_MODEL_CATALOG.find((m) => m.model === "gemini-2.5-flash")!;
+
+/** The catalog entry for a bare model name (case-insensitive), if any. */
+export function findModelSpec(catalog: readonly ModelSpec[], model: string): ModelSpec | undefined {
+    const name = model.trim().toLowerCase();
+    return catalog.find((m) => m.model.toLowerCase() === name);
+}
+
+/**
+ * Rates that apply to a provider label ("gemini:gemini-2.5-flash"): its
+ * catalog entry, else Flash rates for Gemini, else null (self-hosted — free).
+ */
+export function labelSpec(catalog: readonly ModelSpec[], label: string): ModelSpec | null {
+    const sep = label.indexOf(":");
+    const provider = sep === -1 ? "" : label.slice(0, sep);
+    const spec = findModelSpec(catalog, label.slice(sep + 1));
+    if (spec) return spec;
+    return provider === "gemini" ? FALLBACK_GEMINI_SPEC : null;
+}
+
+/** Rates for a bare Gemini model name (unknown models are priced like Flash). */
+export function geminiSpec(catalog: readonly ModelSpec[], model: string): ModelSpec {
+    return findModelSpec(catalog, model) ?? FALLBACK_GEMINI_SPEC;
+}
+
+/** Output cap for `model`, from the catalog or the default. */
+export function maxOutputTokens(catalog: readonly ModelSpec[], model: string): number {
+    return findModelSpec(catalog, model)?.maxOutput ?? DEFAULT_MAX_OUTPUT_TOKENS;
+}
+
+/** Source tokens per extraction chunk for `model`, bounded by its output cap and context window. */
+export function sourceTokensPerChunk(catalog: readonly ModelSpec[], model: string): number {
+    const spec = findModelSpec(catalog, model);
+    const byOutput = (spec?.maxOutput ?? DEFAULT_MAX_OUTPUT_TOKENS) * SOURCE_PER_OUTPUT_TOKEN;
+    const byContext = spec ? spec.contextWindow * SOURCE_SHARE_OF_CONTEXT : Number.POSITIVE_INFINITY;
+    return Math.max(MIN_CHUNK_TOKENS, Math.floor(Math.min(byOutput, byContext) / 1000) * 1000);
+}
+
+const FIELDS = "model, input $/1M, output $/1M, cached input $/1M, context window, max output";
+
+/**
+ * Parse the settings text box: one model per line as
+ * `model, input, output, cached, context window, max output` (blank lines and
+ * `#` comments ignored). Lines without a model or with a bad number are skipped;
+ * a later line for the same model replaces an earlier one.
+ */
+export function parseModelCatalog(text: string): ModelSpec[] {
+    const byModel = new Map<string, ModelSpec>();
+    for (const raw of text.split("\n")) {
+        const line = raw.trim();
+        if (!line || line.startsWith("#")) continue;
+        const [model, ...fields] = line.split(",").map((f) => f.trim());
+        const numbers = fields.map((f) => Number(f.replace(/_/g, "")));
+        if (!model || numbers.length !== 5 || numbers.some((n) => !Number.isFinite(n) || n < 0)) continue;
+        const [inputPerMTok, outputPerMTok, cachedPerMTok, contextWindow, maxOutput] = numbers;
+        byModel.set(model.toLowerCase(), {
+            model,
+            inputPerMTok,
+            outputPerMTok,
+            cachedPerMTok,
+            contextWindow: Math.round(contextWindow),
+            maxOutput: Math.round(maxOutput),
+        });
+    }
+    return [...byModel.values()];
+}
+
+export function formatModelCatalog(catalog: readonly ModelSpec[]): string {
+    return [
+        `# ${FIELDS}`,
+        ...catalog.map((m) =>
+            [m.model, m.inputPerMTok, m.outputPerMTok, m.cachedPerMTok, m.contextWindow, m.maxOutput].join(", ")
+        ),
+    ].join("\n");
+}
@@ -0,0 +1,20 @@
+/**
+ * Newline-delimited JSON framing for Ollama's streamed responses: one JSON
+ * object per line. Network reads arrive in arbitrary slices, so the caller
+ * keeps the unconsumed tail and feeds it back with the next slice.
+ */
+
+export interface NdjsonSplit {
+    /** Every complete, non-blank line in the buffer, in order. */
+    lines: string[];
+    /** Trailing partial line, to prepend to the next read. */
+    rest: string;
+}
+
+/** Split buffered NDJSON text into complete lines plus the unfinished remainder. */
+export function splitNdjsonLines(buffer: string): NdjsonSplit {
+    const parts = buffer.split("\n");
+    const rest = parts.pop() ?? "";
+    const lines = parts.map((line) => line.replace(/\r$/, "")).filter((line) => line.trim() !== "");
+    return { lines, rest };
+}
@@ -1,27 +1,46 @@
-import { requestUrl } from "obsidian";
 import type { z } from "zod";
 import type { Schema } from "@google/genai";
 import type { LawNoteSettings } from "../types";
-import type { LLMClient } from "./llm-provider";
+import type { CallUsage, LLMClient } from "./llm-provider";
 import { OllamaEmbedder } from "./embedder";
-import { parseAndValidate } from "./json-parse";
+import { generateWithRepair } from "./json-parse";
+import { toJsonSchema } from "./json-schema";
+import { splitNdjsonLines } from "./ndjson";
 
 const DEFAULT_MODEL = "llama3.1";
 
+/** One line of `/api/generate` output (the whole body when not streaming). */
+interface GenerateChunk {
+    response?: string;
+    done?: boolean;
+    error?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
 /**
  * Fully-local generation via an Ollama server — no API key, no quota, offline,
  * on-device. Pairs with the local Ollama embedder so the whole plugin can run
  * without any cloud calls.
  *
- * Note: `requestUrl` buffers the whole response, so streaming is emitted as a
- * single final chunk rather than token-by-token.
+ * Structured calls send the response schema as Ollama's `format` (JSON
+ * schema), which constrains decoding; output that still fails validation is
+ * sent back to the model with the error (see `generateWithRepair`).
+ *
+ * Streaming reads `/api/generate`'s NDJSON body token by token. Requests go
+ * through `fetch` (not `requestUrl`) so they can be streamed and aborted;
+ * Ollama allows `app://` origins by default, otherwise set OLLAMA_ORIGINS.
  */
 export class OllamaClient implements LLMClient {
     private baseUrl: string;
     private model: string;
     private temperature: number;
     private embedder: OllamaEmbedder;
+    /** One controller per in-flight request: Step 4 runs several at once. */
+    private controllers = new Set<AbortController>();
     private totalTokensUsed = 0;
+    /** Called with the token split of every successful call (feeds the usage ledger). */
+    onUsage?: (usage: CallUsage) => void;
 
     constructor(settings: LawNoteSettings) {
         this.baseUrl = (settings.ollamaUrl || "http://localhost:11434").replace(/\/+$/, "");
@@ -39,75 +58,148 @@ export class OllamaClient implements LLMClient {
     }
 
     abort(): void {
-        // requestUrl has no abort handle; runs to completion.
+        for (const controller of this.controllers) controller.abort();
+        this.controllers.clear();
     }
 
     generate(prompt: string): Promise<string> {
         return this.run(prompt, false);
     }
 
-    async generateStructured<T>(
+    generateStructured<T>(
         prompt: string,
         schema: z.ZodSchema<T>,
-        _responseSchema?: Schema
+        responseSchema?: Schema
     ): Promise<T> {
-        return parseAndValidate(await this.run(prompt, true), schema);
+        return generateWithRepair(prompt, schema, (p) => this.run(p, true, responseSchema));
     }
 
     async generateStreaming(
         prompt: string,
         onChunk: (text: string, accumulated: string) => void,
         jsonMode = false,
-        _responseSchema?: Schema
+        responseSchema?: Schema
     ): Promise<string> {
-        const text = await this.run(prompt, jsonMode);
-        onChunk(text, text);
-        return text;
+        const controller = new AbortController();
+        const res = await this.post(prompt, jsonMode, true, controller, responseSchema);
+        if (!res.body) throw new Error(`Ollama at ${this.baseUrl} returned an empty stream.`);
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let accumulated = "";
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                const { lines, rest } = splitNdjsonLines(buffer + decoder.decode(value, { stream: true }));
+                buffer = rest;
+                for (const line of lines) {
+                    const chunk = JSON.parse(line) as GenerateChunk;
+                    if (chunk.error) throw new Error(`Ollama error (model "${this.model}"): ${chunk.error}`);
+                    if (chunk.done) this.recordUsage(chunk);
+                    const text = chunk.response ?? "";
+                    if (!text) continue;
+                    accumulated += text;
+                    onChunk(text, accumulated);
+                }
+            }
+        } catch (error) {
+            throw wrapAbort(error);
+        } finally {
+            this.controllers.delete(controller);
+        }
+
+        if (!accumulated) throw new Error("Empty response from Ollama.");
+        return accumulated;
     }
 
-    async generateStructuredStreaming<T>(
+    generateStructuredStreaming<T>(
         prompt: string,
         schema: z.ZodSchema<T>,
         onChunk: (text: string, accumulated: string) => void,
         responseSchema?: Schema
     ): Promise<T> {
-        return parseAndValidate(await this.generateStreaming(prompt, onChunk, true, responseSchema), schema);
+        return generateWithRepair(prompt, schema, (p) => this.generateStreaming(p, onChunk, true, responseSchema));
     }
 
-    private async run(prompt: string, jsonMode: boolean): Promise<string> {
-        const data = await this.post(prompt, jsonMode);
-        this.totalTokensUsed += (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0);
+    private async run(prompt: string, jsonMode: boolean, responseSchema?: Schema): Promise<string> {
+        const controller = new AbortController();
+        const res = await this.post(prompt, jsonMode, false, controller, responseSchema);
+        let data: GenerateChunk;
+        try {
+            data = (await res.json()) as GenerateChunk;
+        } catch (error) {
+            throw wrapAbort(error);
+        } finally {
+            this.controllers.delete(controller);
+        }
+        if (data.error) throw new Error(`Ollama error (model "${this.model}"): ${data.error}`);
+        this.recordUsage(data);
         if (!data.response) throw new Error("Empty response from Ollama.");
         return data.response;
     }
 
+    /** POST to `/api/generate`; throws with the HTTP status on failure so callers can classify it. */
     private async post(
         prompt: string,
-        jsonMode: boolean
-    ): Promise<{ response?: string; prompt_eval_count?: number; eval_count?: number }> {
+        jsonMode: boolean,
+        stream: boolean,
+        controller: AbortController,
+        responseSchema?: Schema
+    ): Promise<Response> {
         const body: Record<string, unknown> = {
             model: this.model,
             prompt,
-            stream: false,
+            stream,
             options: { temperature: this.temperature },
         };
-        if (jsonMode) body.format = "json";
+        // A JSON schema in `format` constrains decoding (Ollama ≥ 0.5); plain "json" only forces valid JSON.
+        if (jsonMode) body.format = responseSchema ? toJsonSchema(responseSchema) : "json";
 
+        this.controllers.add(controller);
+        let res: Response;
         try {
-            const res = await requestUrl({
-                url: `${this.baseUrl}/api/generate`,
+            res = await fetch(`${this.baseUrl}/api/generate`, {
                 method: "POST",
-                contentType: "application/json",
+                headers: { "Content-Type": "application/json" },
                 body: JSON.stringify(body),
+                signal: controller.signal,
             });
-            return res.json as { response?: string; prompt_eval_count?: number; eval_count?: number };
         } catch (error) {
-            const raw = error instanceof Error ? error.message : String(error);
+            this.controllers.delete(controller);
+            const wrapped = wrapAbort(error);
+            if (wrapped.message === "Request aborted by user") throw wrapped;
             throw new Error(
                 `Ollama generation failed at ${this.baseUrl} (model "${this.model}"). ` +
                     `Is Ollama running and the model pulled (\`ollama pull ${this.model}\`)? ` +
-                    `For 403/CORS set OLLAMA_ORIGINS=* and restart Ollama. [${raw}]`
+                    `For 403/CORS set OLLAMA_ORIGINS=* and restart Ollama. [${wrapped.message}]`
             );
         }
+
+        if (!res.ok) {
+            this.controllers.delete(controller);
+            const detail = (await res.text().catch(() => "")).slice(0, 300);
+            throw new Error(
+                `Ollama at ${this.baseUrl} returned ${res.status} for model "${this.model}". ` +
+                    `Is the model pulled (\`ollama pull ${this.model}\`)? For 403 set OLLAMA_ORIGINS=*. [${detail}]`
+            );
+        }
+        return res;
+    }
+
+    private recordUsage(chunk: GenerateChunk): void {
+        this.totalTokensUsed += (chunk.prompt_eval_count ?? 0) + (chunk.eval_count ?? 0);
+        this.onUsage?.({
+            inputTokens: chunk.prompt_eval_count ?? 0,
+            outputTokens: chunk.eval_count ?? 0,
+            thinkingTokens: 0,
+        });
     }
 }
+
+/** Normalize fetch's AbortError to the message the other clients use for a user abort. */
+function wrapAbort(error: unknown): Error {
+    if (error instanceof Error && error.name === "AbortError") return new Error("Request aborted by user");
+    return error instanceof Error ? error : new Error(String(error));
+}
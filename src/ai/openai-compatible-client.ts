@@ -0,0 +1,225 @@
+import type { z } from "zod";
+import type { Schema } from "@google/genai";
+import type { LawNoteSettings } from "../types";
+import type { CallUsage, LLMClient } from "./llm-provider";
+import { OpenAICompatibleEmbedder, openaiBaseUrl } from "./embedder";
+import { parseAndValidate } from "./json-parse";
+import { toJsonSchema } from "./json-schema";
+import { splitSseEvents } from "./sse";
+
+/** Token counts as reported in a chat completion's `usage` block. */
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    /** Reasoning models: the part of `completion_tokens` spent thinking. */
+    completion_tokens_details?: { reasoning_tokens?: number };
+    prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface ChatCompletion {
+    choices?: Array<{ message?: { content?: string | null }; finish_reason?: string | null }>;
+    usage?: ChatUsage;
+}
+
+interface ChatCompletionChunk {
+    choices?: Array<{ delta?: { content?: string | null } }>;
+    usage?: ChatUsage | null;
+}
+
+/**
+ * Generation via any server speaking the OpenAI `/v1/chat/completions`
+ * protocol — vLLM, LM Studio, llama.cpp server, or OpenAI itself.
+ *
+ * Structured calls pass the response schema as `response_format` (JSON
+ * schema), which these servers enforce with guided decoding. Streaming reads
+ * the SSE body token by token. Requests go through `fetch` (not `requestUrl`)
+ * so they can be streamed and aborted; the server must therefore allow CORS
+ * from Obsidian (vLLM does by default; in LM Studio enable "CORS").
+ */
+export class OpenAICompatibleClient implements LLMClient {
+    private baseUrl: string;
+    private apiKey: string;
+    private model: string;
+    private temperature: number;
+    private embedder: OpenAICompatibleEmbedder;
+    /** One controller per in-flight request: steps 2 and 4 run several at once. */
+    private controllers = new Set<AbortController>();
+    private totalTokensUsed = 0;
+    /** Called with the token split of every successful call (feeds the usage ledger). */
+    onUsage?: (usage: CallUsage) => void;
+
+    constructor(settings: LawNoteSettings) {
+        this.baseUrl = openaiBaseUrl(settings);
+        this.apiKey = settings.openaiApiKey;
+        this.model = settings.openaiModel;
+        this.temperature = settings.temperature;
+        this.embedder = new OpenAICompatibleEmbedder(settings);
+    }
+
+    getTotalTokensUsed(): number {
+        return this.totalTokensUsed;
+    }
+
+    embedTexts(texts: string[]): Promise<number[][]> {
+        return this.embedder.embedTexts(texts);
+    }
+
+    abort(): void {
+        for (const controller of this.controllers) controller.abort();
+        this.controllers.clear();
+    }
+
+    generate(prompt: string): Promise<string> {
+        return this.complete(prompt, false);
+    }
+
+    async generateStructured<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        responseSchema?: Schema
+    ): Promise<T> {
+        return parseAndValidate(await this.complete(prompt, true, responseSchema), schema);
+    }
+
+    async generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void,
+        jsonMode = false,
+        responseSchema?: Schema
+    ): Promise<string> {
+        const controller = new AbortController();
+        const res = await this.post(this.body(prompt, jsonMode, responseSchema, true), controller);
+        if (!res.body) throw new Error(`${this.baseUrl} returned an empty stream.`);
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let accumulated = "";
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                const { data, rest } = splitSseEvents(buffer + decoder.decode(value, { stream: true }));
+                buffer = rest;
+                for (const payload of data) {
+                    if (payload.trim() === "[DONE]") continue;
+                    const chunk = JSON.parse(payload) as ChatCompletionChunk;
+                    if (chunk.usage) this.recordUsage(chunk.usage);
+                    const text = chunk.choices?.[0]?.delta?.content ?? "";
+                    if (!text) continue;
+                    accumulated += text;
+                    onChunk(text, accumulated);
+                }
+            }
+        } catch (error) {
+            throw this.wrapAbort(error);
+        } finally {
+            this.controllers.delete(controller);
+        }
+
+        if (!accumulated) throw new Error(`Empty response from ${this.baseUrl}.`);
+        return accumulated;
+    }
+
+    async generateStructuredStreaming<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        onChunk: (text: string, accumulated: string) => void,
+        responseSchema?: Schema
+    ): Promise<T> {
+        return parseAndValidate(await this.generateStreaming(prompt, onChunk, true, responseSchema), schema);
+    }
+
+    private async complete(prompt: string, jsonMode: boolean, responseSchema?: Schema): Promise<string> {
+        const controller = new AbortController();
+        const res = await this.post(this.body(prompt, jsonMode, responseSchema, false), controller);
+        let data: ChatCompletion;
+        try {
+            data = (await res.json()) as ChatCompletion;
+        } catch (error) {
+            throw this.wrapAbort(error);
+        } finally {
+            this.controllers.delete(controller);
+        }
+        this.recordUsage(data.usage);
+        const text = data.choices?.[0]?.message?.content;
+        if (!text) throw new Error(`Empty response from ${this.baseUrl}.`);
+        return text;
+    }
+
+    private body(
+        prompt: string,
+        jsonMode: boolean,
+        responseSchema: Schema | undefined,
+        stream: boolean
+    ): Record<string, unknown> {
+        const body: Record<string, unknown> = {
+            model: this.model,
+            messages: [{ role: "user", content: prompt }],
+            temperature: this.temperature,
+            stream,
+        };
+        // Without a schema, JSON mode relies on the prompt: `json_object` is not
+        // supported by every OpenAI-compatible server.
+        if (jsonMode && responseSchema) {
+            body.response_format = {
+                type: "json_schema",
+                json_schema: { name: "response", schema: toJsonSchema(responseSchema) },
+            };
+        }
+        if (stream) body.stream_options = { include_usage: true };
+        return body;
+    }
+
+    /** POST a chat completion; throws with the HTTP status on failure so callers can classify it. */
+    private async post(body: Record<string, unknown>, controller: AbortController): Promise<Response> {
+        if (!this.model) throw new Error("Set a model for the OpenAI-compatible server in Settings.");
+        this.controllers.add(controller);
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        let res: Response;
+        try {
+            res = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: "POST",
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } catch (error) {
+            this.controllers.delete(controller);
+            const wrapped = this.wrapAbort(error);
+            if (wrapped.message === "Request aborted by user") throw wrapped;
+            throw new Error(
+                `Could not reach ${this.baseUrl} (model "${this.model}"). Is the server running, ` +
+                    `and does it allow CORS from Obsidian? [${wrapped.message}]`
+            );
+        }
+
+        if (!res.ok) {
+            this.controllers.delete(controller);
+            const detail = (await res.text().catch(() => "")).slice(0, 300);
+            throw new Error(`${this.baseUrl} returned ${res.status} ${res.statusText}: ${detail}`);
+        }
+        return res;
+    }
+
+    private recordUsage(usage: ChatUsage | null | undefined): void {
+        if (!usage) return;
+        this.totalTokensUsed += usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0);
+        const thinking = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+        this.onUsage?.({
+            inputTokens: usage.prompt_tokens ?? 0,
+            outputTokens: Math.max(0, (usage.completion_tokens ?? 0) - thinking),
+            thinkingTokens: thinking,
+            cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+        });
+    }
+
+    /** Normalize fetch's AbortError to the message the other clients use for a user abort. */
+    private wrapAbort(error: unknown): Error {
+        if (error instanceof Error && error.name === "AbortError") return new Error("Request aborted by user");
+        return error instanceof Error ? error : new Error(String(error));
+    }
+}
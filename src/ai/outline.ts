@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { Type, type Schema } from "@google/genai";
-import type { ExtractedEntities } from "../types";
+import type { ExtractedEntities, LegalConcept } from "../types";
+import { childConcepts, hasHierarchy, renderConceptTree, sanitizeConceptParents } from "../utils/concept-hierarchy";
 
 // ============================================================
 // Options
@@ -146,6 +147,41 @@ export function moveSubsection(
     return sections.map((s, i) => (i === sectionIndex ? { ...s, subsections: nextSubs } : s));
 }
 
+/**
+ * A TOC derived from the concept hierarchy: each root concept with
+ * sub-doctrines becomes a section; a child that has sub-doctrines of its own
+ * becomes a subsection listing all its descendants. Root concepts without
+ * children are gathered in a final "Other Doctrines" section. Null when no
+ * concept has a parent.
+ */
+export function buildHierarchyToc(concepts: LegalConcept[]): Toc | null {
+    if (!hasHierarchy(concepts)) return null;
+    const clean = sanitizeConceptParents(concepts);
+    const descendants = (id: string): string[] =>
+        childConcepts(id, clean).flatMap((c) => [c.name, ...descendants(c.id)]);
+
+    const sections: TocSection[] = [];
+    const standalone: string[] = [];
+    for (const root of clean.filter((c) => !c.parentId)) {
+        const children = childConcepts(root.id, clean);
+        if (children.length === 0) {
+            standalone.push(root.name);
+            continue;
+        }
+        const section: TocSection = { title: root.name, items: [], subsections: [] };
+        for (const child of children) {
+            const nested = descendants(child.id);
+            if (nested.length === 0) section.items.push(child.name);
+            else section.subsections.push({ title: child.name, items: nested });
+        }
+        sections.push(section);
+    }
+    if (standalone.length > 0) {
+        sections.push({ title: "Other Doctrines", items: standalone, subsections: [] });
+    }
+    return { sections };
+}
+
 // ============================================================
 // Prompts
 // ============================================================
@@ -181,6 +217,16 @@ export function buildTocPrompt(
             ? "Use as many top-level sections as the material naturally needs."
             : `Aim for about ${options.sectionCount} top-level sections (merge or split to land near that number).`;
 
+    const hierarchy = hasHierarchy(entities.concepts)
+        ? `
+
+## Concept Hierarchy (default structure)
+Sub-doctrines are nested under their parent doctrine. Unless the Structure instruction calls for a
+different arrangement, use this as the skeleton: parent doctrines become sections or subsections and
+their sub-doctrines stay beneath them.
+${renderConceptTree(entities.concepts)}`
+        : "";
+
     return `You are organizing a law-school outline. Propose a hierarchical TABLE OF CONTENTS: a list of
 sections, each with optional sub-sections, where the leaf labels name the doctrines/cases covered.
 
@@ -204,7 +250,7 @@ ${langText(language)}
 - Section title = a clear top-level heading. Subsection title = a coherent sub-group within it.
 - Leaf item labels are short and drawn from the data (doctrine/case names) — not full sentences.
 - Order sections (and subsections within them) to match the Structure instruction.
-- Return ONLY the structured TOC.
+- Return ONLY the structured TOC.${hierarchy}
 
 ## Data
 ${entityNames(entities)}`;
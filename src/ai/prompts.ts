@@ -32,7 +32,10 @@ ${langInstruction(language)}
 
 ### 1. Legal Concepts
 Doctrines, rules, standards, defenses, remedies, procedures.
-For each: id (lowercase-kebab-case), name, nameChinese (optional), definition, category, sourceReferences.
+For each: id (lowercase-kebab-case), name, nameChinese (optional), definition, category, parentId (optional), sourceReferences.
+parentId is the id of the broader concept this one is a sub-doctrine or element of — e.g. "minimum-contacts"
+has parentId "specific-jurisdiction", whose parentId is "personal-jurisdiction". Omit it for top-level doctrines,
+and only point at a concept you also extract.
 
 ### 2. Legal Cases
 Every case mentioned. For each: id, name, citation, year, court, facts (1-2 sentences MAX), holding (1 sentence), significance (1 sentence), relatedConcepts (concept IDs), sourceReferences.
@@ -43,6 +46,11 @@ Overarching principles spanning multiple concepts. For each: id, name, nameChine
 ### 4. Legal Rules
 Specific rules with elements and application steps. For each: id, name, nameChinese, statement, elements[], exceptions[], applicationSteps[], relatedConcepts, supportingCases, sourceReferences.
 
+### 5. Statutes
+Every statutory or regulatory provision the notes discuss (code sections, regulations, articles).
+For each: id, citation (canonical provision number only, see Citation Format Rules), title (short official or descriptive title, optional), jurisdiction (e.g. "US Federal", "New York", "PRC"), textSummary (1-2 sentences), elements[] (the requirements the provision sets out), relatedConcepts (concept IDs), relatedCases (case IDs), sourceReferences.
+List a provision once at the section level (e.g. "IRC § 721"), not once per subsection.
+
 ## Output Format
 Return ONLY a JSON object with this structure:
 {
@@ -50,6 +58,7 @@ Return ONLY a JSON object with this structure:
   "cases": [...],
   "principles": [...],
   "rules": [...],
+  "statutes": [...],
   "metadata": {
     "sourceDocuments": [...filenames...],
     "extractionTimestamp": "ISO timestamp",
@@ -58,6 +67,18 @@ Return ONLY a JSON object with this structure:
   }
 }
 
+## Source References
+Each sourceReferences entry names the source file and the nearest section heading
+(e.g. "Week 3.docx › Minimum Contacts"). For PDFs, add the page from the [Page N] marker
+(e.g. "Syllabus.pdf › p. 4"). For lecture transcripts, cite the [HH:MM:SS] anchor of the
+passage as "<file> @ HH:MM:SS" (e.g. "Lecture 7.vtt @ 00:41:10").
+
+## Evidence Quotes
+Every entity (concepts, cases, principles, rules, statutes) gets a "quotes" array: 1-2 short
+passages (10-30 words each) copied VERBATIM from the source documents that support it — exact
+wording, no paraphrase, no translation, no added ellipses. These are checked against the sources;
+an entity whose quotes cannot be found is flagged as unverified.
+
 CRITICAL: Keep each text field CONCISE (1-3 sentences max). Do NOT write long paragraphs.
 
 IMPORTANT: Do NOT create multiple entries for the same legal concept under different names.
@@ -89,10 +110,30 @@ ${sourceText}
 ---`;
 }
 
+function focusSection(focus: { conceptIds: ReadonlySet<string>; caseIds: ReadonlySet<string> }): string {
+    const ids = (set: ReadonlySet<string>) => (set.size > 0 ? [...set].join(", ") : "(none)");
+    return `
+## Focus (incremental update)
+Only these entities are new or changed; relationships among the others are already mapped.
+- Focus concepts: ${ids(focus.conceptIds)}
+- Focus cases: ${ids(focus.caseIds)}
+
+Only produce entries, statuteEntries, conceptEntries and caseEntries that involve at least one
+focus entity, and list only focus IDs in casesInOrder / conceptsInOrder. The "every case / every
+concept" rules below apply to focus entities only.
+`;
+}
+
+/**
+ * Build the step-3 prompt. With `focus` (incremental updates) the model maps
+ * only relationships that involve the listed new/changed entities; the rest
+ * of the entity list is there as link targets.
+ */
 export function buildRelationshipMappingPrompt(
     entities: ExtractedEntities,
     sourceText: string,
-    language: "zh" | "en" | "mixed"
+    language: "zh" | "en" | "mixed",
+    focus?: { conceptIds: ReadonlySet<string>; caseIds: ReadonlySet<string> }
 ): string {
     const conceptList = entities.concepts
         .map((c) => `- ${c.id}: ${c.name}`)
@@ -100,6 +141,9 @@ export function buildRelationshipMappingPrompt(
     const caseList = entities.cases
         .map((c) => `- ${c.id}: ${c.name}`)
         .join("\n");
+    const statuteList = (entities.statutes ?? [])
+        .map((s) => `- ${s.id}: ${s.citation}${s.title ? ` (${s.title})` : ""}`)
+        .join("\n");
 
     return `You are a legal education assistant mapping relationships between cases and concepts.
 
@@ -112,6 +156,9 @@ ${conceptList}
 ## Confirmed Cases
 ${caseList}
 
+## Confirmed Statutes
+${statuteList || "(none)"}
+${focus ? focusSection(focus) : ""}
 ## Task
 For every case-concept pair with a meaningful relationship, produce an entry:
 - caseId: the case ID
@@ -125,12 +172,34 @@ Rules:
 - Every case should have at least one entry
 - Every concept should have at least one case
 
+For every statute-concept pair with a meaningful relationship, produce a statuteEntries item:
+- statuteId: the statute ID
+- conceptId: the concept ID
+- relationshipType: "codifies" (enacts the doctrine) | "defines" (defines the term) | "modifies" (limits, extends or creates an exception) | "references" (otherwise relevant)
+- description: 1 sentence explanation
+
+For every pair of concepts the notes explicitly relate, produce a conceptEntries item (read as "from is <type> to"):
+- fromConceptId / toConceptId: concept IDs
+- relationshipType: "exception-of" (from is an exception to to) | "element-of" (from is an element of to) | "contrasts-with" (the notes set them against each other) | "prerequisite-of" (from must be satisfied before to applies)
+- description: 1 sentence explanation
+
+For every case that cites or responds to another listed case, produce a caseEntries item:
+- citingCaseId: the later case ID
+- citedCaseId: the earlier case ID it treats
+- relationshipType: "follows" (applies it as precedent) | "overrules" | "distinguishes"
+- description: 1 sentence explanation
+
+Only record concept and case links the notes actually state — do not infer them merely from two entries sharing a concept.
+
 ## Output Format
 Return ONLY a JSON object:
 {
   "entries": [...],
   "casesInOrder": [...case IDs chronologically...],
-  "conceptsInOrder": [...concept IDs by topic...]
+  "conceptsInOrder": [...concept IDs by topic...],
+  "statuteEntries": [...],
+  "conceptEntries": [...],
+  "caseEntries": [...]
 }
 
 No markdown fences, no extra text. Pure JSON only.
@@ -0,0 +1,268 @@
+import type { Schema } from "@google/genai";
+import type { Vault } from "obsidian";
+import type { z } from "zod";
+import type { FixtureMode, LawNoteSettings } from "../types";
+import { hashString } from "../utils/hash";
+import type { Embedder } from "./embedder";
+import type { LLMClient } from "./llm-provider";
+
+/**
+ * Deterministic record / replay of model calls. In "record" mode every prompt
+ * and its answer is saved as a fixture file (one JSON file per prompt, named
+ * by a hash of the prompt); in "replay" mode the answers are served from those
+ * files and no model is called, so the whole pipeline runs offline — in tests
+ * against a fixture vault, or as a demo without an API key. A prompt with no
+ * fixture fails loudly instead of falling through to a model.
+ *
+ * Fixtures are keyed by prompt, call kind and response schema only — not by
+ * model or temperature — so a recording replays under any model settings.
+ * Dates in a prompt (some templates embed today's) are masked in the key, so
+ * a recording also replays on later days.
+ */
+
+/** How a call was made; the same prompt is answered differently per kind. */
+export type FixtureKind = "text" | "json" | "structured" | "embedding";
+
+export type Fixture =
+    | { kind: Exclude<FixtureKind, "embedding">; prompt: string; responseSchema?: Schema; response: string }
+    | { kind: "embedding"; prompt: string; vector: number[] };
+
+const ISO_DATE_RE = /\b\d{4}-\d{2}-\d{2}\b/g;
+
+/** Hash naming the fixture file of a call (106 bits: two seeded 53-bit hashes). */
+export function fixtureKey(kind: FixtureKind, prompt: string, responseSchema?: Schema): string {
+    const undated = prompt.replace(ISO_DATE_RE, "YYYY-MM-DD");
+    const material = JSON.stringify([kind, responseSchema ?? null, undated]);
+    return hashString(material) + hashString(material, 1);
+}
+
+/** Replay found no fixture for a prompt. */
+export class UnknownPromptError extends Error {
+    constructor(
+        readonly key: string,
+        readonly prompt: string,
+        folder: string
+    ) {
+        const start = prompt.slice(0, 120).replace(/\s+/g, " ");
+        super(
+            `No recorded answer for this prompt in "${folder}" (expected ${key}.json). ` +
+                `Record it first with fixture mode "Record". Prompt begins: "${start}…" (未录制的提示)`
+        );
+        this.name = "UnknownPromptError";
+    }
+}
+
+/** A folder of fixture files, read and written through the vault adapter. */
+export class FixtureStore {
+    /** Writes are chained so concurrent recordings never race on the folder. */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly vault: Vault,
+        readonly folder: string,
+        readonly mode: Exclude<FixtureMode, "off">
+    ) {}
+
+    private path(key: string): string {
+        return `${this.folder}/${key}.json`;
+    }
+
+    async load(key: string): Promise<Fixture | null> {
+        const path = this.path(key);
+        if (!(await this.vault.adapter.exists(path))) return null;
+        return JSON.parse(await this.vault.adapter.read(path)) as Fixture;
+    }
+
+    save(fixture: Fixture): Promise<void> {
+        const schema = fixture.kind === "embedding" ? undefined : fixture.responseSchema;
+        const key = fixtureKey(fixture.kind, fixture.prompt, schema);
+        const task = async () => {
+            if (!(await this.vault.adapter.exists(this.folder))) await this.vault.adapter.mkdir(this.folder);
+            await this.vault.adapter.write(this.path(key), JSON.stringify(fixture, null, 2) + "\n");
+        };
+        this.writeQueue = this.writeQueue.then(task, task);
+        return this.writeQueue;
+    }
+
+    /** The recorded answer to a generation call; throws `UnknownPromptError` if there is none. */
+    async response(kind: Exclude<FixtureKind, "embedding">, prompt: string, responseSchema?: Schema): Promise<string> {
+        const key = fixtureKey(kind, prompt, responseSchema);
+        const fixture = await this.load(key);
+        if (!fixture || fixture.kind !== kind) throw new UnknownPromptError(key, prompt, this.folder);
+        return fixture.response;
+    }
+
+    /** Recorded vectors, one fixture per text; throws `UnknownPromptError` for a text never embedded. */
+    async vectors(texts: string[]): Promise<number[][]> {
+        const out: number[][] = [];
+        for (const text of texts) {
+            const key = fixtureKey("embedding", text);
+            const fixture = await this.load(key);
+            if (!fixture || fixture.kind !== "embedding") throw new UnknownPromptError(key, text, this.folder);
+            out.push(fixture.vector);
+        }
+        return out;
+    }
+
+    async recordVectors(texts: string[], vectors: number[][]): Promise<void> {
+        for (let i = 0; i < texts.length && i < vectors.length; i++) {
+            await this.save({ kind: "embedding", prompt: texts[i], vector: vectors[i] });
+        }
+    }
+}
+
+let fixtureVault: Vault | null = null;
+const stores = new Map<string, FixtureStore>();
+
+/** Register the vault fixture files live in (the plugin does this on load; tests pass a fake). */
+export function setFixtureVault(vault: Vault | null): void {
+    fixtureVault = vault;
+    stores.clear();
+}
+
+/** The fixture store for the settings' fixture mode, or null when fixtures are off. */
+export function fixtureStoreFor(settings: LawNoteSettings): FixtureStore | null {
+    const mode = settings.fixtureMode ?? "off";
+    if (mode === "off" || !fixtureVault) return null;
+    const folder = settings.fixtureFolder.replace(/\/+$/, "");
+    const id = `${mode}:${folder}`;
+    let store = stores.get(id);
+    if (!store) {
+        store = new FixtureStore(fixtureVault, folder, mode);
+        stores.set(id, store);
+    }
+    return store;
+}
+
+/**
+ * `LLMClient` decorator that passes every call through to `inner` and saves
+ * the prompt and answer as a fixture. Structured results are stored as JSON.
+ */
+export class RecordingLLMClient implements LLMClient {
+    constructor(
+        readonly inner: LLMClient,
+        private readonly store: FixtureStore
+    ) {}
+
+    /** The same recording around a different inner client (e.g. a per-page session). */
+    withInner(inner: LLMClient): RecordingLLMClient {
+        return new RecordingLLMClient(inner, this.store);
+    }
+
+    getTotalTokensUsed(): number {
+        return this.inner.getTotalTokensUsed();
+    }
+
+    abort(): void {
+        this.inner.abort();
+    }
+
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        const vectors = await this.inner.embedTexts(texts);
+        await this.store.recordVectors(texts, vectors);
+        return vectors;
+    }
+
+    async generate(prompt: string): Promise<string> {
+        const response = await this.inner.generate(prompt);
+        await this.store.save({ kind: "text", prompt, response });
+        return response;
+    }
+
+    async generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void,
+        jsonMode = false,
+        responseSchema?: Schema
+    ): Promise<string> {
+        const response = await this.inner.generateStreaming(prompt, onChunk, jsonMode, responseSchema);
+        await this.store.save(
+            jsonMode ? { kind: "json", prompt, responseSchema, response } : { kind: "text", prompt, response }
+        );
+        return response;
+    }
+
+    async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>, responseSchema?: Schema): Promise<T> {
+        const value = await this.inner.generateStructured(prompt, schema, responseSchema);
+        await this.store.save({ kind: "structured", prompt, responseSchema, response: JSON.stringify(value) });
+        return value;
+    }
+
+    async generateStructuredStreaming<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        onChunk: (text: string, accumulated: string) => void,
+        responseSchema?: Schema
+    ): Promise<T> {
+        const value = await this.inner.generateStructuredStreaming(prompt, schema, onChunk, responseSchema);
+        await this.store.save({ kind: "structured", prompt, responseSchema, response: JSON.stringify(value) });
+        return value;
+    }
+}
+
+/** `Embedder` decorator that saves each text's vector as a fixture. */
+export class RecordingEmbedder implements Embedder {
+    constructor(
+        private readonly inner: Embedder,
+        private readonly store: FixtureStore
+    ) {}
+
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        const vectors = await this.inner.embedTexts(texts);
+        await this.store.recordVectors(texts, vectors);
+        return vectors;
+    }
+}
+
+/**
+ * `LLMClient` (and `Embedder`) that answers every call from recorded fixtures
+ * and never contacts a model. Streaming calls emit the whole answer as one
+ * chunk; structured answers are re-validated against the caller's schema.
+ */
+export class ReplayLLMClient implements LLMClient {
+    constructor(private readonly store: FixtureStore) {}
+
+    getTotalTokensUsed(): number {
+        return 0;
+    }
+
+    abort(): void {
+        // Nothing in flight: answers are read from disk.
+    }
+
+    embedTexts(texts: string[]): Promise<number[][]> {
+        return this.store.vectors(texts);
+    }
+
+    generate(prompt: string): Promise<string> {
+        return this.store.response("text", prompt);
+    }
+
+    async generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void,
+        jsonMode = false,
+        responseSchema?: Schema
+    ): Promise<string> {
+        const response = jsonMode
+            ? await this.store.response("json", prompt, responseSchema)
+            : await this.store.response("text", prompt);
+        onChunk(response, response);
+        return response;
+    }
+
+    async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>, responseSchema?: Schema): Promise<T> {
+        return schema.parse(JSON.parse(await this.store.response("structured", prompt, responseSchema)));
+    }
+
+    async generateStructuredStreaming<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        onChunk: (text: string, accumulated: string) => void,
+        responseSchema?: Schema
+    ): Promise<T> {
+        const response = await this.store.response("structured", prompt, responseSchema);
+        onChunk(response, response);
+        return schema.parse(JSON.parse(response));
+    }
+}
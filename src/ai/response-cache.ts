@@ -0,0 +1,316 @@
+import type { Schema } from "@google/genai";
+import type { Vault } from "obsidian";
+import type { z } from "zod";
+import { hashString } from "../utils/hash";
+import type { LLMClient } from "./llm-provider";
+
+/**
+ * Persistent, content-addressed cache of model responses. A response is keyed
+ * by a hash of everything that determines it — prompt, model, temperature,
+ * JSON mode and response schema — so re-running the pipeline on unchanged
+ * notes (say, after changing only output settings) replays the saved answers
+ * instead of re-billing every page. Stored as `_llm-cache.json` in the course
+ * output folder; least-recently-used entries are evicted past the size limit.
+ */
+
+const CACHE_FILENAME = "_llm-cache.json";
+const CACHE_VERSION = 1;
+
+interface CacheEntry {
+    value: string;
+    /** Provider label that produced the response ("gemini:gemini-2.5-flash"). */
+    producedBy: string;
+    /** Approximate size in bytes (UTF-8 of value + label). */
+    size: number;
+    lastUsed: number;
+}
+
+interface CacheFile {
+    version: number;
+    entries: Record<string, CacheEntry>;
+}
+
+export interface CacheKeyParts {
+    prompt: string;
+    model: string;
+    temperature: number;
+    /** "text", "json" or "structured" — the same prompt answered differently. */
+    mode: string;
+    responseSchema?: Schema;
+}
+
+/** Hash of every input that shapes a response (106 bits: two seeded 53-bit hashes). */
+export function responseCacheKey(parts: CacheKeyParts): string {
+    const material = JSON.stringify([
+        parts.model,
+        parts.temperature,
+        parts.mode,
+        parts.responseSchema ?? null,
+        parts.prompt,
+    ]);
+    return hashString(material) + hashString(material, 1);
+}
+
+const encoder = new TextEncoder();
+
+export class ResponseCache {
+    hits = 0;
+    misses = 0;
+    private entries: Record<string, CacheEntry> = {};
+    private totalSize = 0;
+    private dirty = false;
+    /** Writes are chained so concurrent flushes never interleave. */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param maxBytes Size limit; the least-recently-used entries are evicted past it.
+     * @param bypass Skip lookups (every call goes to the model) but still store fresh answers.
+     */
+    constructor(
+        private readonly vault: Vault,
+        private readonly path: string,
+        private readonly maxBytes: number,
+        readonly bypass = false
+    ) {}
+
+    /** Open the cache for a course folder. Unreadable or outdated files start empty. */
+    static async open(
+        vault: Vault,
+        courseFolder: string,
+        maxBytes: number,
+        bypass = false
+    ): Promise<ResponseCache> {
+        const cache = new ResponseCache(vault, `${courseFolder}/${CACHE_FILENAME}`, maxBytes, bypass);
+        try {
+            if (await vault.adapter.exists(cache.path)) {
+                const parsed = JSON.parse(await vault.adapter.read(cache.path)) as CacheFile;
+                if (parsed?.version === CACHE_VERSION && parsed.entries && typeof parsed.entries === "object") {
+                    cache.entries = parsed.entries;
+                    cache.totalSize = Object.values(parsed.entries).reduce((sum, e) => sum + (e.size ?? 0), 0);
+                }
+            }
+        } catch {
+            // Corrupt cache: start fresh.
+        }
+        return cache;
+    }
+
+    get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    get bytes(): number {
+        return this.totalSize;
+    }
+
+    /** Look up a response, counting the hit or miss. Always a miss when bypassed. */
+    get(key: string): { value: string; producedBy: string } | null {
+        const entry = this.bypass ? undefined : this.entries[key];
+        if (!entry) {
+            this.misses++;
+            return null;
+        }
+        this.hits++;
+        entry.lastUsed = Date.now();
+        this.dirty = true;
+        return { value: entry.value, producedBy: entry.producedBy };
+    }
+
+    /** A cached value that turned out unusable (e.g. fails validation): undo its hit. */
+    reject(key: string): void {
+        this.remove(key);
+        this.hits--;
+        this.misses++;
+    }
+
+    put(key: string, value: string, producedBy: string): void {
+        const size = encoder.encode(value).length + encoder.encode(producedBy).length;
+        if (size > this.maxBytes) return;
+        this.remove(key);
+        this.entries[key] = { value, producedBy, size, lastUsed: Date.now() };
+        this.totalSize += size;
+        this.dirty = true;
+        this.evict();
+    }
+
+    /** Persist pending changes (call once a step finishes). */
+    flush(): Promise<void> {
+        if (!this.dirty) return this.writeQueue;
+        this.dirty = false;
+        const file: CacheFile = { version: CACHE_VERSION, entries: this.entries };
+        const task = () => this.vault.adapter.write(this.path, JSON.stringify(file));
+        this.writeQueue = this.writeQueue.then(task, task);
+        return this.writeQueue;
+    }
+
+    private remove(key: string): void {
+        const existing = this.entries[key];
+        if (!existing) return;
+        this.totalSize -= existing.size;
+        delete this.entries[key];
+    }
+
+    /** Drop least-recently-used entries until the cache fits its size limit. */
+    private evict(): void {
+        if (this.totalSize <= this.maxBytes) return;
+        const byAge = Object.entries(this.entries).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        for (const [key] of byAge) {
+            if (this.totalSize <= this.maxBytes) break;
+            this.remove(key);
+        }
+    }
+}
+
+/** Hit/miss line for the end-of-run Notice. */
+export function cacheSummary(cache: ResponseCache): string {
+    if (cache.bypass) return `Response cache bypassed (${cache.misses} fresh). (已跳过缓存)`;
+    return `Response cache: ${cache.hits} hits, ${cache.misses} misses. (缓存命中 ${cache.hits} / 未命中 ${cache.misses})`;
+}
+
+export interface CachedClientOptions {
+    model: string;
+    temperature: number;
+    /** Label of the provider that answered `inner`'s last call (recorded with each entry). */
+    describe: (inner: LLMClient) => string;
+    /** Called on every cache hit with the label that originally produced the answer. */
+    onHit?: (producedBy: string) => void;
+}
+
+/**
+ * `LLMClient` decorator that answers from a `ResponseCache` when it can and
+ * records fresh answers otherwise. Structured results are stored as JSON and
+ * re-validated on the way out; a cached value that no longer validates is
+ * discarded and regenerated. Streaming hits emit the whole text as one chunk.
+ */
+export class CachedLLMClient implements LLMClient {
+    private lastProducer: string | undefined;
+
+    constructor(
+        readonly inner: LLMClient,
+        private readonly cache: ResponseCache,
+        private readonly options: CachedClientOptions
+    ) {}
+
+    /** Provider that produced this client's last answer, whether fresh or cached. */
+    get servedBy(): string | undefined {
+        return this.lastProducer;
+    }
+
+    /** The same cache around a different inner client (e.g. a per-page session). */
+    withInner(inner: LLMClient): CachedLLMClient {
+        return new CachedLLMClient(inner, this.cache, this.options);
+    }
+
+    getTotalTokensUsed(): number {
+        return this.inner.getTotalTokensUsed();
+    }
+
+    abort(): void {
+        this.inner.abort();
+    }
+
+    embedTexts(texts: string[]): Promise<number[][]> {
+        return this.inner.embedTexts(texts);
+    }
+
+    generate(prompt: string): Promise<string> {
+        return this.text(this.key(prompt, "text"), () => this.inner.generate(prompt));
+    }
+
+    generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void,
+        jsonMode = false,
+        responseSchema?: Schema
+    ): Promise<string> {
+        const key = this.key(prompt, jsonMode ? "json" : "text", jsonMode ? responseSchema : undefined);
+        return this.text(
+            key,
+            () => this.inner.generateStreaming(prompt, onChunk, jsonMode, responseSchema),
+            onChunk
+        );
+    }
+
+    generateStructured<T>(prompt: string, schema: z.ZodSchema<T>, responseSchema?: Schema): Promise<T> {
+        return this.structured(this.key(prompt, "structured", responseSchema), schema, () =>
+            this.inner.generateStructured(prompt, schema, responseSchema)
+        );
+    }
+
+    generateStructuredStreaming<T>(
+        prompt: string,
+        schema: z.ZodSchema<T>,
+        onChunk: (text: string, accumulated: string) => void,
+        responseSchema?: Schema
+    ): Promise<T> {
+        return this.structured(
+            this.key(prompt, "structured", responseSchema),
+            schema,
+            () => this.inner.generateStructuredStreaming(prompt, schema, onChunk, responseSchema),
+            onChunk
+        );
+    }
+
+    private key(prompt: string, mode: string, responseSchema?: Schema): string {
+        return responseCacheKey({
+            prompt,
+            model: this.options.model,
+            temperature: this.options.temperature,
+            mode,
+            responseSchema,
+        });
+    }
+
+    private async text(
+        key: string,
+        call: () => Promise<string>,
+        onChunk?: (text: string, accumulated: string) => void
+    ): Promise<string> {
+        const hit = this.cache.get(key);
+        if (hit) {
+            this.lastProducer = hit.producedBy;
+            this.options.onHit?.(hit.producedBy);
+            onChunk?.(hit.value, hit.value);
+            return hit.value;
+        }
+        const value = await call();
+        this.store(key, value);
+        return value;
+    }
+
+    private async structured<T>(
+        key: string,
+        schema: z.ZodSchema<T>,
+        call: () => Promise<T>,
+        onChunk?: (text: string, accumulated: string) => void
+    ): Promise<T> {
+        const hit = this.cache.get(key);
+        if (hit) {
+            const parsed = safeParse(hit.value, schema);
+            if (parsed.ok) {
+                this.lastProducer = hit.producedBy;
+                this.options.onHit?.(hit.producedBy);
+                onChunk?.(hit.value, hit.value);
+                return parsed.value;
+            }
+            this.cache.reject(key);
+        }
+        const value = await call();
+        this.store(key, JSON.stringify(value));
+        return value;
+    }
+
+    private store(key: string, value: string): void {
+        this.lastProducer = this.options.describe(this.inner);
+        this.cache.put(key, value, this.lastProducer);
+    }
+}
+
+function safeParse<T>(json: string, schema: z.ZodSchema<T>): { ok: true; value: T } | { ok: false } {
+    try {
+        const result = schema.safeParse(JSON.parse(json));
+        return result.success ? { ok: true, value: result.data } : { ok: false };
+    } catch {
+        return { ok: false };
+    }
+}
@@ -36,6 +36,14 @@ const REL_TYPE_VALUES = [
 
 const STRENGTH_VALUES = ["primary", "secondary", "tangential"] as const;
 
+const STATUTE_REL_TYPE_VALUES = ["codifies", "defines", "modifies", "references"] as const;
+
+const CONCEPT_REL_TYPE_VALUES = [
+    "exception-of", "element-of", "contrasts-with", "prerequisite-of",
+] as const;
+
+const CASE_CITATION_TYPE_VALUES = ["follows", "overrules", "distinguishes"] as const;
+
 const conceptSchema: Schema = {
     type: Type.OBJECT,
     properties: {
@@ -44,10 +52,14 @@ const conceptSchema: Schema = {
         nameChinese: nullableString(),
         definition: STRING,
         category: enumString(CATEGORY_VALUES),
+        parentId: nullableString(),
         sourceReferences: STRING_ARRAY,
+        quotes: STRING_ARRAY,
     },
-    required: ["id", "name", "definition", "category", "sourceReferences"],
-    propertyOrdering: ["id", "name", "nameChinese", "definition", "category", "sourceReferences"],
+    required: ["id", "name", "definition", "category", "sourceReferences", "quotes"],
+    propertyOrdering: [
+        "id", "name", "nameChinese", "definition", "category", "parentId", "sourceReferences", "quotes",
+    ],
 };
 
 const caseSchema: Schema = {
@@ -63,11 +75,15 @@ const caseSchema: Schema = {
         significance: STRING,
         relatedConcepts: STRING_ARRAY,
         sourceReferences: STRING_ARRAY,
+        quotes: STRING_ARRAY,
     },
-    required: ["id", "name", "facts", "holding", "significance", "relatedConcepts", "sourceReferences"],
+    required: [
+        "id", "name", "facts", "holding", "significance",
+        "relatedConcepts", "sourceReferences", "quotes",
+    ],
     propertyOrdering: [
         "id", "name", "citation", "year", "court",
-        "facts", "holding", "significance", "relatedConcepts", "sourceReferences",
+        "facts", "holding", "significance", "relatedConcepts", "sourceReferences", "quotes",
     ],
 };
 
@@ -81,11 +97,15 @@ const principleSchema: Schema = {
         relatedConcepts: STRING_ARRAY,
         supportingCases: STRING_ARRAY,
         sourceReferences: STRING_ARRAY,
+        quotes: STRING_ARRAY,
     },
-    required: ["id", "name", "description", "relatedConcepts", "supportingCases", "sourceReferences"],
+    required: [
+        "id", "name", "description",
+        "relatedConcepts", "supportingCases", "sourceReferences", "quotes",
+    ],
     propertyOrdering: [
         "id", "name", "nameChinese", "description",
-        "relatedConcepts", "supportingCases", "sourceReferences",
+        "relatedConcepts", "supportingCases", "sourceReferences", "quotes",
     ],
 };
 
@@ -102,14 +122,39 @@ const ruleSchema: Schema = {
         relatedConcepts: STRING_ARRAY,
         supportingCases: STRING_ARRAY,
         sourceReferences: STRING_ARRAY,
+        quotes: STRING_ARRAY,
     },
     required: [
         "id", "name", "statement", "elements", "exceptions",
-        "applicationSteps", "relatedConcepts", "supportingCases", "sourceReferences",
+        "applicationSteps", "relatedConcepts", "supportingCases", "sourceReferences", "quotes",
     ],
     propertyOrdering: [
         "id", "name", "nameChinese", "statement", "elements", "exceptions",
-        "applicationSteps", "relatedConcepts", "supportingCases", "sourceReferences",
+        "applicationSteps", "relatedConcepts", "supportingCases", "sourceReferences", "quotes",
+    ],
+};
+
+const statuteSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        id: STRING,
+        citation: STRING,
+        title: nullableString(),
+        jurisdiction: STRING,
+        textSummary: STRING,
+        elements: STRING_ARRAY,
+        relatedConcepts: STRING_ARRAY,
+        relatedCases: STRING_ARRAY,
+        sourceReferences: STRING_ARRAY,
+        quotes: STRING_ARRAY,
+    },
+    required: [
+        "id", "citation", "jurisdiction", "textSummary", "elements",
+        "relatedConcepts", "relatedCases", "sourceReferences", "quotes",
+    ],
+    propertyOrdering: [
+        "id", "citation", "title", "jurisdiction", "textSummary", "elements",
+        "relatedConcepts", "relatedCases", "sourceReferences", "quotes",
     ],
 };
 
@@ -120,9 +165,10 @@ export const ExtractedEntitiesResponseSchema: Schema = {
         cases: { type: Type.ARRAY, items: caseSchema },
         principles: { type: Type.ARRAY, items: principleSchema },
         rules: { type: Type.ARRAY, items: ruleSchema },
+        statutes: { type: Type.ARRAY, items: statuteSchema },
     },
-    required: ["concepts", "cases", "principles", "rules"],
-    propertyOrdering: ["concepts", "cases", "principles", "rules"],
+    required: ["concepts", "cases", "principles", "rules", "statutes"],
+    propertyOrdering: ["concepts", "cases", "principles", "rules", "statutes"],
 };
 
 const relationshipEntrySchema: Schema = {
@@ -138,13 +184,56 @@ const relationshipEntrySchema: Schema = {
     propertyOrdering: ["caseId", "conceptId", "relationshipType", "description", "strength"],
 };
 
+const statuteRelationshipEntrySchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        statuteId: STRING,
+        conceptId: STRING,
+        relationshipType: enumString(STATUTE_REL_TYPE_VALUES),
+        description: STRING,
+    },
+    required: ["statuteId", "conceptId", "relationshipType", "description"],
+    propertyOrdering: ["statuteId", "conceptId", "relationshipType", "description"],
+};
+
+const conceptRelationshipEntrySchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        fromConceptId: STRING,
+        toConceptId: STRING,
+        relationshipType: enumString(CONCEPT_REL_TYPE_VALUES),
+        description: STRING,
+    },
+    required: ["fromConceptId", "toConceptId", "relationshipType", "description"],
+    propertyOrdering: ["fromConceptId", "toConceptId", "relationshipType", "description"],
+};
+
+const caseCitationEntrySchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        citingCaseId: STRING,
+        citedCaseId: STRING,
+        relationshipType: enumString(CASE_CITATION_TYPE_VALUES),
+        description: STRING,
+    },
+    required: ["citingCaseId", "citedCaseId", "relationshipType", "description"],
+    propertyOrdering: ["citingCaseId", "citedCaseId", "relationshipType", "description"],
+};
+
 export const RelationshipMatrixResponseSchema: Schema = {
     type: Type.OBJECT,
     properties: {
         entries: { type: Type.ARRAY, items: relationshipEntrySchema },
         casesInOrder: STRING_ARRAY,
         conceptsInOrder: STRING_ARRAY,
+        statuteEntries: { type: Type.ARRAY, items: statuteRelationshipEntrySchema },
+        conceptEntries: { type: Type.ARRAY, items: conceptRelationshipEntrySchema },
+        caseEntries: { type: Type.ARRAY, items: caseCitationEntrySchema },
     },
-    required: ["entries", "casesInOrder", "conceptsInOrder"],
-    propertyOrdering: ["entries", "casesInOrder", "conceptsInOrder"],
+    required: [
+        "entries", "casesInOrder", "conceptsInOrder", "statuteEntries", "conceptEntries", "caseEntries",
+    ],
+    propertyOrdering: [
+        "entries", "casesInOrder", "conceptsInOrder", "statuteEntries", "conceptEntries", "caseEntries",
+    ],
 };
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { normalizeCitation } from "../utils/citation-normalizer";
 
 const optionalString = z.string().optional();
 const optionalNumber = z.number().optional();
@@ -19,6 +20,18 @@ const VALID_STRENGTHS = new Set([
     "primary", "secondary", "tangential",
 ]);
 
+const VALID_STATUTE_REL_TYPES = new Set([
+    "codifies", "defines", "modifies", "references",
+]);
+
+const VALID_CONCEPT_REL_TYPES = new Set([
+    "exception-of", "element-of", "contrasts-with", "prerequisite-of",
+]);
+
+const VALID_CASE_CITATION_TYPES = new Set([
+    "follows", "overrules", "distinguishes",
+]);
+
 const categorySchema = z.enum([
     "doctrine", "rule", "standard", "defense", "remedy", "procedure", "other",
 ]);
@@ -31,6 +44,18 @@ const strengthSchema = z.enum([
     "primary", "secondary", "tangential",
 ]);
 
+const statuteRelTypeSchema = z.enum([
+    "codifies", "defines", "modifies", "references",
+]);
+
+const conceptRelTypeSchema = z.enum([
+    "exception-of", "element-of", "contrasts-with", "prerequisite-of",
+]);
+
+const caseCitationTypeSchema = z.enum([
+    "follows", "overrules", "distinguishes",
+]);
+
 // ============================================================
 // Entity schemas
 // ============================================================
@@ -41,7 +66,9 @@ export const LegalConceptSchema = z.object({
     nameChinese: optionalString,
     definition: z.string(),
     category: categorySchema,
+    parentId: optionalString,
     sourceReferences: z.array(z.string()),
+    quotes: z.array(z.string()).optional(),
 });
 
 export const LegalCaseSchema = z.object({
@@ -55,6 +82,7 @@ export const LegalCaseSchema = z.object({
     significance: z.string(),
     relatedConcepts: z.array(z.string()),
     sourceReferences: z.array(z.string()),
+    quotes: z.array(z.string()).optional(),
 });
 
 export const LegalPrincipleSchema = z.object({
@@ -65,6 +93,7 @@ export const LegalPrincipleSchema = z.object({
     relatedConcepts: z.array(z.string()),
     supportingCases: z.array(z.string()),
     sourceReferences: z.array(z.string()),
+    quotes: z.array(z.string()).optional(),
 });
 
 export const LegalRuleSchema = z.object({
@@ -78,6 +107,20 @@ export const LegalRuleSchema = z.object({
     relatedConcepts: z.array(z.string()),
     supportingCases: z.array(z.string()),
     sourceReferences: z.array(z.string()),
+    quotes: z.array(z.string()).optional(),
+});
+
+export const LegalStatuteSchema = z.object({
+    id: z.string(),
+    citation: z.string(),
+    title: optionalString,
+    jurisdiction: z.string(),
+    textSummary: z.string(),
+    elements: z.array(z.string()),
+    relatedConcepts: z.array(z.string()),
+    relatedCases: z.array(z.string()),
+    sourceReferences: z.array(z.string()),
+    quotes: z.array(z.string()).optional(),
 });
 
 export const ExtractedEntitiesSchema = z.object({
@@ -85,6 +128,7 @@ export const ExtractedEntitiesSchema = z.object({
     cases: z.array(LegalCaseSchema),
     principles: z.array(LegalPrincipleSchema),
     rules: z.array(LegalRuleSchema),
+    statutes: z.array(LegalStatuteSchema),
     metadata: z.object({
         sourceDocuments: z.array(z.string()),
         extractionTimestamp: z.string(),
@@ -101,10 +145,34 @@ export const RelationshipEntrySchema = z.object({
     strength: strengthSchema,
 });
 
+export const StatuteRelationshipEntrySchema = z.object({
+    statuteId: z.string(),
+    conceptId: z.string(),
+    relationshipType: statuteRelTypeSchema,
+    description: z.string(),
+});
+
+export const ConceptRelationshipEntrySchema = z.object({
+    fromConceptId: z.string(),
+    toConceptId: z.string(),
+    relationshipType: conceptRelTypeSchema,
+    description: z.string(),
+});
+
+export const CaseCitationEntrySchema = z.object({
+    citingCaseId: z.string(),
+    citedCaseId: z.string(),
+    relationshipType: caseCitationTypeSchema,
+    description: z.string(),
+});
+
 export const RelationshipMatrixSchema = z.object({
     entries: z.array(RelationshipEntrySchema),
     casesInOrder: z.array(z.string()),
     conceptsInOrder: z.array(z.string()),
+    statuteEntries: z.array(StatuteRelationshipEntrySchema),
+    conceptEntries: z.array(ConceptRelationshipEntrySchema),
+    caseEntries: z.array(CaseCitationEntrySchema),
 });
 
 // ============================================================
@@ -149,17 +217,19 @@ function sanitizeObject(obj: Record<string, unknown>, arrayKeys: string[], requi
     }
 }
 
-const CONCEPT_ARRAYS = ["sourceReferences"];
+const CONCEPT_ARRAYS = ["sourceReferences", "quotes"];
 const CONCEPT_STRINGS = ["id", "name", "definition"];
-const CASE_ARRAYS = ["relatedConcepts", "sourceReferences"];
+const CASE_ARRAYS = ["relatedConcepts", "sourceReferences", "quotes"];
 const CASE_STRINGS = ["id", "name", "facts", "holding", "significance"];
-const PRINCIPLE_ARRAYS = ["relatedConcepts", "supportingCases", "sourceReferences"];
+const PRINCIPLE_ARRAYS = ["relatedConcepts", "supportingCases", "sourceReferences", "quotes"];
 const PRINCIPLE_STRINGS = ["id", "name", "description"];
 const RULE_ARRAYS = [
     "elements", "exceptions", "applicationSteps",
-    "relatedConcepts", "supportingCases", "sourceReferences",
+    "relatedConcepts", "supportingCases", "sourceReferences", "quotes",
 ];
 const RULE_STRINGS = ["id", "name", "statement"];
+const STATUTE_ARRAYS = ["elements", "relatedConcepts", "relatedCases", "sourceReferences", "quotes"];
+const STATUTE_STRINGS = ["id", "citation", "jurisdiction", "textSummary"];
 
 /**
  * Normalize raw AI output to match our Zod schemas.
@@ -172,6 +242,7 @@ export function normalizeExtractedEntities(data: Record<string, unknown>): void
     if (!Array.isArray(data.cases)) data.cases = [];
     if (!Array.isArray(data.principles)) data.principles = [];
     if (!Array.isArray(data.rules)) data.rules = [];
+    if (!Array.isArray(data.statutes)) data.statutes = [];
 
     // Ensure metadata exists
     if (!data.metadata || typeof data.metadata !== "object") {
@@ -190,7 +261,7 @@ export function normalizeExtractedEntities(data: Record<string, unknown>): void
     }
 
     // Remove last element of each array if it looks incomplete (truncation artifact)
-    for (const key of ["concepts", "cases", "principles", "rules"] as const) {
+    for (const key of ["concepts", "cases", "principles", "rules", "statutes"] as const) {
         const arr = data[key] as unknown[];
         if (arr.length > 0) {
             const last = arr[arr.length - 1];
@@ -230,11 +301,23 @@ export function normalizeExtractedEntities(data: Record<string, unknown>): void
             sanitizeObject(r as Record<string, unknown>, RULE_ARRAYS, RULE_STRINGS);
         }
     }
+
+    // Statutes: canonical citation so "I.R.C. §721" and "IRC § 721" are one provision
+    const statutes = data.statutes as unknown[];
+    for (const st of statutes) {
+        if (st && typeof st === "object") {
+            const obj = st as Record<string, unknown>;
+            sanitizeObject(obj, STATUTE_ARRAYS, STATUTE_STRINGS);
+            obj.citation = normalizeCitation(obj.citation as string);
+        }
+    }
 }
 
 /** Check if an entity object has its essential fields (id + name at minimum). */
 function isCompleteEntity(obj: Record<string, unknown>, type: string): boolean {
     if (!obj.id || typeof obj.id !== "string") return false;
+    // Statutes are identified by citation rather than name
+    if (type === "statutes") return !!obj.citation && typeof obj.citation === "string";
     if (!obj.name || typeof obj.name !== "string") return false;
     // Cases need at minimum facts + holding
     if (type === "cases") {
@@ -244,11 +327,39 @@ function isCompleteEntity(obj: Record<string, unknown>, type: string): boolean {
     return true;
 }
 
+/**
+ * Normalize a list of entity↔entity edges: drop entries missing an endpoint
+ * (truncated or malformed) or pointing at themselves, and coerce the type
+ * ("Exception_Of" → "exception-of"), falling back to `fallbackType`.
+ */
+function normalizeEdges(
+    edges: unknown[],
+    fromKey: string,
+    toKey: string,
+    validTypes: Set<string>,
+    fallbackType: string
+): Record<string, unknown>[] {
+    const result: Record<string, unknown>[] = [];
+    for (const e of edges) {
+        if (!e || typeof e !== "object") continue;
+        const entry = e as Record<string, unknown>;
+        sanitizeObject(entry, [], [fromKey, toKey, "relationshipType", "description"]);
+        if (!entry[fromKey] || !entry[toKey] || entry[fromKey] === entry[toKey]) continue;
+        const type = String(entry.relationshipType).toLowerCase().trim().replace(/[\s_]+/g, "-");
+        entry.relationshipType = validTypes.has(type) ? type : fallbackType;
+        result.push(entry);
+    }
+    return result;
+}
+
 export function normalizeRelationshipMatrix(data: Record<string, unknown>): void {
     // Ensure top-level arrays exist (handles truncated JSON)
     if (!Array.isArray(data.entries)) data.entries = [];
     if (!Array.isArray(data.casesInOrder)) data.casesInOrder = [];
     if (!Array.isArray(data.conceptsInOrder)) data.conceptsInOrder = [];
+    if (!Array.isArray(data.statuteEntries)) data.statuteEntries = [];
+    if (!Array.isArray(data.conceptEntries)) data.conceptEntries = [];
+    if (!Array.isArray(data.caseEntries)) data.caseEntries = [];
 
     const entries = data.entries as unknown[];
 
@@ -294,6 +405,36 @@ export function normalizeRelationshipMatrix(data: Record<string, unknown>): void
         }
     }
 
+    const statuteEntries = data.statuteEntries as unknown[];
+    if (statuteEntries.length > 0) {
+        const last = statuteEntries[statuteEntries.length - 1];
+        if (last && typeof last === "object") {
+            const obj = last as Record<string, unknown>;
+            if (!obj.statuteId || !obj.conceptId) {
+                console.warn("[law-restructurer] Removing incomplete last statute entry (likely truncated)");
+                statuteEntries.pop();
+            }
+        }
+    }
+
+    for (const e of statuteEntries) {
+        if (e && typeof e === "object") {
+            const entry = e as Record<string, unknown>;
+            sanitizeObject(entry, [], ["statuteId", "conceptId", "relationshipType", "description"]);
+            const lower = String(entry.relationshipType).toLowerCase().trim();
+            entry.relationshipType = VALID_STATUTE_REL_TYPES.has(lower) ? lower : "references";
+        }
+    }
+
+    data.conceptEntries = normalizeEdges(
+        data.conceptEntries as unknown[], "fromConceptId", "toConceptId",
+        VALID_CONCEPT_REL_TYPES, "contrasts-with"
+    );
+    data.caseEntries = normalizeEdges(
+        data.caseEntries as unknown[], "citingCaseId", "citedCaseId",
+        VALID_CASE_CITATION_TYPES, "follows"
+    );
+
     // Auto-populate casesInOrder/conceptsInOrder from entries if missing
     if ((data.casesInOrder as string[]).length === 0 && entries.length > 0) {
         const caseIds = new Set<string>();
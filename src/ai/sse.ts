@@ -0,0 +1,28 @@
+/**
+ * Minimal Server-Sent Events framing for streamed chat completions. Network
+ * reads arrive in arbitrary slices, so the caller keeps the unconsumed tail
+ * and feeds it back with the next slice.
+ */
+
+export interface SseSplit {
+    /** `data:` payloads of every complete event in the buffer, in order. */
+    data: string[];
+    /** Trailing partial event, to prepend to the next read. */
+    rest: string;
+}
+
+/** Split buffered SSE text into complete events' data payloads plus the unfinished remainder. */
+export function splitSseEvents(buffer: string): SseSplit {
+    const normalized = buffer.replace(/\r\n/g, "\n");
+    const events = normalized.split("\n\n");
+    const rest = events.pop() ?? "";
+    const data: string[] = [];
+    for (const event of events) {
+        const lines = event
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).replace(/^ /, ""));
+        if (lines.length > 0) data.push(lines.join("\n"));
+    }
+    return { data, rest };
+}
@@ -0,0 +1,46 @@
+import type { LawNoteSettings, ModelProvider, ModelStep } from "../types";
+
+/**
+ * Per-step model routing. Each LLM-backed step (entity extraction,
+ * relationship mapping, concept pages, outline, Ask My Notes and its
+ * reranking) may name its own provider + model and, optionally, temperature
+ * and thinking budget; steps without an override use the global generation
+ * settings. Routing is applied by resolving a step's effective settings, so
+ * clients, metadata and the cost meter all see the model that step actually
+ * runs on.
+ */
+
+export const MODEL_STEPS: readonly ModelStep[] = ["extraction", "relationships", "pages", "outline", "ask", "rerank"];
+
+export const MODEL_STEP_LABELS: Record<ModelStep, string> = {
+    extraction: "Entity extraction (实体提取)",
+    relationships: "Relationship mapping (关系映射)",
+    pages: "Concept & dashboard pages (概念页)",
+    outline: "Outline & TOC (大纲)",
+    ask: "Ask My Notes (问答)",
+    rerank: "Ask My Notes reranking (问答重排)",
+};
+
+/** Settings with the step's provider, model, temperature and thinking budget applied. */
+export function settingsForStep(settings: LawNoteSettings, step: ModelStep): LawNoteSettings {
+    const route = settings.stepModels?.[step];
+    if (!route || !route.model.trim()) return settings;
+
+    const resolved: LawNoteSettings = { ...settings, generationProvider: route.provider };
+    const model = route.model.trim();
+    if (route.provider === "ollama") resolved.ollamaModel = model;
+    else if (route.provider === "openai") resolved.openaiModel = model;
+    else resolved.modelName = model;
+    if (route.temperature !== undefined) resolved.temperature = route.temperature;
+    if (route.thinkingBudget !== undefined) resolved.thinkingBudget = route.thinkingBudget;
+    return resolved;
+}
+
+/** True when any generation step (default, routed, or fallback) or embeddings use `provider`. */
+export function usesProvider(settings: LawNoteSettings, provider: ModelProvider): boolean {
+    return (
+        settings.embeddingProvider === provider ||
+        MODEL_STEPS.some((step) => settingsForStep(settings, step).generationProvider === provider) ||
+        (settings.fallbackChain ?? []).some((t) => t.provider === provider)
+    );
+}
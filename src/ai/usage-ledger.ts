@@ -0,0 +1,110 @@
+import type { Vault } from "obsidian";
+import type { ModelStep } from "../types";
+import type { CallUsage } from "./llm-provider";
+
+/**
+ * Append-only record of every model call: when, for which course and step,
+ * on which model, how many input / output / thinking tokens, and whether the
+ * answer came from the response cache. Stored as JSON Lines in
+ * `_usage-ledger.jsonl` at the root of the output folder (one ledger for all
+ * courses); the Usage report note is rendered from it.
+ */
+
+export const LEDGER_FILENAME = "_usage-ledger.jsonl";
+
+export interface LedgerEntry {
+    /** ISO timestamp of the call. */
+    time: string;
+    /** Course name ("" = default output folder). */
+    course: string;
+    step: ModelStep;
+    /** Provider label, e.g. "gemini:gemini-2.5-flash". */
+    model: string;
+    input: number;
+    output: number;
+    thinking: number;
+    /** Input tokens the provider served from its own context cache (billed at the cached rate). */
+    cachedInput?: number;
+    /** Answered from the response cache (no tokens billed). */
+    cached: boolean;
+}
+
+/** Records one call made on `model` (a provider label) by the step this recorder was made for. */
+export type UsageRecorder = (model: string, usage: CallUsage, cached?: boolean) => void;
+
+const NO_TOKENS: CallUsage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+
+/** Parse ledger text; blank and malformed lines (e.g. a torn final write) are skipped. */
+export function parseLedger(text: string): LedgerEntry[] {
+    const entries: LedgerEntry[] = [];
+    for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line) as LedgerEntry;
+            if (entry && typeof entry.time === "string" && typeof entry.model === "string") entries.push(entry);
+        } catch {
+            // Not a ledger line.
+        }
+    }
+    return entries;
+}
+
+/**
+ * One run's (or command's) handle on the ledger, bound to a course. Calls are
+ * buffered in memory and appended by `flush`, which steps call when they
+ * finish — the same rhythm as the response cache.
+ */
+export class UsageLedger {
+    private pending: LedgerEntry[] = [];
+    /** Writes are chained so concurrent flushes never interleave. */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly vault: Vault,
+        readonly path: string,
+        readonly course: string
+    ) {}
+
+    /** The ledger under `outputFolder` (the root output folder, not a course folder). */
+    static at(vault: Vault, outputFolder: string, course: string): UsageLedger {
+        return new UsageLedger(vault, `${outputFolder}/${LEDGER_FILENAME}`, course);
+    }
+
+    /** A recorder tagging calls with this ledger's course and `step`. */
+    recorder(step: ModelStep): UsageRecorder {
+        return (model, usage, cached = false) => {
+            const tokens = cached ? NO_TOKENS : usage;
+            this.pending.push({
+                time: new Date().toISOString(),
+                course: this.course,
+                step,
+                model,
+                input: tokens.inputTokens,
+                output: tokens.outputTokens,
+                thinking: tokens.thinkingTokens,
+                cachedInput: tokens.cachedInputTokens ?? 0,
+                cached,
+            });
+        };
+    }
+
+    /** Append buffered entries to the ledger file. */
+    flush(): Promise<void> {
+        if (this.pending.length === 0) return this.writeQueue;
+        const lines = this.pending.map((e) => JSON.stringify(e) + "\n").join("");
+        this.pending = [];
+        const task = async () => {
+            if (await this.vault.adapter.exists(this.path)) await this.vault.adapter.append(this.path, lines);
+            else await this.vault.adapter.write(this.path, lines);
+        };
+        this.writeQueue = this.writeQueue.then(task, task);
+        return this.writeQueue;
+    }
+
+    /** Every entry in the ledger file (empty if there is none yet). */
+    static async read(vault: Vault, outputFolder: string): Promise<LedgerEntry[]> {
+        const path = `${outputFolder}/${LEDGER_FILENAME}`;
+        if (!(await vault.adapter.exists(path))) return [];
+        return parseLedger(await vault.adapter.read(path));
+    }
+}
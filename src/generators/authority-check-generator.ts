@@ -1,4 +1,5 @@
 import type {
+    CaseCitationType,
     ExtractedEntities,
     LegalCase,
     RelationshipMatrix,
@@ -12,6 +13,9 @@ const LIMITING: ReadonlySet<RelationshipType> = new Set([
     "distinguishes",
 ]);
 
+// Case-to-case treatments that limit the cited case.
+const LIMITING_CITATIONS: ReadonlySet<CaseCitationType> = new Set(["overrules", "distinguishes"]);
+
 const today = (): string => new Date().toISOString().split("T")[0];
 
 function oneLine(text: string): string {
@@ -20,40 +24,61 @@ function oneLine(text: string): string {
 
 /**
  * A free, local approximation of Shepard's/KeyCite: flag each concept whose
- * doctrine a later case **overruled**, **modified**, or **distinguished**, and
- * point at the earlier cases that may now be limited. Reuses the relationship
- * matrix; no AI call. Heuristic only — always verify against a citator.
+ * doctrine a later case **overruled**, **modified**, or **distinguished** —
+ * either through the concept itself or by overruling/distinguishing a case the
+ * concept rests on — and list every case a later case overruled or
+ * distinguished. Reuses the relationship matrix; no AI call. Heuristic only —
+ * always verify against a citator.
  */
 export function generateAuthorityCheckPage(
     matrix: RelationshipMatrix,
     entities: ExtractedEntities
 ): string {
     const cases = new Map<string, LegalCase>(entities.cases.map((c) => [c.id, c]));
+    const label = (c: LegalCase): string => `[[${c.name}]]${c.year ? ` (${c.year})` : ""}`;
+    const limitingCitations = (matrix.caseEntries ?? []).filter(
+        (e) => LIMITING_CITATIONS.has(e.relationshipType) && cases.has(e.citingCaseId) && cases.has(e.citedCaseId)
+    );
     const sections: string[] = [];
 
     for (const concept of entities.concepts) {
         const entries = matrix.entries.filter((e) => e.conceptId === concept.id);
         const limiting = entries.filter((e) => LIMITING.has(e.relationshipType));
-        if (limiting.length === 0) continue;
+        const conceptCases = new Set(entries.map((e) => e.caseId));
+        const citations = limitingCitations.filter((e) => conceptCases.has(e.citedCaseId));
+        if (limiting.length === 0 && citations.length === 0) continue;
 
         const established = entries.filter((e) => e.relationshipType === "establishes");
         const lines: string[] = [`## [[${concept.name}]]`, "", "> [!warning] Possibly limited authority"];
 
         for (const e of established) {
             const c = cases.get(e.caseId);
-            if (c) lines.push(`> - Established by [[${c.name}]]${c.year ? ` (${c.year})` : ""}`);
+            if (c) lines.push(`> - Established by ${label(c)}`);
         }
         for (const e of limiting) {
             const c = cases.get(e.caseId);
             if (!c) continue;
-            const year = c.year ? ` (${c.year})` : "";
-            lines.push(`> - ⚠️ **${e.relationshipType}** by [[${c.name}]]${year}: ${oneLine(e.description)}`);
+            lines.push(`> - ⚠️ **${e.relationshipType}** by ${label(c)}: ${oneLine(e.description)}`);
+        }
+        for (const e of citations) {
+            const cited = cases.get(e.citedCaseId)!;
+            const citing = cases.get(e.citingCaseId)!;
+            lines.push(`> - ⚠️ ${label(cited)} **${e.relationshipType === "overrules" ? "overruled" : "distinguished"}** by ${label(citing)}: ${oneLine(e.description)}`);
         }
         lines.push(">", "> Verify the current status before relying on the earlier authority.");
 
         sections.push(lines.join("\n"));
     }
 
+    if (limitingCitations.length > 0) {
+        const lines = limitingCitations.map((e) => {
+            const cited = cases.get(e.citedCaseId)!;
+            const citing = cases.get(e.citingCaseId)!;
+            return `- ${label(cited)} — **${e.relationshipType === "overrules" ? "overruled" : "distinguished"}** by ${label(citing)}: ${oneLine(e.description)}`;
+        });
+        sections.push(["## Overruled & Distinguished Cases (被推翻或区分的判例)", "", ...lines].join("\n"));
+    }
+
     const body =
         sections.length > 0
             ? sections.join("\n\n")
@@ -69,7 +94,7 @@ generated-by: law-note-restructurer
 
 # Authority Check (效力校验)
 
-Doctrines flagged because a later case **overruled**, **modified**, or **distinguished** them.
+Doctrines flagged because a later case **overruled**, **modified**, or **distinguished** them or the cases they rest on.
 This is a heuristic drawn from your own notes — **not** a substitute for Shepard's / KeyCite.
 
 ${body}
@@ -1,12 +1,15 @@
 import type { LLMClient } from "../ai/llm-provider";
 import { buildConceptPagePrompt, buildCombinedConceptDashboardPrompt, buildDashboardPrompt } from "../ai/prompts";
 import type {
+    ConceptRelationshipType,
     ExtractedEntities,
     LawNoteSettings,
     LegalConcept,
     RelationshipMatrix,
 } from "../types";
 import { cleanGeneratedMarkdown } from "../types";
+import { renderLectureSection } from "../pipeline/lecture-references";
+import { renderUnverifiedCallout } from "../pipeline/evidence-verifier";
 
 export async function generateConceptPage(
     client: LLMClient,
@@ -137,7 +140,7 @@ generated-by: law-note-restructurer
 ---
 
 # ${cas.name}
-
+${renderUnverifiedCallout(cas)}
 ${cas.citation ? `**Citation**: ${cas.citation}` : ""}
 ${cas.year ? `**Year**: ${cas.year}` : ""}
 ${cas.court ? `**Court**: ${cas.court}` : ""}
@@ -153,5 +156,37 @@ ${cas.significance}
 
 ## Related Concepts
 ${conceptLinks || "No relationships mapped."}
-`;
+${renderLectureSection(cas.sourceReferences)}`;
+}
+
+/** Phrasing for a concept edge, seen from its `from` side and from its `to` side. */
+const CONCEPT_EDGE_LABELS: Record<ConceptRelationshipType, { outgoing: string; incoming: string }> = {
+    "exception-of": { outgoing: "Exception to", incoming: "Exception" },
+    "element-of": { outgoing: "Element of", incoming: "Element" },
+    "contrasts-with": { outgoing: "Contrasts with", incoming: "Contrasts with" },
+    "prerequisite-of": { outgoing: "Prerequisite of", incoming: "Prerequisite" },
+};
+
+/**
+ * "Doctrinal Relationships" section for a concept page, listing the typed
+ * concept↔concept links from the matrix in both directions. Empty when there
+ * are none.
+ */
+export function renderDoctrineLinksSection(
+    conceptId: string,
+    entities: ExtractedEntities,
+    matrix: RelationshipMatrix
+): string {
+    const name = (id: string) => entities.concepts.find((c) => c.id === id)?.name;
+    const lines: string[] = [];
+    for (const e of matrix.conceptEntries ?? []) {
+        const outgoing = e.fromConceptId === conceptId;
+        if (!outgoing && e.toConceptId !== conceptId) continue;
+        const other = name(outgoing ? e.toConceptId : e.fromConceptId);
+        if (!other) continue;
+        const labels = CONCEPT_EDGE_LABELS[e.relationshipType];
+        lines.push(`- ${outgoing ? labels.outgoing : labels.incoming}: [[${other}]] — ${e.description}`);
+    }
+    if (lines.length === 0) return "";
+    return `\n\n## Doctrinal Relationships (学说关系)\n\n${lines.join("\n")}\n`;
 }
@@ -38,6 +38,10 @@ export function generateMatrixPage(
         return `| [[${caseName}]] | ${cells.join(" | ")} |`;
     });
 
+    const statuteSection = renderStatuteTable(matrix, entities);
+    const conceptSection = renderConceptEdgeTable(matrix, entities);
+    const caseSection = renderCaseCitationTable(matrix, entities);
+
     return `---
 tags:
   - law/matrix
@@ -60,5 +64,86 @@ ${rows.join("\n")}
 - **overrules**: Overrules prior understanding
 - **illustrates**: Provides a useful illustration
 - *tangential*: Only briefly referenced
+${statuteSection}${conceptSection}${caseSection}`;
+}
+
+function renderStatuteTable(
+    matrix: RelationshipMatrix,
+    entities: ExtractedEntities
+): string {
+    const entries = matrix.statuteEntries ?? [];
+    if (entries.length === 0) return "";
+
+    const rows = entries.map((e) => {
+        const statute = entities.statutes?.find((s) => s.id === e.statuteId);
+        const concept = entities.concepts.find((c) => c.id === e.conceptId);
+        return `| [[${statute?.citation ?? e.statuteId}]] | [[${concept?.name ?? e.conceptId}]] | **${e.relationshipType}**: ${e.description} |`;
+    });
+
+    return `
+## Statute–Concept Relationships
+
+| Statute | Concept | Relationship |
+|---|---|---|
+${rows.join("\n")}
+
+**Legend**:
+- **codifies**: Enacts the doctrine in statute
+- **defines**: Defines the term or concept
+- **modifies**: Limits, extends, or creates an exception to the concept
+- **references**: Otherwise relevant to the concept
+`;
+}
+
+function renderConceptEdgeTable(
+    matrix: RelationshipMatrix,
+    entities: ExtractedEntities
+): string {
+    const entries = matrix.conceptEntries ?? [];
+    if (entries.length === 0) return "";
+
+    const name = (id: string) => entities.concepts.find((c) => c.id === id)?.name ?? id;
+    const rows = entries.map(
+        (e) => `| [[${name(e.fromConceptId)}]] | **${e.relationshipType}** | [[${name(e.toConceptId)}]] | ${e.description} |`
+    );
+
+    return `
+## Concept–Concept Relationships
+
+| Concept | Relationship | Concept | Description |
+|---|---|---|---|
+${rows.join("\n")}
+
+**Legend**:
+- **exception-of**: The first concept is an exception to the second
+- **element-of**: The first concept is an element of the second
+- **contrasts-with**: The two concepts are set against each other
+- **prerequisite-of**: The first concept must be satisfied before the second applies
+`;
+}
+
+function renderCaseCitationTable(
+    matrix: RelationshipMatrix,
+    entities: ExtractedEntities
+): string {
+    const entries = matrix.caseEntries ?? [];
+    if (entries.length === 0) return "";
+
+    const name = (id: string) => entities.cases.find((c) => c.id === id)?.name ?? id;
+    const rows = entries.map(
+        (e) => `| [[${name(e.citingCaseId)}]] | **${e.relationshipType}** | [[${name(e.citedCaseId)}]] | ${e.description} |`
+    );
+
+    return `
+## Case–Case Citations
+
+| Later Case | Treatment | Earlier Case | Description |
+|---|---|---|---|
+${rows.join("\n")}
+
+**Legend**:
+- **follows**: Applies the earlier case as precedent
+- **overrules**: Overrules the earlier case
+- **distinguishes**: Distinguishes the earlier case on its facts or reasoning
 `;
 }
@@ -6,24 +6,31 @@ import {
     TocResponseSchema,
     buildTocPrompt,
     buildOutlineFromTocPrompt,
+    buildHierarchyToc,
     type OutlineOptions,
     type Toc,
 } from "../ai/outline";
 
 type Lang = "zh" | "en" | "mixed";
 
-/** Ask the model for a proposed table of contents (structured output). */
-export function generateToc(
+/**
+ * Ask the model for a proposed table of contents (structured output). The
+ * concept hierarchy is offered as the default skeleton, and is used as-is if
+ * the model proposes no sections at all.
+ */
+export async function generateToc(
     client: LLMClient,
     entities: ExtractedEntities,
     options: OutlineOptions,
     language: Lang
 ): Promise<Toc> {
-    return client.generateStructured(
+    const toc = await client.generateStructured(
         buildTocPrompt(entities, options, language),
         TocSchema,
         TocResponseSchema
     );
+    if (toc.sections.length === 0) return buildHierarchyToc(entities.concepts) ?? toc;
+    return toc;
 }
 
 /** Generate the full outline markdown following the (user-edited) TOC. */
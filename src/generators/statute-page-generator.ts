@@ -0,0 +1,105 @@
+import type {
+    ExtractedEntities,
+    LegalStatute,
+    RelationshipMatrix,
+    StatuteRelationshipEntry,
+} from "../types";
+import { renderLectureSection } from "../pipeline/lecture-references";
+import { renderUnverifiedCallout } from "../pipeline/evidence-verifier";
+
+/** Statute↔concept links for one statute or concept: matrix entries plus extraction-time links. */
+function statuteLinks(
+    entities: ExtractedEntities,
+    matrix: RelationshipMatrix,
+    match: (entry: Pick<StatuteRelationshipEntry, "statuteId" | "conceptId">) => boolean
+): Array<{ statute: LegalStatute; conceptId: string; entry?: StatuteRelationshipEntry }> {
+    const links: Array<{ statute: LegalStatute; conceptId: string; entry?: StatuteRelationshipEntry }> = [];
+    const seen = new Set<string>();
+    const statutes = entities.statutes ?? [];
+
+    for (const entry of matrix.statuteEntries ?? []) {
+        const statute = statutes.find((s) => s.id === entry.statuteId);
+        if (!statute || !match(entry)) continue;
+        seen.add(`${entry.statuteId}|${entry.conceptId}`);
+        links.push({ statute, conceptId: entry.conceptId, entry });
+    }
+    for (const statute of statutes) {
+        for (const conceptId of statute.relatedConcepts) {
+            const key = `${statute.id}|${conceptId}`;
+            if (seen.has(key) || !match({ statuteId: statute.id, conceptId })) continue;
+            seen.add(key);
+            links.push({ statute, conceptId });
+        }
+    }
+    return links;
+}
+
+export function generateStatutePageLocal(
+    statute: LegalStatute,
+    entities: ExtractedEntities,
+    matrix: RelationshipMatrix
+): string {
+    const conceptLinks = statuteLinks(entities, matrix, (e) => e.statuteId === statute.id)
+        .map(({ conceptId, entry }) => {
+            const concept = entities.concepts.find((c) => c.id === conceptId);
+            const name = concept?.name ?? conceptId;
+            return entry
+                ? `- [[${name}]] - ${entry.relationshipType}: ${entry.description}`
+                : `- [[${name}]]`;
+        })
+        .join("\n");
+
+    const caseLinks = statute.relatedCases
+        .map((id) => entities.cases.find((c) => c.id === id)?.name)
+        .filter((name): name is string => !!name)
+        .map((name) => `- [[${name}]]`)
+        .join("\n");
+
+    const elements = statute.elements.map((e, i) => `${i + 1}. ${e}`).join("\n");
+
+    return `---
+tags:
+  - law/statute
+jurisdiction: "${statute.jurisdiction.replace(/"/g, "'")}"
+date: ${new Date().toISOString().split("T")[0]}
+generated-by: law-note-restructurer
+---
+
+# ${statute.citation}
+${renderUnverifiedCallout(statute)}
+${statute.title ? `*${statute.title}*` : ""}
+${statute.jurisdiction ? `**Jurisdiction**: ${statute.jurisdiction}` : ""}
+
+## Summary
+${statute.textSummary}
+
+## Elements
+${elements || "No elements extracted."}
+
+## Related Concepts
+${conceptLinks || "No relationships mapped."}
+
+## Cases
+${caseLinks || "No cases linked."}
+${renderLectureSection(statute.sourceReferences)}`;
+}
+
+/**
+ * "Statutory Provisions" section appended to a concept page, linking the
+ * statutes that codify, define or modify it. Empty when there are none.
+ */
+export function renderStatuteSection(
+    conceptId: string,
+    entities: ExtractedEntities,
+    matrix: RelationshipMatrix
+): string {
+    const links = statuteLinks(entities, matrix, (e) => e.conceptId === conceptId);
+    if (links.length === 0) return "";
+    const lines = links.map(({ statute, entry }) => {
+        const title = statute.title ? ` (${statute.title})` : "";
+        return entry
+            ? `- [[${statute.citation}]]${title} - ${entry.relationshipType}: ${entry.description}`
+            : `- [[${statute.citation}]]${title}`;
+    });
+    return `\n\n## Statutory Provisions (法条)\n\n${lines.join("\n")}\n`;
+}
@@ -1,4 +1,5 @@
 import type {
+    CaseCitationEntry,
     ExtractedEntities,
     LegalCase,
     RelationshipEntry,
@@ -60,30 +61,60 @@ function mermaidLabel(text: string): string {
     return `"${text.replace(/["\[\]{}|]/g, "")}"`;
 }
 
+function yearSuffix(cas: LegalCase): string {
+    return cas.year ? ` (${cas.year})` : "";
+}
+
+/** Mermaid `graph LR` over the given cases, one edge per citation (cited → citing). */
+function citationDiagram(caseIds: string[], citations: CaseCitationEntry[], cases: Map<string, LegalCase>): string[] {
+    const index = new Map(caseIds.map((id, i) => [id, i]));
+    const nodes = caseIds.map((id, i) => `    c${i}[${mermaidLabel(cases.get(id)?.name ?? id)}]`);
+    const edges = citations.map(
+        (e) => `    c${index.get(e.citedCaseId)} -->|${e.relationshipType}| c${index.get(e.citingCaseId)}`
+    );
+    return ["```mermaid", "graph LR", ...nodes, ...edges, "```"];
+}
+
 /**
  * Doctrinal evolution chains: for each concept, the cases that established,
  * modified, distinguished, or overruled it, in chronological order — plus a
- * Mermaid diagram. Reuses the relationship matrix; no AI call.
+ * Mermaid diagram. Where the matrix records which case followed, overruled or
+ * distinguished which, the diagram draws those citations; otherwise it falls
+ * back to linking the cases in date order. A closing "Case Lineage" section
+ * lists every recorded citation. Reuses the relationship matrix; no AI call.
  */
 export function generateEvolutionPage(
     matrix: RelationshipMatrix,
     entities: ExtractedEntities
 ): string {
     const cases = caseById(entities);
+    const citations = (matrix.caseEntries ?? []).filter(
+        (e) => cases.has(e.citingCaseId) && cases.has(e.citedCaseId)
+    );
     const sections: string[] = [];
 
     for (const concept of entities.concepts) {
         const chain = entriesForConcept(concept.id, matrix, cases, EVOLUTION_TYPES);
         if (chain.length === 0) continue;
 
+        const inChain = new Set(chain.map(({ cas }) => cas.id));
+        const chainCitations = citations.filter(
+            (e) => inChain.has(e.citingCaseId) && inChain.has(e.citedCaseId)
+        );
+
         const bullets = chain.map(({ entry, cas }) => {
-            const year = cas.year ? ` (${cas.year})` : "";
-            return `- [[${cas.name}]]${year} — *${entry.relationshipType}*: ${entry.description}`;
+            const cited = chainCitations
+                .filter((e) => e.citingCaseId === cas.id)
+                .map((e) => `${e.relationshipType} [[${cases.get(e.citedCaseId)!.name}]]`);
+            const treatment = cited.length > 0 ? ` (${cited.join("; ")})` : "";
+            return `- [[${cas.name}]]${yearSuffix(cas)} — *${entry.relationshipType}*${treatment}: ${entry.description}`;
         });
 
         const lines: string[] = [`## [[${concept.name}]]`, "", ...bullets];
 
-        if (chain.length >= 2) {
+        if (chainCitations.length > 0) {
+            lines.push("", ...citationDiagram(chain.map(({ cas }) => cas.id), chainCitations, cases));
+        } else if (chain.length >= 2) {
             const nodes = chain.map(({ cas }, i) => `    c${i}[${mermaidLabel(cas.name)}]`);
             const edges = chain
                 .slice(1)
@@ -94,6 +125,23 @@ export function generateEvolutionPage(
         sections.push(lines.join("\n"));
     }
 
+    if (citations.length > 0) {
+        const byCitingYear = [...citations].sort(
+            (a, b) =>
+                (cases.get(a.citingCaseId)!.year ?? Number.POSITIVE_INFINITY) -
+                (cases.get(b.citingCaseId)!.year ?? Number.POSITIVE_INFINITY)
+        );
+        const bullets = byCitingYear.map((e) => {
+            const citing = cases.get(e.citingCaseId)!;
+            const cited = cases.get(e.citedCaseId)!;
+            return `- [[${citing.name}]]${yearSuffix(citing)} *${e.relationshipType}* [[${cited.name}]]${yearSuffix(cited)}: ${e.description}`;
+        });
+        const ids = [...new Set(byCitingYear.flatMap((e) => [e.citedCaseId, e.citingCaseId]))];
+        sections.push(
+            ["## Case Lineage (判例谱系)", "", ...bullets, "", ...citationDiagram(ids, byCitingYear, cases)].join("\n")
+        );
+    }
+
     const body =
         sections.length > 0 ? sections.join("\n\n") : "_No doctrinal evolution detected yet._";
 
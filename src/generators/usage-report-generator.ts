@@ -0,0 +1,112 @@
+import { formatTokens, formatUSD, providerSplitCostUSD } from "../ai/cost";
+import { MODEL_STEP_LABELS } from "../ai/step-routing";
+import type { LedgerEntry } from "../ai/usage-ledger";
+import { DEFAULT_MODEL_CATALOG, type ModelSpec, type ModelStep } from "../types";
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+interface UsageRow {
+    calls: number;
+    cached: number;
+    input: number;
+    output: number;
+    thinking: number;
+    cost: number;
+}
+
+/**
+ * Cost of one ledger entry: input at the input rate (provider-cached input at
+ * the cached rate), output + thinking at the output rate.
+ */
+export function entryCostUSD(entry: LedgerEntry, catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG): number {
+    return providerSplitCostUSD(
+        entry.model,
+        { input: entry.input, output: entry.output + entry.thinking, cachedInput: entry.cachedInput },
+        catalog
+    );
+}
+
+/** Ledger entries summed per `key`, in first-seen order. */
+export function groupUsage(
+    entries: LedgerEntry[],
+    key: (entry: LedgerEntry) => string,
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): Map<string, UsageRow> {
+    const rows = new Map<string, UsageRow>();
+    for (const e of entries) {
+        const k = key(e);
+        const row = rows.get(k) ?? { calls: 0, cached: 0, input: 0, output: 0, thinking: 0, cost: 0 };
+        row.calls++;
+        if (e.cached) row.cached++;
+        row.input += e.input;
+        row.output += e.output;
+        row.thinking += e.thinking;
+        row.cost += entryCostUSD(e, catalog);
+        rows.set(k, row);
+    }
+    return rows;
+}
+
+function table(heading: string, rows: Map<string, UsageRow>, label: (key: string) => string): string {
+    const lines = [
+        `| ${heading} | Calls | Cached | Input | Output | Thinking | Cost |`,
+        "|---|---:|---:|---:|---:|---:|---:|",
+    ];
+    for (const [key, r] of rows) {
+        lines.push(
+            `| ${label(key)} | ${r.calls} | ${r.cached} | ${formatTokens(r.input)} | ${formatTokens(r.output)} | ` +
+                `${formatTokens(r.thinking)} | ~${formatUSD(r.cost)} |`
+        );
+    }
+    return lines.join("\n") + "\n";
+}
+
+const courseLabel = (course: string): string => course || "(default folder)";
+const stepLabel = (step: string): string => MODEL_STEP_LABELS[step as ModelStep] ?? step;
+
+/**
+ * "Usage" report note: model calls from the usage ledger summed per course,
+ * per step, per month and per model, with input, output and thinking tokens
+ * priced separately at the model catalog's rates. Pure — derived from the
+ * ledger, no AI call.
+ */
+export function generateUsageReport(
+    entries: LedgerEntry[],
+    catalog: readonly ModelSpec[] = DEFAULT_MODEL_CATALOG
+): string {
+    const header = `---
+tags:
+  - law/usage
+date: ${today()}
+generated-by: law-note-restructurer
+---
+
+# Usage (用量报告)
+
+`;
+    if (entries.length === 0) {
+        return header + "_No model calls recorded yet. Run the pipeline to start the ledger._\n";
+    }
+
+    const total = groupUsage(entries, () => "all", catalog).get("all")!;
+    const summary =
+        `${total.calls} model calls (${total.cached} from cache) · ${formatTokens(total.input)} input, ` +
+        `${formatTokens(total.output)} output, ${formatTokens(total.thinking)} thinking tokens · ` +
+        `~${formatUSD(total.cost)} (rough estimate; self-hosted models are free).\n`;
+
+    const months = new Map(
+        [...groupUsage(entries, (e) => e.time.slice(0, 7), catalog)].sort((a, b) => b[0].localeCompare(a[0]))
+    );
+    return (
+        header +
+        summary +
+        "\n## By course (按课程)\n\n" +
+        table("Course", groupUsage(entries, (e) => e.course, catalog), courseLabel) +
+        "\n## By step (按步骤)\n\n" +
+        table("Step", groupUsage(entries, (e) => e.step, catalog), stepLabel) +
+        "\n## By month (按月份)\n\n" +
+        table("Month", months, (m) => m) +
+        "\n## By model (按模型)\n\n" +
+        table("Model", groupUsage(entries, (e) => e.model, catalog), (m) => `\`${m}\``)
+    );
+}
@@ -4,10 +4,16 @@ import { LawNoteSettingTab } from "./settings";
 import { PipelineOrchestrator } from "./pipeline/pipeline-orchestrator";
 import { runLinkResolver } from "./link-resolver/resolver-orchestrator";
 import { createLLMClient } from "./ai/llm-client-factory";
+import { settingsForStep, usesProvider } from "./ai/step-routing";
+import { RunBudget, courseBudgetExhausted, recordCourseSpend, runLimitUSD } from "./ai/budget";
+import { UsageLedger } from "./ai/usage-ledger";
+import { setFixtureVault } from "./ai/record-replay";
+import { generateUsageReport } from "./generators/usage-report-generator";
 import { createEmbedder, embedderSignature } from "./ai/embedder";
 import { AskView, ASK_VIEW_TYPE } from "./rag/ask-view";
 import { HomeView, HOME_VIEW_TYPE } from "./ui/home-view";
 import { ProgressModal } from "./ui/progress-modal";
+import { BudgetConfirmModal } from "./ui/budget-confirm-modal";
 import {
     ProgressController,
     setProgressController,
@@ -17,11 +23,12 @@ import {
 import { CourseSelectModal, type CourseSelection } from "./ui/course-select-modal";
 import { OutlineOptionsModal } from "./ui/outline-options-modal";
 import { TocReorderModal } from "./ui/toc-reorder-modal";
-import { loadPipelineState } from "./pipeline/state-persistence";
+import { listCoursesWithState, loadPipelineState } from "./pipeline/state-persistence";
 import { generateToc, generateOutlineFromToc } from "./generators/outline-builder";
 import type { OutlineOptions, Toc } from "./ai/outline";
 import { withPreservedNotes } from "./utils/user-notes";
-import type { AskMode, ChatTurn } from "./rag/rag-core";
+import { ensureFolderExists } from "./utils/vault-helpers";
+import type { AskMode, ChatTurn, RetrievalFilter } from "./rag/rag-core";
 import {
     answerQuestion,
     buildIndex,
@@ -51,6 +58,8 @@ export default class LawNoteRestructurerPlugin extends Plugin {
         // Shared progress controller drives the status bar; the modal + Home card
         // also observe it so tasks stay visible when the pop-up is minimized.
         setProgressController(this.progress);
+        // Model-call fixtures (record / replay) are read and written in this vault.
+        setFixtureVault(this.app.vault);
         this.statusBarEl = this.addStatusBarItem();
         this.statusBarEl.addClass("lnr-statusbar");
         this.statusBarEl.addEventListener("click", () => void this.openHomePanel());
@@ -115,6 +124,12 @@ export default class LawNoteRestructurerPlugin extends Plugin {
             name: "Rebuild Notes Index (重建笔记索引)",
             callback: () => this.rebuildIndex(),
         });
+
+        this.addCommand({
+            id: "open-usage-report",
+            name: "Usage Report (用量报告)",
+            callback: () => void this.openUsageReport(),
+        });
     }
 
     // ── Public actions (shared by commands, the ribbon, and the Home panel) ──
@@ -159,60 +174,94 @@ export default class LawNoteRestructurerPlugin extends Plugin {
         const options = await this.promptOutlineOptions();
         if (!options) return;
 
-        const client = createLLMClient(this.settings);
+        const budget = this.courseRunBudget(course.courseName);
+        const ledger = UsageLedger.at(this.app.vault, this.settings.outputFolder, course.courseName);
+        const client = createLLMClient(
+            settingsForStep(this.settings, "outline"),
+            undefined,
+            budget,
+            ledger.recorder("outline")
+        );
 
-        // TOC generation — shown in a minimizable progress pop-up (and the side panel).
-        const tocProgress = new ProgressModal(this.app);
-        tocProgress.open();
-        tocProgress.setStep("Proposing a table of contents… (生成目录中)");
-        tocProgress.setIndeterminate();
-        tocProgress.onCancelClick(() => client.abort());
-        let toc: Toc;
         try {
-            toc = await generateToc(client, state.entities, options, this.settings.language);
-            tocProgress.close();
-        } catch (error) {
-            tocProgress.addError(error instanceof Error ? error.message : String(error));
-            tocProgress.showStopped("TOC generation failed (目录生成失败)");
-            return;
-        }
+            // TOC generation — shown in a minimizable progress pop-up (and the side panel).
+            const tocProgress = new ProgressModal(this.app);
+            tocProgress.open();
+            tocProgress.setStep("Proposing a table of contents… (生成目录中)");
+            tocProgress.setIndeterminate();
+            tocProgress.onCancelClick(() => client.abort());
+            let toc: Toc;
+            try {
+                toc = await generateToc(client, state.entities, options, this.settings.language);
+                tocProgress.close();
+            } catch (error) {
+                tocProgress.addError(error instanceof Error ? error.message : String(error));
+                tocProgress.showStopped("TOC generation failed (目录生成失败)");
+                return;
+            } finally {
+                await ledger.flush();
+            }
 
-        const finalToc = await this.promptTocReorder(toc);
-        if (!finalToc) return;
+            const finalToc = await this.promptTocReorder(toc);
+            if (!finalToc) return;
 
-        const outProgress = new ProgressModal(this.app);
-        outProgress.open();
-        outProgress.setStep("Generating outline… (生成大纲中)");
-        outProgress.setIndeterminate();
-        outProgress.onCancelClick(() => client.abort());
-        let markdown: string;
-        try {
-            markdown = await generateOutlineFromToc(
-                client,
-                state.entities,
-                finalToc,
-                options,
-                this.settings.language
-            );
-            outProgress.close();
-        } catch (error) {
-            outProgress.addError(error instanceof Error ? error.message : String(error));
-            outProgress.showStopped("Outline generation failed (大纲生成失败)");
-            return;
-        }
+            const outProgress = new ProgressModal(this.app);
+            outProgress.open();
+            outProgress.setStep("Generating outline… (生成大纲中)");
+            outProgress.setIndeterminate();
+            outProgress.onCancelClick(() => client.abort());
+            let markdown: string;
+            try {
+                markdown = await generateOutlineFromToc(
+                    client,
+                    state.entities,
+                    finalToc,
+                    options,
+                    this.settings.language
+                );
+                outProgress.close();
+            } catch (error) {
+                outProgress.addError(error instanceof Error ? error.message : String(error));
+                outProgress.showStopped("Outline generation failed (大纲生成失败)");
+                return;
+            } finally {
+                await ledger.flush();
+            }
 
-        const path = `${folder}/Outline.md`;
-        const existing = this.app.vault.getAbstractFileByPath(path);
-        let file: TFile;
-        if (existing instanceof TFile) {
-            const old = await this.app.vault.read(existing);
-            await this.app.vault.modify(existing, withPreservedNotes(old, markdown));
-            file = existing;
-        } else {
-            file = await this.app.vault.create(path, withPreservedNotes("", markdown));
+            const path = `${folder}/Outline.md`;
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            let file: TFile;
+            if (existing instanceof TFile) {
+                const old = await this.app.vault.read(existing);
+                await this.app.vault.modify(existing, withPreservedNotes(old, markdown));
+                file = existing;
+            } else {
+                file = await this.app.vault.create(path, withPreservedNotes("", markdown));
+            }
+            await this.app.workspace.getLeaf().openFile(file);
+            new Notice("Outline ready. (大纲已生成)");
+        } finally {
+            await this.recordRunSpend(course.courseName, budget);
         }
-        await this.app.workspace.getLeaf().openFile(file);
-        new Notice("Outline ready. (大纲已生成)");
+    }
+
+    /** Budget for one command's model calls: the run limit, capped by what is left of the course's month. */
+    private courseRunBudget(course: string): RunBudget {
+        return new RunBudget(
+            runLimitUSD(this.settings, course),
+            (spentUSD, projectedUSD, limitUSD) =>
+                new Promise((resolve) =>
+                    new BudgetConfirmModal(this.app, { course, spentUSD, projectedUSD, limitUSD }, resolve).open()
+                )
+        );
+    }
+
+    /** Add what `budget` metered to the course's monthly spend. */
+    private async recordRunSpend(course: string, budget: RunBudget): Promise<void> {
+        const spent = budget.spentUSD;
+        if (spent <= 0) return;
+        this.settings.courseSpend = recordCourseSpend(this.settings, course, spent);
+        await this.saveSettings();
     }
 
     private promptCourse(): Promise<CourseSelection | null> {
@@ -250,6 +299,24 @@ export default class LawNoteRestructurerPlugin extends Plugin {
         return this.settings.ragScopeFolder || this.settings.outputFolder;
     }
 
+    /** Course the Ask My Notes scope belongs to, for the usage ledger ("" = not a single course). */
+    private get askCourse(): string {
+        const root = `${this.settings.outputFolder}/`;
+        const scope = this.settings.ragScopeFolder;
+        return scope.startsWith(root) ? scope.slice(root.length).split("/")[0] : "";
+    }
+
+    /** Names the course of a note path: its top folder under the output folder, when that holds a course database. */
+    private noteCourses(): (path: string) => string {
+        const root = `${this.settings.outputFolder}/`;
+        const courses = new Set(listCoursesWithState(this.app.vault, this.settings.outputFolder).filter(Boolean));
+        return (path) => {
+            if (!path.startsWith(root)) return "";
+            const top = path.slice(root.length).split("/")[0];
+            return courses.has(top) ? top : "";
+        };
+    }
+
     /** Drop the cached index (e.g. after the folder scope changes). */
     resetIndexCache(): void {
         this.ragIndex = null;
@@ -279,18 +346,36 @@ export default class LawNoteRestructurerPlugin extends Plugin {
 
     /**
      * Answer a question against the notes. The index is refreshed incrementally
-     * (unchanged files keep their embeddings), scoped to the chosen folder, and
-     * the answer is appended to the conversation history.
+     * (unchanged files keep their embeddings), scoped to the chosen folder;
+     * retrieval is narrowed by `filter`, and the answer is appended to the
+     * conversation history.
      */
     async askQuestion(
         question: string,
         mode: AskMode = "qa",
-        onChunk?: (text: string, accumulated: string) => void
+        onChunk?: (text: string, accumulated: string) => void,
+        filter: RetrievalFilter = {}
     ): Promise<ChatTurn> {
         if (this.missingGeminiKey()) {
             throw new Error("Set your Gemini API key in Settings first.");
         }
-        const client = createLLMClient(this.settings);
+        const course = this.askCourse;
+        const budget = this.courseRunBudget(course);
+        const ledger = UsageLedger.at(this.app.vault, this.settings.outputFolder, course);
+        const client = createLLMClient(
+            settingsForStep(this.settings, "ask"),
+            undefined,
+            budget,
+            ledger.recorder("ask")
+        );
+        const reranker = this.settings.askRerank
+            ? createLLMClient(
+                  settingsForStep(this.settings, "rerank"),
+                  undefined,
+                  budget,
+                  ledger.recorder("rerank")
+              )
+            : undefined;
         const embedder = createEmbedder(this.settings);
         const signature = embedderSignature(this.settings);
 
@@ -299,34 +384,53 @@ export default class LawNoteRestructurerPlugin extends Plugin {
         }
         // Incremental build scoped to the chosen folder: reuses matching files'
         // embeddings, embeds only new/changed ones, drops out-of-scope files.
-        this.ragIndex = await buildIndex(
+        // The same index back means nothing changed, and there is nothing to save.
+        const index = await buildIndex(
             this.app.vault,
             embedder,
             this.ragScopePrefix,
             signature,
-            this.ragIndex ?? undefined
+            this.ragIndex ?? undefined,
+            undefined,
+            this.noteCourses()
         );
-        await saveIndex(this.app.vault, this.ragIndexPath, this.ragIndex);
+        if (index !== this.ragIndex) {
+            this.ragIndex = index;
+            await saveIndex(this.app.vault, this.ragIndexPath, index, this.settings.ragVectorEncoding);
+        }
 
-        const { answer, sources } = await answerQuestion(
-            client,
-            embedder,
-            this.ragIndex,
-            question,
-            this.chatHistory,
-            mode,
-            6,
-            onChunk,
-            this.settings.askLength
-        );
-        const turn: ChatTurn = { question, answer, sources };
+        let turn: ChatTurn;
+        try {
+            const { answer, sources } = await answerQuestion(
+                client,
+                embedder,
+                this.ragIndex,
+                question,
+                this.chatHistory,
+                mode,
+                6,
+                onChunk,
+                this.settings.askLength,
+                this.settings.lexicalWeight,
+                filter,
+                reranker
+            );
+            turn = { question, answer, sources };
+        } finally {
+            await ledger.flush();
+            await this.recordRunSpend(course, budget);
+        }
         this.chatHistory.push(turn);
         return turn;
     }
 
     private async rebuildNotesIndex(): Promise<void> {
         // Rebuild only embeds, so the Gemini key is required only for that provider.
-        if (this.settings.embeddingProvider === "gemini" && !this.settings.geminiApiKey) {
+        if (
+            this.settings.embeddingProvider === "gemini" &&
+            !this.settings.geminiApiKey &&
+            this.settings.fixtureMode !== "replay"
+        ) {
             new Notice("Please set your Gemini API key in Settings first.");
             return;
         }
@@ -339,9 +443,11 @@ export default class LawNoteRestructurerPlugin extends Plugin {
                 embedder,
                 this.ragScopePrefix,
                 embedderSignature(this.settings),
-                null
+                null,
+                undefined,
+                this.noteCourses()
             );
-            await saveIndex(this.app.vault, this.ragIndexPath, this.ragIndex);
+            await saveIndex(this.app.vault, this.ragIndexPath, this.ragIndex, this.settings.ragVectorEncoding);
             new Notice("Notes index rebuilt. (索引已重建)");
         } catch (error) {
             const msg = error instanceof Error ? error.message : String(error);
@@ -349,10 +455,34 @@ export default class LawNoteRestructurerPlugin extends Plugin {
         }
     }
 
-    openNoteByTitle(title: string): void {
+    /** Render the usage ledger into `Usage.md` at the root of the output folder and open it. */
+    async openUsageReport(): Promise<void> {
+        const folder = this.settings.outputFolder;
+        await ensureFolderExists(this.app.vault, folder);
+        const content = generateUsageReport(
+            await UsageLedger.read(this.app.vault, folder),
+            this.settings.modelCatalog
+        );
+        const path = `${folder}/Usage.md`;
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        let file: TFile;
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            file = existing;
+        } else {
+            file = await this.app.vault.create(path, content);
+        }
+        await this.app.workspace.getLeaf().openFile(file);
+    }
+
+    /** Open a note by its title, scrolled to the heading or block a "Title#Heading" / "Title#^id" link names. */
+    openNoteByTitle(link: string): void {
+        const hash = link.indexOf("#");
+        const title = hash < 0 ? link : link.slice(0, hash);
         const file = this.app.vault.getMarkdownFiles().find((f) => f.basename === title);
         if (file instanceof TFile) {
-            void this.app.workspace.getLeaf().openFile(file);
+            const eState = hash < 0 ? undefined : { subpath: link.slice(hash) };
+            void this.app.workspace.getLeaf().openFile(file, { eState });
         } else {
             new Notice(`Note not found: ${title}`);
         }
@@ -361,13 +491,12 @@ export default class LawNoteRestructurerPlugin extends Plugin {
     /**
      * True when a Gemini key is required but missing. The key is only needed for
      * providers that actually call Gemini — a fully-local setup (Ollama for both
-     * generation and embeddings) needs no key at all.
+     * generation and embeddings) needs no key at all, and neither does replaying
+     * fixtures: nothing is sent to a model.
      */
     private missingGeminiKey(): boolean {
-        const usesGemini =
-            this.settings.generationProvider === "gemini" ||
-            this.settings.embeddingProvider === "gemini";
-        return usesGemini && !this.settings.geminiApiKey;
+        if (this.settings.fixtureMode === "replay") return false;
+        return usesProvider(this.settings, "gemini") && !this.settings.geminiApiKey;
     }
 
     private startPipeline(stopAfter?: string): void {
@@ -469,13 +598,19 @@ export default class LawNoteRestructurerPlugin extends Plugin {
             const ms = autoUpdateIntervalMs(interval);
             if (ms <= 0) continue;
             if (now - (this.autoUpdateLastRun[course] ?? 0) < ms) continue;
+            // A course that used up this month's budget waits for next month (or a raised limit).
+            if (courseBudgetExhausted(this.settings, course)) continue;
 
             this.autoUpdateLastRun[course] = now;
             // Force auto-accept so the background run never blocks on a review modal.
             const settings = { ...this.settings, autoAcceptReview: true };
-            const orchestrator = new PipelineOrchestrator(this.app, settings, () =>
-                this.saveSettings()
-            );
+            const orchestrator = new PipelineOrchestrator(this.app, settings, () => {
+                // The run meters spend on its copy of the settings; keep the totals.
+                this.settings.lifetimeTokensUsed = settings.lifetimeTokensUsed;
+                this.settings.lifetimeTokensByProvider = settings.lifetimeTokensByProvider;
+                this.settings.courseSpend = settings.courseSpend;
+                return this.saveSettings();
+            });
             try {
                 await orchestrator.incrementalForCourse(course, { silent: true });
             } catch (error) {
@@ -488,6 +623,7 @@ export default class LawNoteRestructurerPlugin extends Plugin {
     onunload(): void {
         this.pipeline?.abort();
         setProgressController(null);
+        setFixtureVault(null);
         if (this.autoUpdateTimer !== null) window.clearInterval(this.autoUpdateTimer);
     }
 }
@@ -0,0 +1,243 @@
+/**
+ * Convert the HTML that mammoth emits for a .docx into markdown, keeping the
+ * structure professors use to signal rule statements: headings, bold terms,
+ * (nested) lists, tables and footnotes (as `[^n]` references + definitions).
+ *
+ * mammoth's output is a small, well-formed tag set, so a minimal tokenizer is
+ * enough — no DOM is needed, which keeps this usable (and testable) outside
+ * Obsidian.
+ */
+
+interface HtmlElement {
+    tag: string;
+    attrs: Record<string, string>;
+    children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(["br", "img", "hr"]);
+const TAG_RE = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*?)(\/?)>|([^<]+)/g;
+const ATTR_RE = /([a-zA-Z-]+)="([^"]*)"/g;
+
+const ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x?[0-9a-fA-F]+|[a-z]+);/g, (match, code: string) => {
+        if (code.startsWith("#x")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+        if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+        return ENTITIES[code] ?? match;
+    });
+}
+
+function parseHtml(html: string): HtmlNode[] {
+    const root: HtmlElement = { tag: "root", attrs: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+
+    TAG_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = TAG_RE.exec(html)) !== null) {
+        const parent = stack[stack.length - 1];
+        if (m[5] !== undefined) {
+            parent.children.push(decodeEntities(m[5]));
+            continue;
+        }
+        const [, closing, rawTag, rawAttrs, selfClosing] = m;
+        const tag = rawTag.toLowerCase();
+        if (closing) {
+            // Pop back to the matching open tag; ignore stray closers.
+            const at = stack.map((e) => e.tag).lastIndexOf(tag);
+            if (at > 0) stack.length = at;
+            continue;
+        }
+        const attrs: Record<string, string> = {};
+        ATTR_RE.lastIndex = 0;
+        let a: RegExpExecArray | null;
+        while ((a = ATTR_RE.exec(rawAttrs)) !== null) attrs[a[1]] = decodeEntities(a[2]);
+        const el: HtmlElement = { tag, attrs, children: [] };
+        parent.children.push(el);
+        if (!selfClosing && !VOID_TAGS.has(tag)) stack.push(el);
+    }
+    return root.children;
+}
+
+/** `footnote-3` → `3`, `endnote-3` → `e3`; null for anything else. */
+function noteLabel(id: string | undefined): string | null {
+    const m = id?.match(/^(footnote|endnote)-(\d+)$/);
+    if (!m) return null;
+    return m[1] === "endnote" ? `e${m[2]}` : m[2];
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+    return typeof node !== "string";
+}
+
+function wrap(marker: string, inner: string): string {
+    const trimmed = inner.trim();
+    if (!trimmed) return inner;
+    // Keep surrounding spaces outside the markers so `** x**` never appears.
+    const lead = inner.match(/^\s*/)?.[0] ?? "";
+    const trail = inner.match(/\s*$/)?.[0] ?? "";
+    return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+    let out = "";
+    for (const node of nodes) {
+        if (!isElement(node)) {
+            out += node.replace(/\s+/g, " ");
+            continue;
+        }
+        switch (node.tag) {
+            case "strong":
+            case "b":
+                out += wrap("**", renderInline(node.children));
+                break;
+            case "em":
+            case "i":
+                out += wrap("*", renderInline(node.children));
+                break;
+            case "br":
+                out += "\n";
+                break;
+            case "img":
+                break;
+            case "a": {
+                const href = node.attrs.href ?? "";
+                const label = noteLabel(href.replace(/^#/, ""));
+                if (label) out += `[^${label}]`;
+                else if (/^#(footnote|endnote)-ref-/.test(href)) out += ""; // back-link arrow
+                else if (/^https?:/.test(href)) out += `[${renderInline(node.children).trim()}](${href})`;
+                else out += renderInline(node.children);
+                break;
+            }
+            case "sup": {
+                // Footnote references arrive as <sup><a href="#footnote-1">[1]</a></sup>.
+                const inner = renderInline(node.children);
+                out += /^\[\^e?\d+\]$/.test(inner) ? inner : `<sup>${inner}</sup>`;
+                break;
+            }
+            default:
+                out += renderInline(node.children);
+        }
+    }
+    return out;
+}
+
+function renderList(list: HtmlElement, depth: number): string[] {
+    const lines: string[] = [];
+    const ordered = list.tag === "ol";
+    let n = 0;
+    for (const item of list.children) {
+        if (!isElement(item) || item.tag !== "li") continue;
+        n++;
+        const text = renderInline(item.children.filter((c) => !isElement(c) || !isListTag(c.tag)))
+            .replace(/\s*\n\s*/g, " ")
+            .trim();
+        lines.push(`${"    ".repeat(depth)}${ordered ? `${n}.` : "-"} ${text}`);
+        for (const child of item.children) {
+            if (isElement(child) && isListTag(child.tag)) lines.push(...renderList(child, depth + 1));
+        }
+    }
+    return lines;
+}
+
+function isListTag(tag: string): boolean {
+    return tag === "ul" || tag === "ol";
+}
+
+/** Footnote/endnote bodies: `<ol><li id="footnote-1">…</li></ol>`. */
+function isNoteList(list: HtmlElement): boolean {
+    const items = list.children.filter(isElement);
+    return items.length > 0 && items.every((li) => li.tag === "li" && noteLabel(li.attrs.id) !== null);
+}
+
+function renderNoteList(list: HtmlElement): string {
+    return list.children
+        .filter(isElement)
+        .map((li) => `[^${noteLabel(li.attrs.id)}]: ${renderInline(li.children).trim()}`)
+        .join("\n");
+}
+
+function collectRows(node: HtmlElement): HtmlElement[] {
+    const rows: HtmlElement[] = [];
+    for (const child of node.children) {
+        if (!isElement(child)) continue;
+        if (child.tag === "tr") rows.push(child);
+        else if (child.tag !== "table") rows.push(...collectRows(child)); // thead/tbody, not nested tables
+    }
+    return rows;
+}
+
+function renderTable(table: HtmlElement): string {
+    const rows = collectRows(table).map((tr) =>
+        tr.children
+            .filter((c): c is HtmlElement => isElement(c) && (c.tag === "td" || c.tag === "th"))
+            .map((cell) =>
+                cell.children
+                    .map((c) => (isElement(c) && c.tag === "p" ? renderInline(c.children) : renderInline([c])))
+                    .map((s) => s.trim())
+                    .filter(Boolean)
+                    .join(" ")
+                    .replace(/\s*\n\s*/g, " ")
+                    .replace(/\|/g, "\\|")
+            )
+    );
+    if (rows.length === 0) return "";
+    const width = Math.max(...rows.map((r) => r.length));
+    const line = (cells: string[]): string =>
+        `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+    return [line(rows[0]), line(new Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+function renderBlocks(nodes: HtmlNode[]): string[] {
+    const blocks: string[] = [];
+    let inline: HtmlNode[] = [];
+    const flushInline = (): void => {
+        const text = renderInline(inline).trim();
+        if (text) blocks.push(text);
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (!isElement(node)) {
+            inline.push(node);
+            continue;
+        }
+        const heading = node.tag.match(/^h([1-6])$/);
+        if (heading) {
+            flushInline();
+            const text = renderInline(node.children).replace(/\s*\n\s*/g, " ").trim();
+            if (text) blocks.push(`${"#".repeat(Number(heading[1]))} ${text}`);
+        } else if (node.tag === "p") {
+            flushInline();
+            const text = renderInline(node.children).trim();
+            if (text) blocks.push(text);
+        } else if (isListTag(node.tag)) {
+            flushInline();
+            blocks.push(isNoteList(node) ? renderNoteList(node) : renderList(node, 0).join("\n"));
+        } else if (node.tag === "table") {
+            flushInline();
+            const table = renderTable(node);
+            if (table) blocks.push(table);
+        } else if (node.tag === "blockquote" || node.tag === "div") {
+            flushInline();
+            blocks.push(...renderBlocks(node.children));
+        } else {
+            inline.push(node);
+        }
+    }
+    flushInline();
+    return blocks.filter(Boolean);
+}
+
+export function docxHtmlToMarkdown(html: string): string {
+    return renderBlocks(parseHtml(html)).join("\n\n");
+}
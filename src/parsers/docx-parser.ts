@@ -1,15 +1,24 @@
 import { App, TFile } from "obsidian";
 import mammoth from "mammoth";
 import { estimateTokens, type SourceDocument } from "../types";
+import { docxHtmlToMarkdown } from "./docx-markdown";
 
+/** Images carry no text for extraction; drop them instead of inlining base64. */
+const dropImages = mammoth.images.imgElement(async () => ({ src: "" }));
+
+/**
+ * Parse a .docx into structured markdown (headings, lists, tables, footnotes)
+ * so extraction can cite sections and long files can be split on headings.
+ */
 export async function parseDocxFile(
     app: App,
     file: TFile
 ): Promise<SourceDocument> {
     const arrayBuffer = await app.vault.readBinary(file);
-    const result = await mammoth.extractRawText({ arrayBuffer });
+    const result = await mammoth.convertToHtml({ arrayBuffer }, { convertImage: dropImages });
+    const rawText = docxHtmlToMarkdown(result.value);
 
-    if (result.value.trim().length === 0) {
+    if (rawText.trim().length === 0) {
         throw new Error(
             `"${file.name}" appears to be empty or contains only images/non-text content.`
         );
@@ -19,7 +28,6 @@ export async function parseDocxFile(
         console.warn(`[mammoth] ${file.name}: ${msg.type}: ${msg.message}`);
     }
 
-    const rawText = result.value;
     return {
         path: file.path,
         filename: file.name,
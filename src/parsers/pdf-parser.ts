@@ -0,0 +1,72 @@
+import { App, TFile, loadPdfJs } from "obsidian";
+import { estimateTokens, type SourceDocument } from "../types";
+
+/** The slice of a pdf.js text-content item we read. */
+export interface PdfTextItem {
+    str?: string;
+    hasEOL?: boolean;
+    transform?: number[];
+}
+
+/**
+ * Extract the text layer of a PDF via Obsidian's bundled pdf.js. Each page is
+ * prefixed with a `[Page N]` marker so extracted entities can cite pages.
+ * Scanned PDFs without a text layer yield no text and are rejected.
+ */
+export async function parsePdfFile(
+    app: App,
+    file: TFile
+): Promise<SourceDocument> {
+    const pdfjs = await loadPdfJs();
+    const data = new Uint8Array(await app.vault.readBinary(file));
+    const pdf = await pdfjs.getDocument({ data }).promise;
+
+    const pages: string[] = [];
+    try {
+        for (let n = 1; n <= pdf.numPages; n++) {
+            const page = await pdf.getPage(n);
+            const content = await page.getTextContent();
+            pages.push(textItemsToLines(content.items as PdfTextItem[]));
+        }
+    } finally {
+        await pdf.destroy();
+    }
+
+    if (pages.every((p) => p.trim().length === 0)) {
+        throw new Error(
+            `"${file.name}" has no text layer (scanned images?). Run OCR on it first.`
+        );
+    }
+
+    const rawText = pages
+        .map((text, i) => `[Page ${i + 1}]\n${text.trim()}`)
+        .join("\n\n");
+    return {
+        path: file.path,
+        filename: file.name,
+        type: "pdf",
+        rawText,
+        charCount: rawText.length,
+        tokenEstimate: estimateTokens(rawText),
+    };
+}
+
+/**
+ * Join a page's text items into lines. pdf.js marks explicit line ends with
+ * `hasEOL`; a change in baseline (transform[5]) also starts a new line.
+ */
+export function textItemsToLines(items: PdfTextItem[]): string {
+    let out = "";
+    let lastY: number | null = null;
+    for (const item of items) {
+        if (item.str === undefined) continue; // marked-content entries carry no text
+        const y = item.transform?.[5] ?? null;
+        if (lastY !== null && y !== null && Math.abs(y - lastY) > 1 && !out.endsWith("\n")) {
+            out += "\n";
+        }
+        out += item.str;
+        if (item.hasEOL) out += "\n";
+        lastY = y;
+    }
+    return out.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n");
+}
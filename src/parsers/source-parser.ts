@@ -0,0 +1,34 @@
+import { App, TFile } from "obsidian";
+import type { SourceDocument } from "../types";
+import { parseMarkdownFile } from "./markdown-parser";
+import { parseDocxFile } from "./docx-parser";
+import { parsePdfFile } from "./pdf-parser";
+import { parseTranscriptFile } from "./transcript-parser";
+
+/** File extensions the pipeline can ingest as source notes. */
+export const SOURCE_EXTENSIONS = ["md", "docx", "pdf", "srt", "vtt", "txt"] as const;
+
+export function isSourceExtension(extension: string): boolean {
+    return (SOURCE_EXTENSIONS as readonly string[]).includes(extension);
+}
+
+/** Parse any supported source file; `null` for an unsupported extension. */
+export async function parseSourceFile(
+    app: App,
+    file: TFile
+): Promise<SourceDocument | null> {
+    switch (file.extension) {
+        case "md":
+            return parseMarkdownFile(app, file);
+        case "docx":
+            return parseDocxFile(app, file);
+        case "pdf":
+            return parsePdfFile(app, file);
+        case "srt":
+        case "vtt":
+        case "txt":
+            return parseTranscriptFile(app, file);
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,151 @@
+import type { App, TFile } from "obsidian";
+import { estimateTokens, type SourceDocument } from "../types";
+
+/**
+ * Lecture transcripts (.srt / .vtt captions, or a plain .txt transcript).
+ * Cues are merged into speaker turns, each anchored with a `[HH:MM:SS]`
+ * timestamp, so extraction can cite *when* something was discussed.
+ */
+
+export const TRANSCRIPT_EXTENSIONS = ["srt", "vtt", "txt"] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_EXTENSIONS)[number];
+
+export interface TranscriptCue {
+    /** Start time in seconds; null when a plain transcript line has no timestamp. */
+    start: number | null;
+    speaker?: string;
+    text: string;
+}
+
+const CUE_TIMING_RE =
+    /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+/** `[00:41:10]`, `(41:10)` or a bare `00:41:10` at the start of a plain-transcript line. */
+const LINE_TIMESTAMP_RE = /^\s*[[(]?((?:\d+:)?\d{1,2}:\d{2})(?:[.,]\d+)?[\])]?\s*[-–—]?\s*/;
+/** `Prof. Smith: text`, `[Student] text`, `>> PROFESSOR: text`. */
+const SPEAKER_RE =
+    /^(?:>>\s*)?(?:\[([^\]]{1,40})\]|([A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,3}|[\u4e00-\u9fff]{1,6})[:：])\s*/;
+
+/** Parse `HH:MM:SS(.mmm)` or `MM:SS(.mmm)` into seconds. */
+export function parseTimestamp(raw: string): number {
+    const parts = raw.replace(",", ".").split(":").map(Number);
+    return parts.reduce((acc, p) => acc * 60 + p, 0);
+}
+
+/** Seconds → `HH:MM:SS`. */
+export function formatTimestamp(seconds: number): string {
+    const s = Math.floor(seconds);
+    const pad = (n: number): string => String(n).padStart(2, "0");
+    return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`;
+}
+
+function splitSpeaker(text: string): { speaker?: string; text: string } {
+    const m = text.match(SPEAKER_RE);
+    if (!m) return { text };
+    return { speaker: (m[1] ?? m[2]).trim(), text: text.slice(m[0].length) };
+}
+
+/** Strip VTT markup, turning `<v Speaker>` voice tags into a speaker label. */
+function cleanVttText(text: string): { speaker?: string; text: string } {
+    const voice = text.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+    const stripped = text.replace(/<[^>]+>/g, "").replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">");
+    if (voice) return { speaker: voice[1].trim(), text: stripped };
+    return splitSpeaker(stripped);
+}
+
+function parseCaptionBlocks(text: string, format: "srt" | "vtt"): TranscriptCue[] {
+    const cues: TranscriptCue[] = [];
+    const blocks = text.replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+    for (const block of blocks) {
+        const lines = block.split("\n");
+        const timingIdx = lines.findIndex((l) => CUE_TIMING_RE.test(l));
+        if (timingIdx === -1) continue; // WEBVTT header, NOTE/STYLE blocks, stray text
+        const body = lines
+            .slice(timingIdx + 1)
+            .map((l) => l.trim())
+            .filter(Boolean)
+            .join(" ");
+        if (!body) continue;
+        const start = parseTimestamp(lines[timingIdx].match(CUE_TIMING_RE)![1]);
+        const { speaker, text: cueText } = format === "vtt" ? cleanVttText(body) : splitSpeaker(body);
+        if (cueText.trim()) cues.push({ start, speaker, text: cueText.trim() });
+    }
+    return cues;
+}
+
+function parsePlainTranscript(text: string): TranscriptCue[] {
+    const cues: TranscriptCue[] = [];
+    for (const rawLine of text.replace(/\r\n?/g, "\n").split("\n")) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        const ts = line.match(LINE_TIMESTAMP_RE);
+        const rest = ts ? line.slice(ts[0].length) : line;
+        const { speaker, text: body } = splitSpeaker(rest);
+        const prev = cues[cues.length - 1];
+        if (!ts && !speaker && prev) {
+            prev.text = `${prev.text} ${body}`; // continuation of the previous turn
+            continue;
+        }
+        cues.push({ start: ts ? parseTimestamp(ts[1]) : null, speaker, text: body });
+    }
+    return cues;
+}
+
+/** Parse a transcript into cues, dropping the rolling duplicates auto-captions emit. */
+export function parseTranscript(text: string, format: TranscriptFormat): TranscriptCue[] {
+    const cues = format === "txt" ? parsePlainTranscript(text) : parseCaptionBlocks(text, format);
+    return cues.filter((c, i) => i === 0 || c.text !== cues[i - 1].text);
+}
+
+/** A long monologue still gets a fresh timestamp anchor at least this often. */
+const ANCHOR_INTERVAL_SECONDS = 60;
+
+/**
+ * Render cues as speaker turns: consecutive cues from the same speaker are
+ * merged under the first cue's timestamp, e.g. `[00:41:10] Prof. Lee: …`.
+ */
+export function formatTranscript(cues: TranscriptCue[]): string {
+    const turns: TranscriptCue[] = [];
+    for (const cue of cues) {
+        const last = turns[turns.length - 1];
+        const sameSpeaker = cue.speaker === undefined || cue.speaker === last?.speaker;
+        const withinAnchor =
+            last?.start == null || cue.start === null || cue.start - last.start < ANCHOR_INTERVAL_SECONDS;
+        if (last && sameSpeaker && withinAnchor) {
+            last.text = `${last.text} ${cue.text}`;
+        } else {
+            turns.push({ ...cue, speaker: cue.speaker ?? last?.speaker });
+        }
+    }
+    return turns
+        .map((t) => {
+            const anchor = t.start === null ? "" : `[${formatTimestamp(t.start)}] `;
+            const speaker = t.speaker ? `${t.speaker}: ` : "";
+            return `${anchor}${speaker}${t.text}`;
+        })
+        .join("\n\n");
+}
+
+export function isTranscriptExtension(extension: string): extension is TranscriptFormat {
+    return (TRANSCRIPT_EXTENSIONS as readonly string[]).includes(extension);
+}
+
+export async function parseTranscriptFile(
+    app: App,
+    file: TFile
+): Promise<SourceDocument> {
+    const format = isTranscriptExtension(file.extension) ? file.extension : "txt";
+    const rawText = formatTranscript(parseTranscript(await app.vault.read(file), format));
+
+    if (rawText.trim().length === 0) {
+        throw new Error(`"${file.name}" contains no transcript text.`);
+    }
+
+    return {
+        path: file.path,
+        filename: file.name,
+        type: "transcript",
+        rawText,
+        charCount: rawText.length,
+        tokenEstimate: estimateTokens(rawText),
+    };
+}
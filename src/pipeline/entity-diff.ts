@@ -24,8 +24,8 @@ export function diffIsEmpty(d: EntityDiff): boolean {
 
 /**
  * Concept names whose generated page must be re-created for this run: the
- * concepts that changed, plus any concept linked (in the matrix) to a case that
- * changed. On a first full run the diff lists every concept, so this returns
+ * concepts that changed, their parent concepts, plus any concept linked (in
+ * the matrix) to a case that changed. On a first full run the diff lists every concept, so this returns
  * all of them — letting step 4 always filter by this set safely.
  */
 export function affectedConceptNames(
@@ -35,6 +35,13 @@ export function affectedConceptNames(
 ): Set<string> {
     const names = new Set<string>([...diff.addedConcepts, ...diff.updatedConcepts]);
 
+    // A parent's "Sub-doctrines" section lists its children's names and definitions.
+    const conceptById = new Map(entities.concepts.map((c) => [c.id, c]));
+    for (const c of entities.concepts) {
+        const parent = c.parentId ? conceptById.get(c.parentId) : undefined;
+        if (parent && names.has(c.name)) names.add(parent.name);
+    }
+
     const changedCaseNames = new Set([...diff.addedCases, ...diff.updatedCases]);
     if (changedCaseNames.size > 0) {
         const caseIdByName = new Map(entities.cases.map((c) => [c.name, c.id]));
@@ -52,6 +59,29 @@ export function affectedConceptNames(
     return names;
 }
 
+/**
+ * Mark as updated every surviving concept that the previous matrix linked to a
+ * case no longer in `entities` (its source note was deleted), so its page is
+ * regenerated without the stale case link.
+ */
+export function markConceptsWithRemovedCases(
+    diff: EntityDiff,
+    previousMatrix: RelationshipMatrix,
+    entities: ExtractedEntities
+): void {
+    const caseIds = new Set(entities.cases.map((c) => c.id));
+    const conceptNameById = new Map(entities.concepts.map((c) => [c.id, c.name]));
+    const listed = new Set([...diff.addedConcepts, ...diff.updatedConcepts]);
+    for (const e of previousMatrix.entries) {
+        if (caseIds.has(e.caseId)) continue;
+        const name = conceptNameById.get(e.conceptId);
+        if (name && !listed.has(name)) {
+            diff.updatedConcepts.push(name);
+            listed.add(name);
+        }
+    }
+}
+
 type EntityLists = Pick<ExtractedEntities, "concepts" | "cases">;
 
 /**
@@ -1,13 +1,17 @@
 import type {
+    EntityEvidence,
     ExtractedEntities,
     LegalCase,
     LegalConcept,
     LegalPrinciple,
     LegalRule,
+    LegalStatute,
 } from "../types";
 import { normalizeConceptName } from "../types";
 import type { LLMClient } from "../ai/llm-provider";
 import { cosineSimilarity } from "../utils/similarity";
+import { getBaseSection, normalizeCitation } from "../utils/citation-normalizer";
+import { sanitizeConceptParents } from "../utils/concept-hierarchy";
 
 // ============================================================
 // Similarity helpers
@@ -31,6 +35,55 @@ function unionArrays(a: string[], b: string[]): string[] {
     return [...new Set([...a, ...b])];
 }
 
+/**
+ * Union two entities' quotes and located evidence. The merged entity is only
+ * unverified if neither side has located evidence and one side was flagged.
+ */
+export function mergeEvidence(a: EntityEvidence, b: EntityEvidence): EntityEvidence {
+    const evidence = [...(a.evidence ?? [])];
+    for (const loc of b.evidence ?? []) {
+        if (!evidence.some((e) => e.file === loc.file && e.offset === loc.offset)) evidence.push(loc);
+    }
+    return {
+        quotes: unionArrays(a.quotes ?? [], b.quotes ?? []),
+        evidence,
+        unverified: evidence.length === 0 && (a.unverified || b.unverified) ? true : undefined,
+    };
+}
+
+/**
+ * Statutes are matched by provision, not by name: "IRC § 721(b)" and
+ * "I.R.C. §721" are the same section. Name similarity would be wrong here —
+ * "IRC § 721" is a substring of "IRC § 7211".
+ */
+export function statuteKey(citation: string): string {
+    return getBaseSection(normalizeCitation(citation));
+}
+
+function sameStatute(a: LegalStatute, b: LegalStatute): boolean {
+    return statuteKey(a.citation) === statuteKey(b.citation);
+}
+
+/** Fold `other` into `keep` (fields filled, lists unioned, shorter citation kept). */
+function combineStatutes(keep: LegalStatute, other: LegalStatute): LegalStatute {
+    const a = normalizeCitation(keep.citation);
+    const b = normalizeCitation(other.citation);
+    return {
+        ...keep,
+        citation: b.length < a.length ? b : a,
+        title: keep.title || other.title,
+        jurisdiction: keep.jurisdiction || other.jurisdiction,
+        textSummary: keep.textSummary.length >= other.textSummary.length
+            ? keep.textSummary
+            : other.textSummary,
+        elements: unionArrays(keep.elements, other.elements),
+        relatedConcepts: unionArrays(keep.relatedConcepts, other.relatedConcepts),
+        relatedCases: unionArrays(keep.relatedCases, other.relatedCases),
+        sourceReferences: unionArrays(keep.sourceReferences, other.sourceReferences),
+        ...mergeEvidence(keep, other),
+    };
+}
+
 // ============================================================
 // Merge entities (for incremental updates)
 // ============================================================
@@ -49,19 +102,33 @@ export function mergeEntities(
     const merged: ExtractedEntities = JSON.parse(JSON.stringify(existing));
 
     // Merge concepts
+    const conceptIds = new Map<string, string>(); // incoming id → merged id
+    const incomingParents: LegalConcept[] = [];
     for (const inc of incoming.concepts) {
         const match = merged.concepts.find((e) => areSimilar(e.name, inc.name));
         if (match) {
+            conceptIds.set(inc.id, match.id);
             match.definition = inc.definition;
             if (inc.nameChinese) match.nameChinese = inc.nameChinese;
+            if (inc.parentId) {
+                match.parentId = inc.parentId;
+                incomingParents.push(match);
+            }
             match.sourceReferences = unionArrays(
                 match.sourceReferences,
                 inc.sourceReferences
             );
+            Object.assign(match, mergeEvidence(match, inc));
         } else {
-            merged.concepts.push({ ...inc });
+            const added = { ...inc };
+            merged.concepts.push(added);
+            if (added.parentId) incomingParents.push(added);
         }
     }
+    // Incoming parent ids name concepts by their incoming ids
+    for (const c of incomingParents) {
+        c.parentId = conceptIds.get(c.parentId!) ?? c.parentId;
+    }
 
     // Merge cases
     for (const inc of incoming.cases) {
@@ -81,6 +148,7 @@ export function mergeEntities(
                 match.sourceReferences,
                 inc.sourceReferences
             );
+            Object.assign(match, mergeEvidence(match, inc));
         } else {
             merged.cases.push({ ...inc });
         }
@@ -106,6 +174,7 @@ export function mergeEntities(
                 match.sourceReferences,
                 inc.sourceReferences
             );
+            Object.assign(match, mergeEvidence(match, inc));
         } else {
             merged.principles.push({ ...inc });
         }
@@ -135,11 +204,26 @@ export function mergeEntities(
                 match.sourceReferences,
                 inc.sourceReferences
             );
+            Object.assign(match, mergeEvidence(match, inc));
         } else {
             merged.rules.push({ ...inc });
         }
     }
 
+    // Merge statutes (keyed by base section, newer summary wins)
+    const statutes = merged.statutes ?? [];
+    for (const inc of incoming.statutes ?? []) {
+        const idx = statutes.findIndex((e) => sameStatute(e, inc));
+        if (idx !== -1) {
+            const combined = combineStatutes(statutes[idx], inc);
+            if (inc.textSummary) combined.textSummary = inc.textSummary;
+            statutes[idx] = combined;
+        } else {
+            statutes.push({ ...inc });
+        }
+    }
+    merged.statutes = statutes;
+
     // Merge metadata
     merged.metadata.sourceDocuments = unionArrays(
         merged.metadata.sourceDocuments,
@@ -150,6 +234,146 @@ export function mergeEntities(
     return merged;
 }
 
+// ============================================================
+// Source removal (when a note is deleted)
+// ============================================================
+
+/** True when a source reference ("Week 3.docx › Offer", "Lecture 7.vtt @ 00:41:10") points into `filename`. */
+function refersTo(ref: string, filename: string): boolean {
+    if (!ref.startsWith(filename)) return false;
+    const rest = ref.slice(filename.length);
+    return rest === "" || /^\s*[›>@#,(]/.test(rest);
+}
+
+/**
+ * Remove deleted source files from the knowledge base. Their source
+ * references and located evidence are stripped; an entity whose every source
+ * reference pointed into a deleted file is dropped, along with references to
+ * it from other entities. Entities with no source references at all are kept —
+ * nothing ties them to the deleted notes. Returns a new entities object.
+ */
+export function removeSourceDocuments(
+    entities: ExtractedEntities,
+    filenames: string[]
+): ExtractedEntities {
+    const result: ExtractedEntities = JSON.parse(JSON.stringify(entities));
+    if (filenames.length === 0) return result;
+    const deleted = (ref: string) => filenames.some((f) => refersTo(ref, f));
+
+    const prune = <T extends { id: string; sourceReferences: string[] } & EntityEvidence>(
+        list: T[],
+        dropped: Set<string>
+    ): T[] =>
+        list.filter((entity) => {
+            const kept = entity.sourceReferences.filter((r) => !deleted(r));
+            if (entity.sourceReferences.length > 0 && kept.length === 0) {
+                dropped.add(entity.id);
+                return false;
+            }
+            entity.sourceReferences = kept;
+            if (entity.evidence) entity.evidence = entity.evidence.filter((e) => !filenames.includes(e.file));
+            return true;
+        });
+
+    const droppedConcepts = new Set<string>();
+    const droppedCases = new Set<string>();
+    result.concepts = prune(result.concepts, droppedConcepts);
+    result.cases = prune(result.cases, droppedCases);
+    result.principles = prune(result.principles, new Set());
+    result.rules = prune(result.rules, new Set());
+    if (result.statutes) result.statutes = prune(result.statutes, new Set());
+
+    const concepts = (ids: string[]) => ids.filter((id) => !droppedConcepts.has(id));
+    const cases = (ids: string[]) => ids.filter((id) => !droppedCases.has(id));
+    for (const c of result.concepts) {
+        if (c.parentId && droppedConcepts.has(c.parentId)) delete c.parentId;
+    }
+    for (const c of result.cases) c.relatedConcepts = concepts(c.relatedConcepts);
+    for (const p of [...result.principles, ...result.rules]) {
+        p.relatedConcepts = concepts(p.relatedConcepts);
+        p.supportingCases = cases(p.supportingCases);
+    }
+    for (const st of result.statutes ?? []) {
+        st.relatedConcepts = concepts(st.relatedConcepts);
+        st.relatedCases = cases(st.relatedCases);
+    }
+    result.metadata.sourceDocuments = result.metadata.sourceDocuments.filter((f) => !filenames.includes(f));
+    return result;
+}
+
+// ============================================================
+// Id reconciliation (across chunks of one extraction)
+// ============================================================
+
+/**
+ * Map each incoming id onto the id already used for the same entity
+ * (matched by name); an incoming id that collides with a *different*
+ * existing entity is given a fresh suffixed id instead.
+ */
+function buildIdRemap<T extends { id: string }>(
+    existing: T[],
+    incoming: T[],
+    same: (a: T, b: T) => boolean
+): Map<string, string> {
+    const remap = new Map<string, string>();
+    const taken = new Set(existing.map((e) => e.id));
+    for (const inc of incoming) {
+        const match = existing.find((e) => same(e, inc));
+        if (match) {
+            if (match.id !== inc.id) remap.set(inc.id, match.id);
+            continue;
+        }
+        if (taken.has(inc.id)) {
+            let n = 2;
+            while (taken.has(`${inc.id}-${n}`)) n++;
+            remap.set(inc.id, `${inc.id}-${n}`);
+            taken.add(`${inc.id}-${n}`);
+        }
+    }
+    return remap;
+}
+
+function remapIds(ids: string[], remap: Map<string, string>): string[] {
+    return unionArrays([], ids.map((id) => remap.get(id) ?? id));
+}
+
+/**
+ * Rewrite an extraction chunk's concept/case ids (and every cross-reference to
+ * them) so they agree with the entities already extracted from earlier chunks.
+ * A document split across chunks often yields the same case or concept twice
+ * under different ids; without this, references from the later chunk would
+ * point at an id that `mergeEntities` drops.
+ */
+export function reconcileEntityIds(
+    existing: ExtractedEntities,
+    incoming: ExtractedEntities
+): ExtractedEntities {
+    const result: ExtractedEntities = JSON.parse(JSON.stringify(incoming));
+    const byName = <T extends { name: string }>(a: T, b: T): boolean => areSimilar(a.name, b.name);
+    const conceptIds = buildIdRemap(existing.concepts, result.concepts, byName);
+    const caseIds = buildIdRemap(existing.cases, result.cases, byName);
+    const statuteIds = buildIdRemap(existing.statutes ?? [], result.statutes ?? [], sameStatute);
+
+    for (const c of result.concepts) {
+        c.id = conceptIds.get(c.id) ?? c.id;
+        if (c.parentId) c.parentId = conceptIds.get(c.parentId) ?? c.parentId;
+    }
+    for (const c of result.cases) {
+        c.id = caseIds.get(c.id) ?? c.id;
+        c.relatedConcepts = remapIds(c.relatedConcepts, conceptIds);
+    }
+    for (const p of [...result.principles, ...result.rules]) {
+        p.relatedConcepts = remapIds(p.relatedConcepts, conceptIds);
+        p.supportingCases = remapIds(p.supportingCases, caseIds);
+    }
+    for (const st of result.statutes ?? []) {
+        st.id = statuteIds.get(st.id) ?? st.id;
+        st.relatedConcepts = remapIds(st.relatedConcepts, conceptIds);
+        st.relatedCases = remapIds(st.relatedCases, caseIds);
+    }
+    return result;
+}
+
 // ============================================================
 // Deduplication (within a single extraction)
 // ============================================================
@@ -208,11 +432,12 @@ export function deduplicateEntities(
 ): ExtractedEntities {
     const result: ExtractedEntities = JSON.parse(JSON.stringify(entities));
 
-    result.concepts = deduplicateList(result.concepts, mergeConcepts);
+    result.concepts = sanitizeConceptParents(deduplicateList(result.concepts, mergeConcepts));
     result.principles = deduplicateList(result.principles, mergePrinciples);
     result.rules = deduplicateList(result.rules, mergeRules);
     // Cases: less likely to have duplicates, use exact normalized match only
     result.cases = deduplicateList(result.cases, mergeCases);
+    if (result.statutes) result.statutes = deduplicateStatutes(result.statutes);
 
     return result;
 }
@@ -241,6 +466,16 @@ function deduplicateList<T extends { name: string }>(
     return result;
 }
 
+function deduplicateStatutes(statutes: LegalStatute[]): LegalStatute[] {
+    const byKey = new Map<string, LegalStatute>();
+    for (const st of statutes) {
+        const key = statuteKey(st.citation);
+        const prev = byKey.get(key);
+        byKey.set(key, prev ? combineStatutes(prev, st) : { ...st, citation: normalizeCitation(st.citation) });
+    }
+    return [...byKey.values()];
+}
+
 function mergeConcepts(a: LegalConcept, b: LegalConcept): LegalConcept {
     // Keep the shorter name as canonical
     const [keep, other] = a.name.length <= b.name.length ? [a, b] : [b, a];
@@ -250,10 +485,12 @@ function mergeConcepts(a: LegalConcept, b: LegalConcept): LegalConcept {
             ? keep.definition
             : other.definition,
         nameChinese: keep.nameChinese || other.nameChinese,
+        parentId: keep.parentId || other.parentId,
         sourceReferences: unionArrays(
             keep.sourceReferences,
             other.sourceReferences
         ),
+        ...mergeEvidence(keep, other),
     };
 }
 
@@ -281,6 +518,7 @@ function mergeCases(a: LegalCase, b: LegalCase): LegalCase {
             keep.sourceReferences,
             other.sourceReferences
         ),
+        ...mergeEvidence(keep, other),
     };
 }
 
@@ -304,6 +542,7 @@ function mergePrinciples(a: LegalPrinciple, b: LegalPrinciple): LegalPrinciple {
             keep.sourceReferences,
             other.sourceReferences
         ),
+        ...mergeEvidence(keep, other),
     };
 }
 
@@ -333,6 +572,7 @@ function mergeRules(a: LegalRule, b: LegalRule): LegalRule {
             keep.sourceReferences,
             other.sourceReferences
         ),
+        ...mergeEvidence(keep, other),
     };
 }
 
@@ -0,0 +1,183 @@
+import type {
+    EntityEvidence,
+    EvidenceLocation,
+    ExtractedEntities,
+    SourceDocument,
+} from "../types";
+
+/**
+ * Evidence verification: every extracted entity carries a few short verbatim
+ * quotes, and this module looks for each quote in the parsed source text. A
+ * quote that cannot be found (even allowing for whitespace, markdown markup,
+ * typographic quotes and small wording slips) suggests the entity was not
+ * actually in the notes, so the entity is flagged `unverified`.
+ */
+
+/** Quotes shorter than this (after normalization) are too generic to count as evidence. */
+const MIN_QUOTE_CHARS = 12;
+/** Length of the probe substrings used to find fuzzy-match candidates. */
+const ANCHOR_CHARS = 20;
+/** Bigram similarity a candidate window needs to count as the quote. */
+const MIN_SIMILARITY = 0.85;
+
+const FOLDED: Record<string, string> = {
+    "\u2018": "'", "\u2019": "'", "\u201c": '"', "\u201d": '"',
+    "\u2013": "-", "\u2014": "-", "\u00a0": " ",
+};
+const MARKUP_RE = /[*_`#>]/;
+
+interface NormalizedText {
+    text: string;
+    /** `map[i]` is the raw-text index of normalized character `i`. */
+    map: number[];
+}
+
+/** Lowercase, fold typography, drop markdown markup and collapse whitespace. */
+function normalizeWithMap(raw: string): NormalizedText {
+    let text = "";
+    const map: number[] = [];
+    let pendingSpace = false;
+    for (let i = 0; i < raw.length; i++) {
+        const ch = FOLDED[raw[i]] ?? raw[i];
+        if (MARKUP_RE.test(ch)) continue;
+        if (/\s/.test(ch)) {
+            pendingSpace = text.length > 0;
+            continue;
+        }
+        if (pendingSpace) {
+            text += " ";
+            map.push(i);
+            pendingSpace = false;
+        }
+        text += ch.toLowerCase();
+        map.push(i);
+    }
+    return { text, map };
+}
+
+function bigramCounts(s: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < s.length - 1; i++) {
+        const bg = s.slice(i, i + 2);
+        counts.set(bg, (counts.get(bg) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/** Sørensen–Dice similarity over character bigrams (0–1). */
+function diceSimilarity(a: string, b: string): number {
+    if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+    const ca = bigramCounts(a);
+    let overlap = 0;
+    for (const [bg, n] of bigramCounts(b)) overlap += Math.min(n, ca.get(bg) ?? 0);
+    return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+/** Normalized index of `needle` in `hay`: exact first, then anchored fuzzy match; -1 if absent. */
+function findNormalized(needle: string, hay: string): number {
+    const exact = hay.indexOf(needle);
+    if (exact !== -1) return exact;
+    if (needle.length < ANCHOR_CHARS * 2) return -1;
+
+    let best = -1;
+    let bestScore = MIN_SIMILARITY;
+    const anchors = [0, Math.floor((needle.length - ANCHOR_CHARS) / 2), needle.length - ANCHOR_CHARS];
+    for (const at of anchors) {
+        const anchor = needle.slice(at, at + ANCHOR_CHARS);
+        for (let p = hay.indexOf(anchor); p !== -1; p = hay.indexOf(anchor, p + 1)) {
+            const start = Math.max(0, p - at);
+            const score = diceSimilarity(needle, hay.slice(start, start + needle.length));
+            if (score > bestScore) {
+                best = start;
+                bestScore = score;
+            }
+        }
+    }
+    return best;
+}
+
+/** The longest stretch of a quote the model shortened with an ellipsis. */
+function quoteCore(quote: string): string {
+    const segments = quote.split(/\.{3}|…/).map((s) => normalizeWithMap(s).text.replace(/^["'\s]+|["'\s]+$/g, ""));
+    return segments.reduce((longest, s) => (s.length > longest.length ? s : longest), "");
+}
+
+interface PreparedDocument {
+    filename: string;
+    normalized: NormalizedText;
+}
+
+function prepare(documents: SourceDocument[]): PreparedDocument[] {
+    return documents.map((d) => ({ filename: d.filename, normalized: normalizeWithMap(d.rawText) }));
+}
+
+function locateIn(quote: string, docs: PreparedDocument[]): EvidenceLocation | null {
+    const core = quoteCore(quote);
+    if (core.length < MIN_QUOTE_CHARS) return null;
+    for (const doc of docs) {
+        const idx = findNormalized(core, doc.normalized.text);
+        if (idx !== -1) return { quote, file: doc.filename, offset: doc.normalized.map[idx] };
+    }
+    return null;
+}
+
+/** Find a quote in the source documents; null when it cannot be located. */
+export function locateQuote(quote: string, documents: SourceDocument[]): EvidenceLocation | null {
+    return locateIn(quote, prepare(documents));
+}
+
+export interface EvidenceReport {
+    entities: ExtractedEntities;
+    /** Entities checked. */
+    checked: number;
+    /** Entities none of whose quotes could be found. */
+    unverified: number;
+}
+
+/**
+ * Locate every entity's quotes in the documents, recording `evidence` (file +
+ * offset) and flagging entities with no located quote as `unverified`.
+ * Returns a new entities object.
+ */
+export function verifyEvidence(
+    entities: ExtractedEntities,
+    documents: SourceDocument[]
+): EvidenceReport {
+    const result: ExtractedEntities = JSON.parse(JSON.stringify(entities));
+    const docs = prepare(documents);
+    const all: EntityEvidence[] = [
+        ...result.concepts,
+        ...result.cases,
+        ...result.principles,
+        ...result.rules,
+        ...(result.statutes ?? []),
+    ];
+
+    let unverified = 0;
+    for (const entity of all) {
+        const evidence = (entity.quotes ?? [])
+            .map((q) => locateIn(q, docs))
+            .filter((loc): loc is EvidenceLocation => loc !== null);
+        entity.evidence = evidence;
+        if (evidence.length === 0) {
+            entity.unverified = true;
+            unverified++;
+        } else {
+            delete entity.unverified;
+        }
+    }
+    return { entities: result, checked: all.length, unverified };
+}
+
+/** Warning callout for a generated page whose entity could not be verified; empty otherwise. */
+export function renderUnverifiedCallout(entity: EntityEvidence): string {
+    if (!entity.unverified) return "";
+    const quotes = (entity.quotes ?? []).map((q) => `> - "${q}"`).join("\n");
+    return (
+        "\n\n> [!warning] Unverified (未经核实)\n" +
+        "> The extracted evidence for this entry could not be found in the source notes. " +
+        "Check it against your materials before relying on it." +
+        (quotes ? `\n>\n> Quotes the model gave:\n${quotes}` : "") +
+        "\n"
+    );
+}
@@ -0,0 +1,82 @@
+import type { Vault } from "obsidian";
+import type { ExtractedEntities } from "../types";
+import { hashString } from "../utils/hash";
+
+/**
+ * Per-chunk checkpoints for chunked entity extraction. Each chunk's validated
+ * result is saved next to `_state.json` as soon as it completes, keyed by a
+ * hash of the model + full prompt (which embeds the chunk text). If a later
+ * chunk fails, retrying the step reuses every completed chunk, so a failure
+ * only costs the failed chunk. The file is removed once every chunk succeeds.
+ */
+
+const CHECKPOINT_FILENAME = "_extraction-checkpoint.json";
+
+interface CheckpointFile {
+    savedAt: string;
+    chunks: Record<string, ExtractedEntities>;
+}
+
+/** Checkpoint key for one chunk: changes whenever the text, prompt or model does. */
+export function chunkCheckpointKey(prompt: string, model: string): string {
+    return hashString(`${model}\n${prompt}`);
+}
+
+export class ExtractionCheckpoint {
+    private vault: Vault;
+    private path: string;
+    private chunks: Record<string, ExtractedEntities> = {};
+    /** Writes are chained so parallel chunks never clobber each other's saves. */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    private constructor(vault: Vault, path: string) {
+        this.vault = vault;
+        this.path = path;
+    }
+
+    /** Open (or start) the checkpoint for a course folder. Unreadable files start fresh. */
+    static async open(vault: Vault, courseFolder: string): Promise<ExtractionCheckpoint> {
+        const checkpoint = new ExtractionCheckpoint(vault, `${courseFolder}/${CHECKPOINT_FILENAME}`);
+        try {
+            if (await vault.adapter.exists(checkpoint.path)) {
+                const parsed = JSON.parse(await vault.adapter.read(checkpoint.path)) as CheckpointFile;
+                if (parsed && typeof parsed.chunks === "object" && parsed.chunks !== null) {
+                    checkpoint.chunks = parsed.chunks;
+                }
+            }
+        } catch {
+            // Corrupt checkpoint: ignore it and re-extract.
+        }
+        return checkpoint;
+    }
+
+    get size(): number {
+        return Object.keys(this.chunks).length;
+    }
+
+    get(key: string): ExtractedEntities | null {
+        return this.chunks[key] ?? null;
+    }
+
+    /** Record a completed chunk and persist the checkpoint file. */
+    put(key: string, entities: ExtractedEntities): Promise<void> {
+        this.chunks[key] = entities;
+        return this.enqueue(() => {
+            const file: CheckpointFile = { savedAt: new Date().toISOString(), chunks: this.chunks };
+            return this.vault.adapter.write(this.path, JSON.stringify(file));
+        });
+    }
+
+    /** Drop the checkpoint (every chunk succeeded, nothing left to resume). */
+    clear(): Promise<void> {
+        this.chunks = {};
+        return this.enqueue(async () => {
+            if (await this.vault.adapter.exists(this.path)) await this.vault.adapter.remove(this.path);
+        });
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.writeQueue = this.writeQueue.then(task, task);
+        return this.writeQueue;
+    }
+}
@@ -0,0 +1,47 @@
+import { parseTimestamp } from "../parsers/transcript-parser";
+
+/**
+ * Timestamped source references from lecture transcripts. Extraction cites a
+ * transcript passage as `"<file> @ HH:MM:SS"`; these helpers turn those
+ * references into a deterministic "discussed at … in Lecture 7" section.
+ */
+
+export interface LectureReference {
+    /** Transcript file name without its extension, e.g. "Lecture 7". */
+    lecture: string;
+    /** `HH:MM:SS` (or `MM:SS`) as cited. */
+    timestamp: string;
+}
+
+const LECTURE_REF_RE = /^(.+?)\s*@\s*\[?((?:\d+:)?\d{1,2}:\d{2})\]?\s*$/;
+const TRANSCRIPT_EXT_RE = /\.(srt|vtt|txt)$/i;
+
+/** Parse `"Lecture 7.vtt @ 00:41:10"`; null for a reference without a timestamp. */
+export function parseLectureReference(ref: string): LectureReference | null {
+    const m = ref.trim().match(LECTURE_REF_RE);
+    if (!m) return null;
+    return { lecture: m[1].replace(TRANSCRIPT_EXT_RE, "").trim(), timestamp: m[2] };
+}
+
+/** Markdown section listing where an entity was discussed; empty string when never. */
+export function renderLectureSection(sourceReferences: string[] | undefined): string {
+    const seen = new Set<string>();
+    const refs: LectureReference[] = [];
+    for (const raw of sourceReferences ?? []) {
+        const ref = parseLectureReference(raw);
+        if (!ref) continue;
+        const key = `${ref.lecture}@${ref.timestamp}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        refs.push(ref);
+    }
+    if (refs.length === 0) return "";
+
+    refs.sort(
+        (a, b) =>
+            a.lecture.localeCompare(b.lecture, undefined, { numeric: true }) ||
+            parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp)
+    );
+    const bullets = refs.map((r) => `- Discussed at ${r.timestamp} in ${r.lecture}`).join("\n");
+    return `\n\n## Lecture References (课堂讨论)\n\n${bullets}\n`;
+}
@@ -0,0 +1,207 @@
+import type { ExtractedEntities, LegalCase, MappedEdge, RelationshipMatrix } from "../types";
+import type { EntityDiff } from "./entity-diff";
+
+/**
+ * Relationship-matrix merging for incremental updates. Step 3 maps only the
+ * concepts and cases an update added or changed (the "focus"), reading only
+ * the notes the update re-processed. Every edge records the notes it was
+ * mapped from, so the fresh mapping replaces just what those notes said: a
+ * focus edge that came from an unchanged note survives, one its re-processed
+ * note no longer supports is dropped, and so is one whose notes were all
+ * deleted. Edges pointing at entities that no longer exist are dropped too.
+ */
+
+export interface MappingFocus {
+    conceptIds: Set<string>;
+    caseIds: Set<string>;
+}
+
+/** Ids of the concepts and cases the diff lists as added or updated. */
+export function mappingFocus(diff: EntityDiff, entities: ExtractedEntities): MappingFocus {
+    const conceptNames = new Set([...diff.addedConcepts, ...diff.updatedConcepts]);
+    const caseNames = new Set([...diff.addedCases, ...diff.updatedCases]);
+    return {
+        conceptIds: new Set(entities.concepts.filter((c) => conceptNames.has(c.name)).map((c) => c.id)),
+        caseIds: new Set(entities.cases.filter((c) => caseNames.has(c.name)).map((c) => c.id)),
+    };
+}
+
+export function focusIsEmpty(focus: MappingFocus): boolean {
+    return focus.conceptIds.size === 0 && focus.caseIds.size === 0;
+}
+
+/** `edge` without the source notes in `removed`; null when it has sources and none remain. */
+function withoutSources<T extends MappedEdge>(edge: T, removed: ReadonlySet<string>): T | null {
+    if (!edge.sources || removed.size === 0) return edge;
+    const sources = edge.sources.filter((s) => !removed.has(s));
+    if (sources.length === edge.sources.length) return edge;
+    return sources.length > 0 ? { ...edge, sources } : null;
+}
+
+/**
+ * Existing edges in order, each replaced by an incoming edge with the same key
+ * (keeping the union of their sources); new edges appended. Only incoming
+ * edges `inFocus` are taken. Existing edges `inFocus` lose the `remapped`
+ * notes from their sources first — the incoming edges restate what those
+ * notes support — and are dropped when no other note supports them.
+ */
+function mergeEdges<T extends MappedEdge>(
+    existing: T[],
+    incoming: T[],
+    key: (edge: T) => string,
+    inFocus: (edge: T) => boolean,
+    remapped: ReadonlySet<string>
+): T[] {
+    const byKey = new Map<string, T>();
+    for (const e of existing) {
+        const kept = inFocus(e) ? withoutSources(e, remapped) : e;
+        if (kept) byKey.set(key(e), kept);
+    }
+    for (const e of incoming) {
+        if (!inFocus(e)) continue;
+        const prev = byKey.get(key(e));
+        const sources = [...new Set([...(prev?.sources ?? []), ...(e.sources ?? [])])];
+        byKey.set(key(e), sources.length > 0 ? { ...e, sources } : e);
+    }
+    return [...byKey.values()];
+}
+
+/** Record on every edge of a freshly mapped matrix the source notes the model read. */
+export function withEdgeSources(matrix: RelationshipMatrix, sources: string[]): RelationshipMatrix {
+    const tag = <T extends MappedEdge>(edges: T[] | undefined) => edges?.map((e) => ({ ...e, sources: [...sources] }));
+    return {
+        ...matrix,
+        entries: tag(matrix.entries)!,
+        statuteEntries: tag(matrix.statuteEntries),
+        conceptEntries: tag(matrix.conceptEntries),
+        caseEntries: tag(matrix.caseEntries),
+    };
+}
+
+/**
+ * Remove deleted source notes from the matrix: they are stripped from every
+ * edge's sources, and an edge only they supported is dropped even though both
+ * its entities survive. Edges saved without sources are kept — nothing ties
+ * them to the deleted notes.
+ */
+export function removeEdgeSources(matrix: RelationshipMatrix, filenames: string[]): RelationshipMatrix {
+    const removed = new Set(filenames);
+    const strip = <T extends MappedEdge>(edges: T[]) =>
+        edges.flatMap((e) => {
+            const kept = withoutSources(e, removed);
+            return kept ? [kept] : [];
+        });
+    return {
+        ...matrix,
+        entries: strip(matrix.entries),
+        statuteEntries: matrix.statuteEntries && strip(matrix.statuteEntries),
+        conceptEntries: matrix.conceptEntries && strip(matrix.conceptEntries),
+        caseEntries: matrix.caseEntries && strip(matrix.caseEntries),
+    };
+}
+
+/** Insert new case ids before the first listed case decided later; undated ones go last. */
+function mergeCaseOrder(existing: string[], incoming: string[], cases: Map<string, LegalCase>): string[] {
+    const order = [...existing];
+    for (const id of incoming) {
+        if (order.includes(id)) continue;
+        const year = cases.get(id)?.year;
+        const at = year === undefined
+            ? -1
+            : order.findIndex((o) => (cases.get(o)?.year ?? Number.NEGATIVE_INFINITY) > year);
+        if (at === -1) order.push(id);
+        else order.splice(at, 0, id);
+    }
+    return order;
+}
+
+/** Drop edges and ordering entries that reference entities no longer in `entities`. */
+export function pruneRelationshipMatrix(
+    matrix: RelationshipMatrix,
+    entities: ExtractedEntities
+): RelationshipMatrix {
+    const concepts = new Set(entities.concepts.map((c) => c.id));
+    const cases = new Set(entities.cases.map((c) => c.id));
+    const statutes = new Set((entities.statutes ?? []).map((s) => s.id));
+    return {
+        entries: matrix.entries.filter((e) => cases.has(e.caseId) && concepts.has(e.conceptId)),
+        casesInOrder: matrix.casesInOrder.filter((id) => cases.has(id)),
+        conceptsInOrder: matrix.conceptsInOrder.filter((id) => concepts.has(id)),
+        statuteEntries: (matrix.statuteEntries ?? []).filter(
+            (e) => statutes.has(e.statuteId) && concepts.has(e.conceptId)
+        ),
+        conceptEntries: (matrix.conceptEntries ?? []).filter(
+            (e) => concepts.has(e.fromConceptId) && concepts.has(e.toConceptId)
+        ),
+        caseEntries: (matrix.caseEntries ?? []).filter(
+            (e) => cases.has(e.citingCaseId) && cases.has(e.citedCaseId)
+        ),
+    };
+}
+
+/**
+ * Fold a freshly mapped matrix into the persisted one. Existing edges are kept;
+ * an incoming edge between the same pair replaces the old one. With `focus`,
+ * incoming edges that touch no focus entity are ignored — the model only saw
+ * this update's sources, so it has no standing to restate older links — and
+ * a focus entity's existing edges that only the `remapped` notes (the ones
+ * this mapping read) supported are dropped unless restated, so a link the
+ * student edited out of a note disappears. The result is pruned against
+ * `entities`.
+ */
+export function mergeRelationshipMatrix(
+    existing: RelationshipMatrix,
+    incoming: RelationshipMatrix,
+    entities: ExtractedEntities,
+    focus?: MappingFocus,
+    remapped: string[] = []
+): RelationshipMatrix {
+    const concept = (id: string) => !focus || focus.conceptIds.has(id);
+    const cas = (id: string) => !focus || focus.caseIds.has(id);
+    const reread = new Set(focus ? remapped : []);
+
+    const entries = mergeEdges(
+        existing.entries,
+        incoming.entries,
+        (e) => `${e.caseId}|${e.conceptId}`,
+        (e) => cas(e.caseId) || concept(e.conceptId),
+        reread
+    );
+    const statuteEntries = mergeEdges(
+        existing.statuteEntries ?? [],
+        incoming.statuteEntries ?? [],
+        (e) => `${e.statuteId}|${e.conceptId}`,
+        (e) => concept(e.conceptId),
+        reread
+    );
+    const conceptEntries = mergeEdges(
+        existing.conceptEntries ?? [],
+        incoming.conceptEntries ?? [],
+        (e) => `${e.fromConceptId}|${e.toConceptId}`,
+        (e) => concept(e.fromConceptId) || concept(e.toConceptId),
+        reread
+    );
+    const caseEntries = mergeEdges(
+        existing.caseEntries ?? [],
+        incoming.caseEntries ?? [],
+        (e) => `${e.citingCaseId}|${e.citedCaseId}`,
+        (e) => cas(e.citingCaseId) || cas(e.citedCaseId),
+        reread
+    );
+
+    // Every case/concept with an edge belongs in the ordering, even if the model omitted it.
+    const caseMap = new Map(entities.cases.map((c) => [c.id, c]));
+    const casesInOrder = mergeCaseOrder(
+        existing.casesInOrder,
+        [...incoming.casesInOrder, ...entries.map((e) => e.caseId)],
+        caseMap
+    );
+    const conceptsInOrder = [
+        ...new Set([...existing.conceptsInOrder, ...incoming.conceptsInOrder, ...entries.map((e) => e.conceptId)]),
+    ];
+
+    return pruneRelationshipMatrix(
+        { entries, casesInOrder, conceptsInOrder, statuteEntries, conceptEntries, caseEntries },
+        entities
+    );
+}
@@ -1,31 +1,28 @@
 import { App, Notice, TFile } from "obsidian";
-import type { LawNoteSettings, PipelineState, SourceDocument } from "../types";
+import type { ExtractedEntities, LawNoteSettings, PipelineState, SourceDocument } from "../types";
 import { runStep1 } from "./step1-source-select";
 import { runStep2 } from "./step2-entity-extract";
 import { runStep3 } from "./step3-relationship-map";
 import { runStep4 } from "./step4-generate-output";
-import { parseMarkdownFile } from "../parsers/markdown-parser";
-import { parseDocxFile } from "../parsers/docx-parser";
+import { isSourceExtension, parseSourceFile } from "../parsers/source-parser";
 import { CourseSelectModal, type CourseSelection } from "../ui/course-select-modal";
 import { loadPipelineState, savePipelineState, type PersistedState } from "./state-persistence";
-import { mergeEntities, deduplicateEntities } from "./entity-merger";
-import { diffEntities } from "./entity-diff";
+import { mergeEntities, deduplicateEntities, removeSourceDocuments } from "./entity-merger";
+import { diffEntities, markConceptsWithRemovedCases } from "./entity-diff";
 import {
     detectChangedSources,
+    detectDeletedSources,
     mergeSignatures,
     watchedFolders,
     type SourceSignature,
 } from "./source-tracking";
 import { ensureFolderExists } from "../utils/vault-helpers";
 import { addCrossCourseLinks } from "../utils/cross-course-linker";
-import {
-    estimateCostUSD,
-    formatTokens,
-    formatUSD,
-    isLocalGeneration,
-    usageSummary,
-    type TokenUsage,
-} from "../ai/cost";
+import { estimateInputCostUSD, formatTokens, formatUSD, usageSummary, type TokenUsage } from "../ai/cost";
+import { ResponseCache, cacheSummary } from "../ai/response-cache";
+import { RunBudget, recordCourseSpend, runLimitUSD } from "../ai/budget";
+import { UsageLedger } from "../ai/usage-ledger";
+import { BudgetConfirmModal, type BudgetPrompt } from "../ui/budget-confirm-modal";
 
 export class PipelineOrchestrator {
     private app: App;
@@ -108,7 +105,8 @@ export class PipelineOrchestrator {
 
         const current = this.scanSignatures(watchedFolders(recorded));
         const changedPaths = detectChangedSources(current, recorded);
-        if (changedPaths.length === 0) {
+        const deletedPaths = detectDeletedSources(current, recorded);
+        if (changedPaths.length === 0 && deletedPaths.length === 0) {
             if (!silent) {
                 new Notice("Knowledge base is up to date — no new or changed notes. (无新增/改动)");
             }
@@ -116,43 +114,93 @@ export class PipelineOrchestrator {
         }
 
         if (!silent) {
-            new Notice(`Found ${changedPaths.length} new/changed note(s). Updating… (发现 ${changedPaths.length} 个改动，增量更新中)`);
+            const total = changedPaths.length + deletedPaths.length;
+            const deletedMsg = deletedPaths.length > 0 ? `, ${deletedPaths.length} deleted` : "";
+            new Notice(`Found ${changedPaths.length} new/changed note(s)${deletedMsg}. Updating… (发现 ${total} 个改动，增量更新中)`);
         }
 
         const documents: SourceDocument[] = [];
         for (const path of changedPaths) {
             const file = this.app.vault.getAbstractFileByPath(path);
             if (!(file instanceof TFile)) continue;
-            if (file.extension === "md") documents.push(await parseMarkdownFile(this.app, file));
-            else if (file.extension === "docx") documents.push(await parseDocxFile(this.app, file));
+            const doc = await parseSourceFile(this.app, file);
+            if (doc) documents.push(doc);
         }
-        if (documents.length === 0 || this.aborted) return 0;
+        if ((documents.length === 0 && deletedPaths.length === 0) || this.aborted) return 0;
 
-        await this.process(documents, { courseName, incremental: true });
-        return documents.length;
+        await this.process(documents, { courseName, incremental: true }, undefined, deletedPaths);
+        return documents.length + deletedPaths.length;
     }
 
-    /** Shared pipeline body: extract → merge → map → generate → save, given documents + course. */
+    /**
+     * Run the pipeline under the course's budget, logging every model call to
+     * the usage ledger. Whatever the run spent is recorded against the
+     * course's month — also when it stopped early.
+     */
     private async process(
         documents: SourceDocument[],
         courseSelection: CourseSelection,
-        stopAfter?: string
+        stopAfter?: string,
+        removedPaths: string[] = []
+    ): Promise<void> {
+        const course = courseSelection.courseName;
+        const budget = new RunBudget(runLimitUSD(this.settings, course), (spentUSD, projectedUSD, limitUSD) =>
+            this.confirmOverBudget({ course, spentUSD, projectedUSD, limitUSD })
+        );
+        const ledger = UsageLedger.at(this.app.vault, this.settings.outputFolder, course);
+        try {
+            await this.runPipeline(documents, courseSelection, budget, ledger, stopAfter, removedPaths);
+        } finally {
+            await ledger.flush();
+            const spent = budget.spentUSD;
+            if (spent > 0) {
+                this.settings.courseSpend = recordCourseSpend(this.settings, course, spent);
+                await this.persistSettings?.();
+            }
+        }
+    }
+
+    /**
+     * Shared pipeline body: extract → merge → map → generate → save, given
+     * documents + course. `removedPaths` are source notes deleted since the
+     * last run; what only they contributed is dropped from the saved state.
+     */
+    private async runPipeline(
+        documents: SourceDocument[],
+        courseSelection: CourseSelection,
+        budget: RunBudget,
+        ledger: UsageLedger,
+        stopAfter?: string,
+        removedPaths: string[] = []
     ): Promise<void> {
         this.state.sourceDocuments = documents;
         const usage: TokenUsage = { tokens: 0 };
 
-        // Pre-run cost estimate (input tokens only — output adds more). Cloud only.
-        if (!isLocalGeneration(this.settings)) {
-            const inputTokens = documents.reduce((sum, d) => sum + d.tokenEstimate, 0);
+        // Pre-run cost estimate (input tokens only — output adds more), priced at
+        // each step's routed model. Skipped when those steps all run locally.
+        // An estimate already over budget asks before anything is sent.
+        const inputTokens = documents.reduce((sum, d) => sum + d.tokenEstimate, 0);
+        const inputCost = estimateInputCostUSD(this.settings, inputTokens);
+        if (inputCost > 0) {
             new Notice(
-                `Estimated input: ${formatTokens(inputTokens)} tokens · ~${formatUSD(
-                    estimateCostUSD(this.settings.modelName, inputTokens)
-                )}+ (预计花费，输出另计)`
+                `Estimated input: ${formatTokens(inputTokens)} tokens · ~${formatUSD(inputCost)}+ (预计花费，输出另计)`
             );
         }
+        try {
+            await budget.check(inputCost);
+        } catch (error) {
+            new Notice(error instanceof Error ? error.message : String(error));
+            return;
+        }
 
         const effectiveOutputFolder = this.effectiveOutputFolder(courseSelection.courseName);
         await ensureFolderExists(this.app.vault, effectiveOutputFolder);
+        const cache = await ResponseCache.open(
+            this.app.vault,
+            effectiveOutputFolder,
+            (this.settings.responseCacheMaxMB ?? 50) * 1_000_000,
+            this.settings.bypassResponseCache
+        );
 
         // Load existing state if incremental
         let existingState: PersistedState | null = null;
@@ -165,22 +213,48 @@ export class PipelineOrchestrator {
             }
         }
 
+        // Deleted notes: drop the entities only they contributed.
+        const removedFiles = removedPaths.map((p) => p.split("/").pop() ?? p);
+        let baseEntities: ExtractedEntities | null = existingState?.entities ?? null;
+        if (baseEntities && removedPaths.length > 0) {
+            const before = baseEntities;
+            baseEntities = removeSourceDocuments(before, removedFiles);
+            new Notice(
+                `Removed ${removedPaths.length} deleted note(s): dropped ${before.concepts.length - baseEntities.concepts.length} concepts, ` +
+                    `${before.cases.length - baseEntities.cases.length} cases (已移除删除的笔记)`
+            );
+        }
+
         // Step 2: Entity extraction (from the supplied documents only)
         this.state.currentStep = "entity-extract";
-        let entities = await runStep2(this.app, this.settings, documents, usage);
-        if (!entities || this.aborted) return;
-
-        if (existingState) {
-            entities = mergeEntities(existingState.entities, entities);
-            new Notice(
-                `Merged: ${entities.concepts.length} concepts, ${entities.cases.length} cases total (合并后)`
+        let entities: ExtractedEntities | null = baseEntities;
+        if (documents.length > 0) {
+            const extracted = await runStep2(
+                this.app,
+                this.settings,
+                documents,
+                usage,
+                effectiveOutputFolder,
+                cache,
+                budget,
+                ledger
             );
+            if (!extracted || this.aborted) return;
+
+            entities = baseEntities ? mergeEntities(baseEntities, extracted) : extracted;
+            if (baseEntities) {
+                new Notice(
+                    `Merged: ${entities.concepts.length} concepts, ${entities.cases.length} cases total (合并后)`
+                );
+            }
         }
+        if (!entities) return;
 
         entities = deduplicateEntities(entities);
 
         // What changed vs the previous knowledge base (drives the What's New graph).
         const diff = diffEntities(existingState?.entities ?? { concepts: [], cases: [] }, entities);
+        if (existingState) markConceptsWithRemovedCases(diff, existingState.matrix, entities);
 
         this.state.extractedEntities = entities;
 
@@ -190,9 +264,19 @@ export class PipelineOrchestrator {
             return;
         }
 
-        // Step 3: Relationship mapping (over the full merged set)
+        // Step 3: Relationship mapping — only new/changed entities when a saved matrix exists
         this.state.currentStep = "relationship-map";
-        const matrix = await runStep3(this.app, this.settings, entities, documents, usage);
+        const matrix = await runStep3(
+            this.app,
+            this.settings,
+            entities,
+            documents,
+            usage,
+            existingState ? { matrix: existingState.matrix, diff, removedSources: removedFiles } : undefined,
+            cache,
+            budget,
+            ledger
+        );
         if (!matrix || this.aborted) return;
         this.state.relationshipMatrix = matrix;
 
@@ -206,13 +290,17 @@ export class PipelineOrchestrator {
             effectiveOutputFolder,
             courseSelection.courseName || undefined,
             diff,
-            usage
+            usage,
+            cache,
+            budget,
+            ledger
         );
+        if (!files || this.aborted) return;
         this.state.generatedFiles = files;
 
         // Save state (incl. updated source signatures) for future incremental updates
         const mergedSignatures = mergeSignatures(
-            existingState?.sources ?? [],
+            (existingState?.sources ?? []).filter((s) => !removedPaths.includes(s.path)),
             this.signaturesFor(documents)
         );
         await savePipelineState(
@@ -238,6 +326,11 @@ export class PipelineOrchestrator {
 
         // Cost meter: record this run against the lifetime total and report it.
         this.settings.lifetimeTokensUsed = (this.settings.lifetimeTokensUsed ?? 0) + usage.tokens;
+        const lifetimeByProvider = { ...this.settings.lifetimeTokensByProvider };
+        for (const [label, tokens] of Object.entries(usage.byProvider ?? {})) {
+            lifetimeByProvider[label] = (lifetimeByProvider[label] ?? 0) + tokens;
+        }
+        this.settings.lifetimeTokensByProvider = lifetimeByProvider;
         await this.persistSettings?.();
 
         const courseLabel = courseSelection.courseName ? ` [${courseSelection.courseName}]` : "";
@@ -245,7 +338,8 @@ export class PipelineOrchestrator {
             crossLinked > 0 ? ` ${crossLinked} cross-course links added. (${crossLinked} 个跨课程链接)` : "";
         new Notice(
             `Pipeline complete!${courseLabel} Generated ${files.length} files.${crossMsg} ` +
-                `This run: ${usageSummary(this.settings, usage.tokens)}. (本次用量) ` +
+                `This run: ${usageSummary(this.settings, usage.tokens, usage.byProvider)}. (本次用量) ` +
+                `${cacheSummary(cache)} ` +
                 `(流程完成！已生成 ${files.length} 个文件)`
         );
     }
@@ -264,12 +358,12 @@ export class PipelineOrchestrator {
         return out;
     }
 
-    /** Current signatures of all .md/.docx source notes within the watched folders. */
+    /** Current signatures of all source files (`SOURCE_EXTENSIONS`) within the watched folders. */
     private scanSignatures(folders: string[]): SourceSignature[] {
         const outputRoot = this.settings.outputFolder;
         const out: SourceSignature[] = [];
         for (const file of this.app.vault.getFiles()) {
-            if (file.extension !== "md" && file.extension !== "docx") continue;
+            if (!isSourceExtension(file.extension)) continue;
             if (file.path === outputRoot || file.path.startsWith(`${outputRoot}/`)) continue; // skip generated
             const inWatched = folders.some((folder) =>
                 folder === "" ? !file.path.includes("/") : file.path.startsWith(`${folder}/`)
@@ -279,6 +373,11 @@ export class PipelineOrchestrator {
         return out;
     }
 
+    /** Pause the run on the budget modal; resolves true to continue past the limit. */
+    private confirmOverBudget(prompt: BudgetPrompt): Promise<boolean> {
+        return new Promise((resolve) => new BudgetConfirmModal(this.app, prompt, resolve).open());
+    }
+
     private selectCourse(): Promise<CourseSelection | null> {
         return new Promise((resolve) => {
             const modal = new CourseSelectModal(
@@ -0,0 +1,217 @@
+import { estimateTokens, type SourceDocument } from "../types";
+
+/**
+ * Default max source tokens per extraction chunk.
+ * Gemini outputs ~3-4x fewer tokens than input for extraction,
+ * but very large inputs produce JSON that exceeds output token limits.
+ * 40K source tokens → ~15K output tokens (safe for 65K limit).
+ * Step 2 sizes chunks per model from the model catalog instead
+ * (see `sourceTokensPerChunk`).
+ */
+export const MAX_SOURCE_TOKENS_PER_CHUNK = 40000;
+
+/**
+ * Trailing text repeated at the start of the next part when a section has to
+ * be cut between paragraphs, so a discussion straddling the cut is seen whole
+ * by at least one extraction call.
+ */
+export const CHUNK_OVERLAP_TOKENS = 1000;
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+interface Section {
+    /** Headings enclosing this section, outermost first (excluding its own). */
+    ancestors: string[];
+    /** The section's own heading line, if it has one. */
+    heading?: string;
+    text: string;
+}
+
+/** Split markdown into sections at every heading, tracking the heading path. */
+function splitSections(markdown: string): Section[] {
+    const sections: Section[] = [];
+    const path: { level: number; line: string }[] = [];
+    let current: Section = { ancestors: [], text: "" };
+    let inFence = false;
+
+    for (const line of markdown.split("\n")) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const m = inFence ? null : line.match(HEADING_RE);
+        if (m) {
+            if (current.text.trim()) sections.push(current);
+            const level = m[1].length;
+            while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+            current = { ancestors: path.map((h) => h.line), heading: line, text: line };
+            path.push({ level, line });
+        } else {
+            current.text = current.text ? `${current.text}\n${line}` : line;
+        }
+    }
+    if (current.text.trim()) sections.push(current);
+    return sections;
+}
+
+function isHeadingsOnly(text: string): boolean {
+    return text.split("\n").every((line) => !line.trim() || HEADING_RE.test(line));
+}
+
+function withContext(context: string[], text: string): string {
+    return context.length > 0 ? `${context.join("\n")}\n\n${text}` : text;
+}
+
+/** Longest suffix of `text` within `maxTokens`, starting on a word boundary. */
+function tailWithinTokens(text: string, maxTokens: number): string {
+    let start = Math.max(0, text.length - maxTokens * 4);
+    while (start < text.length && estimateTokens(text.slice(start)) > maxTokens) {
+        start += Math.max(1, Math.floor((text.length - start) / 10));
+    }
+    const space = text.indexOf(" ", start);
+    if (start > 0 && space !== -1 && space < text.length - 1) start = space + 1;
+    return text.slice(start).trim();
+}
+
+/** Cut a single over-long paragraph into windows of at most `maxTokens`. */
+function hardSplit(paragraph: string, maxTokens: number): string[] {
+    const pieces: string[] = [];
+    let rest = paragraph;
+    while (estimateTokens(rest) > maxTokens) {
+        let size = maxTokens * 4;
+        while (size > 1 && estimateTokens(rest.slice(0, size)) > maxTokens) {
+            size = Math.floor(size * 0.8);
+        }
+        // Prefer to break after a sentence or at whitespace in the back half.
+        const window = rest.slice(0, size);
+        const boundary = Math.max(
+            window.search(/[.!?。！？；;][^.!?。！？；;]*$/) + 1,
+            window.lastIndexOf(" ")
+        );
+        const cut = boundary > size / 2 ? boundary : size;
+        pieces.push(rest.slice(0, cut).trim());
+        rest = rest.slice(cut);
+    }
+    if (rest.trim()) pieces.push(rest.trim());
+    return pieces;
+}
+
+/** The last paragraphs of a part (or the tail of its last one) within `maxTokens`. */
+function overlapTail(paragraphs: string[], maxTokens: number): string {
+    if (maxTokens <= 0 || paragraphs.length === 0) return "";
+    const kept: string[] = [];
+    for (let i = paragraphs.length - 1; i >= 0; i--) {
+        if (estimateTokens([paragraphs[i], ...kept].join("\n\n")) > maxTokens) break;
+        kept.unshift(paragraphs[i]);
+    }
+    if (kept.length > 0) return kept.join("\n\n");
+    return tailWithinTokens(paragraphs[paragraphs.length - 1], maxTokens);
+}
+
+/**
+ * Split text on paragraph boundaries into pieces of at most `maxTokens`. Each
+ * piece after the first starts with up to `overlapTokens` of the previous one.
+ */
+export function splitParagraphs(
+    text: string,
+    maxTokens: number,
+    overlapTokens: number = CHUNK_OVERLAP_TOKENS
+): string[] {
+    const paragraphs = text
+        .split(/\n\s*\n/)
+        .map((p) => p.trim())
+        .filter(Boolean)
+        .flatMap((p) => (estimateTokens(p) > maxTokens ? hardSplit(p, maxTokens) : [p]));
+
+    const pieces: string[] = [];
+    let current: string[] = [];
+    for (const p of paragraphs) {
+        if (current.length > 0 && estimateTokens([...current, p].join("\n\n")) > maxTokens) {
+            pieces.push(current.join("\n\n"));
+            const overlap = overlapTail(current, overlapTokens);
+            current = overlap && estimateTokens(`${overlap}\n\n${p}`) <= maxTokens ? [overlap] : [];
+        }
+        current.push(p);
+    }
+    if (current.length > 0) pieces.push(current.join("\n\n"));
+    return pieces;
+}
+
+/**
+ * Split one oversized document into parts of at most `maxTokens`. Heading
+ * boundaries are preferred; a section that alone exceeds the limit is cut
+ * between paragraphs with an overlap window. A part that starts inside a
+ * nested section is prefixed with its enclosing headings so the model still
+ * knows where it is.
+ */
+export function splitDocument(
+    doc: SourceDocument,
+    maxTokens: number = MAX_SOURCE_TOKENS_PER_CHUNK,
+    overlapTokens: number = CHUNK_OVERLAP_TOKENS
+): SourceDocument[] {
+    const parts: string[] = [];
+    let current = "";
+
+    for (const section of splitSections(doc.rawText)) {
+        if (current && estimateTokens(`${current}\n\n${section.text}`) <= maxTokens) {
+            current = `${current}\n\n${section.text}`;
+            continue;
+        }
+        // A part holding only headings adds nothing: the next part re-states them.
+        if (current && !isHeadingsOnly(current)) parts.push(current);
+
+        current = withContext(section.ancestors, section.text);
+        if (estimateTokens(current) <= maxTokens) continue;
+
+        // Oversized section: every continuation re-states the full heading path.
+        const context = section.heading ? [...section.ancestors, section.heading] : section.ancestors;
+        const budget = Math.max(1, maxTokens - estimateTokens(context.join("\n")) - 1);
+        const body = section.heading ? section.text.slice(section.heading.length) : section.text;
+        const pieces = splitParagraphs(body, budget, overlapTokens).map((p) => withContext(context, p));
+        parts.push(...pieces.slice(0, -1));
+        current = pieces[pieces.length - 1] ?? "";
+    }
+    if (current) parts.push(current);
+    if (parts.length <= 1) return [doc];
+
+    return parts.map((rawText) => ({
+        ...doc,
+        rawText,
+        charCount: rawText.length,
+        tokenEstimate: estimateTokens(rawText),
+    }));
+}
+
+/**
+ * Split documents into chunks where each chunk's total token count
+ * is below `maxTokens`. Documents are packed whole; a document that alone
+ * exceeds the limit is first split into parts (see `splitDocument`).
+ */
+export function buildChunks(
+    documents: SourceDocument[],
+    maxTokens: number = MAX_SOURCE_TOKENS_PER_CHUNK
+): SourceDocument[][] {
+    const chunks: SourceDocument[][] = [];
+    let currentChunk: SourceDocument[] = [];
+    let currentTokens = 0;
+
+    const pieces = documents.flatMap((doc) =>
+        estimateTokens(doc.rawText) > maxTokens ? splitDocument(doc, maxTokens) : [doc]
+    );
+
+    for (const piece of pieces) {
+        const pieceTokens = estimateTokens(piece.rawText);
+
+        if (currentTokens + pieceTokens > maxTokens && currentChunk.length > 0) {
+            chunks.push(currentChunk);
+            currentChunk = [];
+            currentTokens = 0;
+        }
+
+        currentChunk.push(piece);
+        currentTokens += pieceTokens;
+    }
+
+    if (currentChunk.length > 0) {
+        chunks.push(currentChunk);
+    }
+
+    return chunks;
+}
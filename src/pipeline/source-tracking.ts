@@ -21,6 +21,15 @@ export function detectChangedSources(
         .map((c) => c.path);
 }
 
+/** Recorded paths missing from `current` — source notes deleted (or moved) since the last run. */
+export function detectDeletedSources(
+    current: SourceSignature[],
+    recorded: SourceSignature[]
+): string[] {
+    const now = new Set(current.map((c) => c.path));
+    return recorded.filter((r) => !now.has(r.path)).map((r) => r.path);
+}
+
 /** Union of recorded + current signatures (the latest mtime wins). */
 export function mergeSignatures(
     recorded: SourceSignature[],
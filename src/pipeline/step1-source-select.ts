@@ -1,6 +1,5 @@
 import { App, Notice, TFile } from "obsidian";
-import { parseMarkdownFile } from "../parsers/markdown-parser";
-import { parseDocxFile } from "../parsers/docx-parser";
+import { parseSourceFile } from "../parsers/source-parser";
 import type { SourceDocument } from "../types";
 import { FilePickerModal } from "../ui/file-picker-modal";
 
@@ -14,11 +13,8 @@ export async function runStep1(app: App): Promise<SourceDocument[] | null> {
                     const docs: SourceDocument[] = [];
 
                     for (const file of files) {
-                        if (file.extension === "md") {
-                            docs.push(await parseMarkdownFile(app, file));
-                        } else if (file.extension === "docx") {
-                            docs.push(await parseDocxFile(app, file));
-                        }
+                        const doc = await parseSourceFile(app, file);
+                        if (doc) docs.push(doc);
                     }
 
                     const totalTokens = docs.reduce(
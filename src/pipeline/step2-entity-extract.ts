@@ -1,42 +1,62 @@
 import { App, Notice } from "obsidian";
-import { createLLMClient } from "../ai/llm-client-factory";
+import { clientUsageByProvider, createLLMClient } from "../ai/llm-client-factory";
+import { generationModelName } from "../ai/fallback-client";
 import { createEmbedder } from "../ai/embedder";
+import { settingsForStep } from "../ai/step-routing";
 import type { LLMClient } from "../ai/llm-provider";
 import { buildEntityExtractionPrompt } from "../ai/prompts";
 import { ExtractedEntitiesSchema } from "../ai/schemas";
 import { ExtractedEntitiesResponseSchema } from "../ai/response-schemas";
 import { EntityReviewModal } from "../ui/entity-review-modal";
 import { ProgressModal } from "../ui/progress-modal";
-import { mergeEntities, deduplicateEntities, semanticDeduplicateConcepts } from "./entity-merger";
+import {
+    mergeEntities,
+    deduplicateEntities,
+    reconcileEntityIds,
+    semanticDeduplicateConcepts,
+} from "./entity-merger";
 import type {
     ExtractedEntities,
     LawNoteSettings,
     SourceDocument,
 } from "../types";
-import { estimateTokens } from "../types";
-import type { TokenUsage } from "../ai/cost";
+import { DEFAULT_MODEL_CATALOG, estimateTokens } from "../types";
+import { addUsage, type TokenUsage } from "../ai/cost";
+import type { ResponseCache } from "../ai/response-cache";
+import type { RunBudget } from "../ai/budget";
+import type { UsageLedger } from "../ai/usage-ledger";
+import { buildChunks } from "./source-chunking";
+import { sourceTokensPerChunk } from "../ai/model-catalog";
+import { chunkCheckpointKey, ExtractionCheckpoint } from "./extraction-checkpoint";
+import { verifyEvidence } from "./evidence-verifier";
+import { parallelMap } from "../utils/parallel";
 
 /**
- * Max source tokens per extraction chunk.
- * Gemini outputs ~3-4x fewer tokens than input for extraction,
- * but very large inputs produce JSON that exceeds output token limits.
- * 40K source tokens → ~15K output tokens (safe for 65K limit).
+ * Extract entities from the documents. Large inputs are split into chunks that
+ * run in parallel; with a `checkpointFolder`, each finished chunk is saved so a
+ * retry after a failure only re-extracts the chunks that did not complete.
  */
-const MAX_SOURCE_TOKENS_PER_CHUNK = 40000;
-
 export async function runStep2(
     app: App,
     settings: LawNoteSettings,
     documents: SourceDocument[],
-    usage?: TokenUsage
+    usage?: TokenUsage,
+    checkpointFolder?: string,
+    cache?: ResponseCache,
+    budget?: RunBudget,
+    ledger?: UsageLedger
 ): Promise<ExtractedEntities | null> {
-    const client = createLLMClient(settings);
+    const modelSettings = settingsForStep(settings, "extraction");
+    const client = createLLMClient(modelSettings, cache, budget, ledger?.recorder("extraction"));
 
     // Check if we need to chunk
-    const fullSourceText = documents
-        .map((d) => `--- SOURCE: ${d.filename} ---\n${d.rawText}`)
-        .join("\n\n");
+    const fullSourceText = sourceTextFor(documents);
     const totalTokens = estimateTokens(fullSourceText);
+    // Chunk size follows the extraction model's output cap and context window.
+    const chunkTokens = sourceTokensPerChunk(
+        settings.modelCatalog ?? DEFAULT_MODEL_CATALOG,
+        generationModelName(modelSettings)
+    );
 
     const progressModal = new ProgressModal(app);
     progressModal.open();
@@ -45,39 +65,24 @@ export async function runStep2(
     let entities: ExtractedEntities;
 
     try {
-        if (totalTokens <= MAX_SOURCE_TOKENS_PER_CHUNK) {
+        if (totalTokens <= chunkTokens) {
             // Single extraction (fits in one call)
             entities = await extractSingle(
-                client, settings, fullSourceText, progressModal, 1, 1
+                client,
+                settings,
+                buildEntityExtractionPrompt(fullSourceText, settings.language),
+                progressModal,
+                1,
+                1
             );
         } else {
-            // Chunked extraction
-            const chunks = buildChunks(documents);
-            new Notice(
-                `Source is large (~${Math.round(totalTokens / 1000)}K tokens). Splitting into ${chunks.length} chunks. (源文档较大，分${chunks.length}批提取)`
+            entities = await extractChunked(
+                app, client, settings, documents, totalTokens, chunkTokens, progressModal, checkpointFolder
             );
-
-            let merged: ExtractedEntities | null = null;
-
-            for (let i = 0; i < chunks.length; i++) {
-                const chunkText = chunks[i]
-                    .map((d) => `--- SOURCE: ${d.filename} ---\n${d.rawText}`)
-                    .join("\n\n");
-
-                const chunkEntities = await extractSingle(
-                    client, settings, chunkText, progressModal, i + 1, chunks.length
-                );
-
-                if (!merged) {
-                    merged = chunkEntities;
-                } else {
-                    merged = mergeEntities(merged, chunkEntities);
-                }
-            }
-
-            entities = deduplicateEntities(merged!);
         }
     } catch (error) {
+        // Cancelled: the pop-up is already closed — stop the pipeline without an error report.
+        if (progressModal.isCancelled()) return null;
         const errMsg = error instanceof Error ? error.message : String(error);
         progressModal.addError(`Entity extraction failed:\n${errMsg}`);
         progressModal.showStopped("Entity Extraction Failed (实体提取失败)");
@@ -91,21 +96,32 @@ export async function runStep2(
 
     progressModal.close();
 
+    // Look up each entity's quotes in the sources; entities whose evidence
+    // can't be found are flagged unverified for review.
+    const evidenceReport = verifyEvidence(entities, documents);
+    entities = evidenceReport.entities;
+
     // Metadata is owned by code, not the model: record the real source files,
     // timestamp, model used, and actual token usage reported by the API.
     const tokensUsed = client.getTotalTokensUsed();
-    if (usage) usage.tokens += tokensUsed;
+    if (usage) addUsage(usage, clientUsageByProvider(client, modelSettings));
+    await cache?.flush();
+    await ledger?.flush();
     entities.metadata = {
         sourceDocuments: documents.map((d) => d.filename),
         extractionTimestamp: new Date().toISOString(),
-        modelUsed: settings.modelName,
+        modelUsed: generationModelName(modelSettings),
         totalTokensUsed: tokensUsed,
     };
 
     const tokenNote = tokensUsed > 0 ? ` (~${Math.round(tokensUsed / 1000)}K tokens)` : "";
+    const unverifiedNote = evidenceReport.unverified > 0
+        ? `. ${evidenceReport.unverified} unverified — evidence not found in sources (${evidenceReport.unverified} 项未经核实)`
+        : "";
     new Notice(
         `Extracted: ${entities.concepts.length} concepts, ${entities.cases.length} cases, ` +
-        `${entities.principles.length} principles, ${entities.rules.length} rules${tokenNote}`
+        `${entities.principles.length} principles, ${entities.rules.length} rules, ` +
+        `${entities.statutes?.length ?? 0} statutes${tokenNote}${unverifiedNote}`
     );
 
     // Optional embedding-based dedup of semantically-equivalent concepts.
@@ -140,7 +156,7 @@ export async function runStep2(
             (confirmed) => resolve(confirmed),
             () => {
                 // Re-extract: recursively call this step
-                runStep2(app, settings, documents, usage).then(resolve);
+                runStep2(app, settings, documents, usage, checkpointFolder, cache, budget, ledger).then(resolve);
             },
             () => resolve(null)
         );
@@ -148,10 +164,86 @@ export async function runStep2(
     });
 }
 
+function sourceTextFor(documents: SourceDocument[]): string {
+    return documents
+        .map((d) => `--- SOURCE: ${d.filename} ---\n${d.rawText}`)
+        .join("\n\n");
+}
+
+async function extractChunked(
+    app: App,
+    client: LLMClient,
+    settings: LawNoteSettings,
+    documents: SourceDocument[],
+    totalTokens: number,
+    chunkTokens: number,
+    progressModal: ProgressModal,
+    checkpointFolder?: string
+): Promise<ExtractedEntities> {
+    const chunks = buildChunks(documents, chunkTokens);
+    const prompts = chunks.map((chunk) =>
+        buildEntityExtractionPrompt(sourceTextFor(chunk), settings.language)
+    );
+    const model = generationModelName(settingsForStep(settings, "extraction"));
+    const keys = prompts.map((prompt) => chunkCheckpointKey(prompt, model));
+    const checkpoint = checkpointFolder
+        ? await ExtractionCheckpoint.open(app.vault, checkpointFolder)
+        : null;
+
+    const resumed = checkpoint ? keys.filter((k) => checkpoint.get(k)).length : 0;
+    const resumeNote = resumed > 0
+        ? ` Resuming: ${resumed} chunk(s) already done. (从断点继续，已完成 ${resumed} 批)`
+        : "";
+    new Notice(
+        `Source is large (~${Math.round(totalTokens / 1000)}K tokens). Splitting into ${chunks.length} chunks. (源文档较大，分${chunks.length}批提取)${resumeNote}`
+    );
+
+    const { results, errors } = await parallelMap<string, ExtractedEntities>(
+        prompts,
+        async (prompt, i) => {
+            const done = checkpoint?.get(keys[i]);
+            if (done) return done;
+            if (progressModal.isCancelled()) throw new Error("Request aborted by user");
+
+            const chunkEntities = await extractSingle(
+                client, settings, prompt, progressModal, i + 1, chunks.length
+            );
+            await checkpoint?.put(keys[i], chunkEntities).catch((error) => {
+                // A checkpoint that can't be saved only costs resumability.
+                console.warn("[law-restructurer] Could not save extraction checkpoint.", error);
+            });
+            return chunkEntities;
+        },
+        settings.concurrency ?? 5,
+        200,
+        (completed, total) => progressModal.setProgress((completed / total) * 100)
+    );
+
+    if (errors.length > 0) {
+        const details = errors
+            .sort((a, b) => a.index - b.index)
+            .map(({ index, error }) => `Chunk ${index + 1}: ${error.message}`)
+            .join("\n");
+        const resumeHint = checkpoint
+            ? " Completed chunks are saved — run again to resume. (已完成的分块已保存，重试即可继续)"
+            : "";
+        throw new Error(`${errors.length} of ${chunks.length} chunks failed.${resumeHint}\n${details}`);
+    }
+
+    // Merge in chunk order so ids from earlier chunks win reconciliation.
+    let merged = results[0]!;
+    for (const chunkEntities of results.slice(1)) {
+        merged = mergeEntities(merged, reconcileEntityIds(merged, chunkEntities!));
+    }
+
+    await checkpoint?.clear();
+    return deduplicateEntities(merged);
+}
+
 async function extractSingle(
     client: LLMClient,
     settings: LawNoteSettings,
-    sourceText: string,
+    prompt: string,
     progressModal: ProgressModal,
     chunkNum: number,
     totalChunks: number
@@ -161,7 +253,6 @@ async function extractSingle(
         : "Step 2/4: Extracting entities... (正在提取实体)";
 
     progressModal.setStep(label);
-    const prompt = buildEntityExtractionPrompt(sourceText, settings.language);
 
     if (settings.enableStreaming) {
         return client.generateStructuredStreaming(
@@ -180,44 +271,3 @@ async function extractSingle(
         );
     }
 }
-
-/**
- * Split documents into chunks where each chunk's total token count
- * is below MAX_SOURCE_TOKENS_PER_CHUNK.
- * Each document stays intact (never split mid-document).
- */
-function buildChunks(documents: SourceDocument[]): SourceDocument[][] {
-    const chunks: SourceDocument[][] = [];
-    let currentChunk: SourceDocument[] = [];
-    let currentTokens = 0;
-
-    for (const doc of documents) {
-        const docTokens = estimateTokens(doc.rawText);
-
-        // If a single document exceeds the limit, it gets its own chunk
-        if (docTokens > MAX_SOURCE_TOKENS_PER_CHUNK) {
-            if (currentChunk.length > 0) {
-                chunks.push(currentChunk);
-                currentChunk = [];
-                currentTokens = 0;
-            }
-            chunks.push([doc]);
-            continue;
-        }
-
-        if (currentTokens + docTokens > MAX_SOURCE_TOKENS_PER_CHUNK && currentChunk.length > 0) {
-            chunks.push(currentChunk);
-            currentChunk = [];
-            currentTokens = 0;
-        }
-
-        currentChunk.push(doc);
-        currentTokens += docTokens;
-    }
-
-    if (currentChunk.length > 0) {
-        chunks.push(currentChunk);
-    }
-
-    return chunks;
-}
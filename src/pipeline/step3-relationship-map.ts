@@ -1,6 +1,7 @@
 import { App, Notice } from "obsidian";
-import { createLLMClient } from "../ai/llm-client-factory";
+import { clientUsageByProvider, createLLMClient } from "../ai/llm-client-factory";
 import { buildRelationshipMappingPrompt } from "../ai/prompts";
+import { settingsForStep } from "../ai/step-routing";
 import { RelationshipMatrixSchema } from "../ai/schemas";
 import { RelationshipMatrixResponseSchema } from "../ai/response-schemas";
 import { RelationshipReviewModal } from "../ui/relationship-review-modal";
@@ -11,16 +12,58 @@ import type {
     RelationshipMatrix,
     SourceDocument,
 } from "../types";
-import type { TokenUsage } from "../ai/cost";
+import { addUsage, type TokenUsage } from "../ai/cost";
+import type { ResponseCache } from "../ai/response-cache";
+import type { RunBudget } from "../ai/budget";
+import type { UsageLedger } from "../ai/usage-ledger";
+import type { EntityDiff } from "./entity-diff";
+import {
+    focusIsEmpty,
+    mappingFocus,
+    mergeRelationshipMatrix,
+    pruneRelationshipMatrix,
+    removeEdgeSources,
+    withEdgeSources,
+    type MappingFocus,
+} from "./matrix-merger";
 
+/** The persisted matrix plus what this update changed (incremental runs). */
+export interface PreviousMapping {
+    matrix: RelationshipMatrix;
+    diff: EntityDiff;
+    /** File names of source notes deleted since the matrix was saved. */
+    removedSources?: string[];
+}
+
+/**
+ * Step 3: map relationships. With `previous`, only the added/updated entities
+ * in its diff are mapped (against this run's documents) and the result is
+ * merged into the persisted matrix. Edges only deleted notes supported are
+ * dropped first. With nothing to map (no changed entities, or no new documents
+ * because notes were only deleted) the persisted matrix is reused, pruned of
+ * entities that no longer exist, without a model call.
+ */
 export async function runStep3(
     app: App,
     settings: LawNoteSettings,
     entities: ExtractedEntities,
     documents: SourceDocument[],
-    usage?: TokenUsage
+    usage?: TokenUsage,
+    previous?: PreviousMapping,
+    cache?: ResponseCache,
+    budget?: RunBudget,
+    ledger?: UsageLedger
 ): Promise<RelationshipMatrix | null> {
-    const client = createLLMClient(settings);
+    let focus: MappingFocus | undefined;
+    let base: RelationshipMatrix | undefined;
+    if (previous) {
+        focus = mappingFocus(previous.diff, entities);
+        base = removeEdgeSources(previous.matrix, previous.removedSources ?? []);
+        if (focusIsEmpty(focus) || documents.length === 0) return pruneRelationshipMatrix(base, entities);
+    }
+
+    const modelSettings = settingsForStep(settings, "relationships");
+    const client = createLLMClient(modelSettings, cache, budget, ledger?.recorder("relationships"));
 
     const sourceText = documents
         .map((d) => `--- SOURCE: ${d.filename} ---\n${d.rawText}`)
@@ -29,7 +72,8 @@ export async function runStep3(
     const prompt = buildRelationshipMappingPrompt(
         entities,
         sourceText,
-        settings.language
+        settings.language,
+        focus
     );
 
     const progressModal = new ProgressModal(app);
@@ -58,6 +102,7 @@ export async function runStep3(
             );
         }
     } catch (error) {
+        if (progressModal.isCancelled()) return null;
         const errMsg = error instanceof Error ? error.message : String(error);
         progressModal.addError(`Relationship mapping failed:\n${errMsg}`);
         progressModal.showStopped("Relationship Mapping Failed (关系映射失败)");
@@ -69,11 +114,26 @@ export async function runStep3(
     }
 
     progressModal.close();
-    if (usage) usage.tokens += client.getTotalTokensUsed();
+    if (usage) addUsage(usage, clientUsageByProvider(client, modelSettings));
+    await cache?.flush();
+    await ledger?.flush();
 
-    new Notice(
-        `Mapped ${matrix.entries.length} relationships across ${matrix.casesInOrder.length} cases and ${matrix.conceptsInOrder.length} concepts`
-    );
+    const filenames = documents.map((d) => d.filename);
+    matrix = withEdgeSources(matrix, filenames);
+    if (base && focus) {
+        const mapped = matrix.entries.length;
+        matrix = mergeRelationshipMatrix(base, matrix, entities, focus, filenames);
+        new Notice(
+            `Mapped ${mapped} relationships for ${focus.conceptIds.size} new/changed concepts and ${focus.caseIds.size} cases; ` +
+                `${matrix.entries.length} in total (增量映射)`
+        );
+    } else {
+        const links = (matrix.conceptEntries?.length ?? 0) + (matrix.caseEntries?.length ?? 0);
+        new Notice(
+            `Mapped ${matrix.entries.length} relationships across ${matrix.casesInOrder.length} cases and ${matrix.conceptsInOrder.length} concepts` +
+                (links > 0 ? `, plus ${links} concept/case links` : "")
+        );
+    }
 
     // Unattended mode: skip the review modal.
     if (settings.autoAcceptReview) {
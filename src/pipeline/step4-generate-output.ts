@@ -1,20 +1,30 @@
 import { App, Notice, TFile, Vault } from "obsidian";
-import { createLLMClient } from "../ai/llm-client-factory";
+import { clientSession, clientUsageByProvider, createLLMClient, servedByLabel } from "../ai/llm-client-factory";
 import { createEmbedder } from "../ai/embedder";
+import { settingsForStep } from "../ai/step-routing";
 import {
     generateCombinedPage,
     generateCasePageLocal,
+    renderDoctrineLinksSection,
 } from "../generators/concept-page-generator";
 import { generateMatrixPage } from "../generators/matrix-generator";
+import { generateStatutePageLocal, renderStatuteSection } from "../generators/statute-page-generator";
 import { generateEvolutionPage, generateSynthesisPage } from "../generators/study-aids-generator";
 import { generateAuthorityCheckPage } from "../generators/authority-check-generator";
 import { generateWhatsNewPage } from "../generators/update-log-generator";
 import { generateFlashcardsMarkdown, generateAnkiExport } from "../generators/flashcards-generator";
 import { computeRelatedConcepts, renderRelatedSection, type RelatedConcept } from "./semantic-links";
+import { renderLectureSection } from "./lecture-references";
+import { renderUnverifiedCallout } from "./evidence-verifier";
+import { renderBreadcrumbs, renderSubDoctrinesSection } from "../utils/concept-hierarchy";
 import { generateOutlinePage } from "../generators/outline-generator";
 import { withPreservedNotes } from "../utils/user-notes";
 import { affectedConceptNames, type EntityDiff } from "./entity-diff";
-import type { TokenUsage } from "../ai/cost";
+import { statuteKey } from "./entity-merger";
+import { addUsage, type TokenUsage } from "../ai/cost";
+import type { ResponseCache } from "../ai/response-cache";
+import { BudgetExceededError, type RunBudget } from "../ai/budget";
+import type { UsageLedger } from "../ai/usage-ledger";
 import { ProgressModal } from "../ui/progress-modal";
 import type {
     ExtractedEntities,
@@ -206,6 +216,10 @@ async function createOrOverwrite(
 // Main step 4
 // ============================================================
 
+/**
+ * Generate and write every output page. Returns the written paths, or null if
+ * the user cancelled or stopped the run at the budget prompt.
+ */
 export async function runStep4(
     app: App,
     settings: LawNoteSettings,
@@ -214,25 +228,46 @@ export async function runStep4(
     outputFolderOverride?: string,
     courseName?: string,
     diff?: EntityDiff,
-    usage?: TokenUsage
-): Promise<string[]> {
-    const client = createLLMClient(settings);
+    usage?: TokenUsage,
+    cache?: ResponseCache,
+    budget?: RunBudget,
+    ledger?: UsageLedger
+): Promise<string[] | null> {
+    // Concept pages and the outline may be routed to different models.
+    const pageSettings = settingsForStep(settings, "pages");
+    const outlineSettings = settingsForStep(settings, "outline");
+    const client = createLLMClient(pageSettings, cache, budget, ledger?.recorder("pages"));
+    const outlineClient = createLLMClient(outlineSettings, cache, budget, ledger?.recorder("outline"));
+    const recordUsage = (): void => {
+        if (!usage) return;
+        addUsage(usage, clientUsageByProvider(client, pageSettings));
+        addUsage(usage, clientUsageByProvider(outlineClient, outlineSettings));
+    };
     const outputFolder = outputFolderOverride ?? settings.outputFolder;
     const generatedFiles: string[] = [];
     const failedPages: string[] = [];
     const sourceFiles = entities.metadata.sourceDocuments;
     const allGeneratedContent: string[] = [];
     const concurrency = settings.concurrency ?? 5;
+    // Which provider wrote each AI-generated page (a fallback chain may mix them).
+    const pageProviders: Record<string, string> = { ...entities.metadata.pageProviders };
 
     const progressModal = new ProgressModal(app);
     progressModal.open();
-    progressModal.onCancelClick(() => client.abort());
+    progressModal.onCancelClick(() => {
+        client.abort();
+        outlineClient.abort();
+    });
 
     try {
         // Ensure output folders exist
         await ensureFolderExists(app.vault, `${outputFolder}/Concepts`);
         await ensureFolderExists(app.vault, `${outputFolder}/Cases`);
         await ensureFolderExists(app.vault, `${outputFolder}/Dashboards`);
+        const statutes = entities.statutes ?? [];
+        if (statutes.length > 0) {
+            await ensureFolderExists(app.vault, `${outputFolder}/Regulations`);
+        }
 
         // Surgical generation: only AI-regenerate concept pages that changed (or
         // are linked to a changed case). On a first full run the diff covers
@@ -247,17 +282,19 @@ export async function runStep4(
             );
         }
 
-        // Total: concepts (incl. dashboards) + cases + matrix + outline
+        // Total: concepts (incl. dashboards) + cases + statutes + matrix + outline
         const totalSteps =
             conceptsToGenerate.length +
             entities.cases.length +
+            statutes.length +
             2; // matrix + outline
         let completedSteps = 0;
 
         // 1. Start outline generation early — it only needs entities, not generated pages.
         //    Runs concurrently with concept generation below.
-        const outlinePromise = generateOutlinePage(client, settings, entities)
+        const outlinePromise = generateOutlinePage(outlineClient, settings, entities)
             .then(async (outlineContent) => {
+                pageProviders["Outline"] = servedByLabel(outlineClient, outlineSettings);
                 const outlinePath = `${outputFolder}/Outline.md`;
                 await createOrUpdateOrAppend(
                     app.vault,
@@ -304,18 +341,37 @@ export async function runStep4(
         const { errors: conceptErrors } = await parallelMap<LegalConcept, void>(
             conceptsToGenerate,
             async (concept) => {
+                // Cancel stops the step: pages not yet started are skipped, in-flight ones aborted.
+                if (progressModal.isCancelled()) throw new Error("Request aborted by user");
+                const pageClient = clientSession(client);
                 const { conceptPage, dashboardPage } = await generateCombinedPage(
-                    client,
+                    pageClient,
                     settings,
                     concept,
                     entities,
                     matrix,
                     sourceFiles
                 );
-
-                // Append semantic "related concepts" links (deterministic, no hallucination).
+                const producedBy = servedByLabel(pageClient, pageSettings);
+                pageProviders[concept.name] = producedBy;
+                pageProviders[`${concept.name} Dashboard`] = producedBy;
+
+                // Breadcrumbs up the concept hierarchy go right under the frontmatter.
+                const breadcrumbs = renderBreadcrumbs(concept, entities.concepts);
+                const [frontmatter, body] = splitFrontmatter(conceptPage);
+                const pageWithCrumbs = breadcrumbs ? `${frontmatter}${breadcrumbs}\n\n${body}` : conceptPage;
+
+                // Append the unverified-evidence warning, sub-doctrines, doctrinal
+                // relationships, lecture timestamps, statutory provisions and
+                // semantic "related concepts" links (deterministic, no hallucination).
                 const conceptPageContent =
-                    conceptPage + renderRelatedSection(relatedMap.get(concept.id));
+                    pageWithCrumbs +
+                    renderUnverifiedCallout(concept) +
+                    renderSubDoctrinesSection(concept, entities.concepts) +
+                    renderDoctrineLinksSection(concept.id, entities, matrix) +
+                    renderLectureSection(concept.sourceReferences) +
+                    renderStatuteSection(concept.id, entities, matrix) +
+                    renderRelatedSection(relatedMap.get(concept.id));
 
                 // Write concept page (search sibling courses for existing page)
                 const conceptPath = `${outputFolder}/Concepts/${sanitizeFilename(concept.name)}.md`;
@@ -359,10 +415,14 @@ export async function runStep4(
                 progressModal.setProgress((completedSteps / totalSteps) * 100);
             },
             (_idx, concept, error) => {
-                progressModal.addError(`[${concept.name}] ${error.message}`);
+                // Past a declined budget prompt every remaining page fails the same way: report it once below.
+                if (!budget?.stopped) progressModal.addError(`[${concept.name}] ${error.message}`);
             }
         );
 
+        if (progressModal.isCancelled()) throw new Error("Generation cancelled by user. (已取消)");
+        if (budget?.stopped) throw new BudgetExceededError(budget.limitUSD);
+
         // Collect failure names for summary
         for (const { index, error } of conceptErrors) {
             const name = conceptsToGenerate[index].name;
@@ -394,6 +454,30 @@ export async function runStep4(
             generatedFiles.push(path);
         }
 
+        // 3b. Generate statute pages from extracted statutes (local, no AI needed)
+        for (const statute of statutes) {
+            completedSteps++;
+            progressModal.setStep(
+                `Step 4/4: Generating statute page: ${statute.citation}`
+            );
+            progressModal.setProgress((completedSteps / totalSteps) * 100);
+
+            const content = generateStatutePageLocal(statute, entities, matrix);
+            const path = `${outputFolder}/Regulations/${sanitizeFilename(statute.citation)}.md`;
+            await createOrUpdateOrAppend(
+                app.vault,
+                path,
+                content,
+                settings.appendToExisting,
+                statute.citation,
+                outputFolder,
+                sourceFiles,
+                settings.outputFolder,
+                courseName
+            );
+            generatedFiles.push(path);
+        }
+
         // 4. Generate relationship matrix (local, always overwrite)
         completedSteps++;
         progressModal.setStep(
@@ -442,7 +526,10 @@ export async function runStep4(
         await outlinePromise;
 
         // 5. Create regulation/statute pages from wikilinks found in generated content
-        const statuteLinks = extractStatuteLinks(allGeneratedContent);
+        //    (provisions already extracted as statutes have a full page above)
+        const extractedStatutes = new Set(statutes.map((st) => statuteKey(st.citation)));
+        const statuteLinks = extractStatuteLinks(allGeneratedContent)
+            .filter((link) => !extractedStatutes.has(statuteKey(link)));
         if (statuteLinks.length > 0) {
             await createRegulationPages(
                 app, settings, statuteLinks, outputFolder, progressModal
@@ -475,9 +562,18 @@ export async function runStep4(
             await app.workspace.getLeaf().openFile(outlineFile);
         }
 
-        if (usage) usage.tokens += client.getTotalTokensUsed();
+        entities.metadata.pageProviders = pageProviders;
+        recordUsage();
+        await cache?.flush();
+        await ledger?.flush();
         return generatedFiles;
     } catch (error) {
+        if (progressModal.isCancelled()) {
+            recordUsage();
+            await cache?.flush();
+            await ledger?.flush();
+            return null;
+        }
         const errMsg = error instanceof Error ? error.message : String(error);
         progressModal.addError(`Generation failed:\n${errMsg}`);
         progressModal.showStopped("Generation Failed (生成失败)");
@@ -486,7 +582,12 @@ export async function runStep4(
             const origClose = progressModal.onClose.bind(progressModal);
             progressModal.onClose = () => { origClose(); resolve(); };
         });
-        if (usage) usage.tokens += client.getTotalTokensUsed();
+        entities.metadata.pageProviders = pageProviders;
+        recordUsage();
+        await cache?.flush();
+        await ledger?.flush();
+        // Stopped at the budget prompt: pages are missing, so the run must not be saved as processed.
+        if (budget?.stopped || error instanceof BudgetExceededError) return null;
         return generatedFiles;
     }
 }
@@ -1,6 +1,6 @@
 import { ItemView, MarkdownRenderer, TFolder, WorkspaceLeaf, setIcon } from "obsidian";
 import type LawNoteRestructurerPlugin from "../main";
-import type { AskMode, ChatTurn } from "./rag-core";
+import type { AskMode, ChatTurn, RetrievalFilter } from "./rag-core";
 
 const MODES: { value: AskMode; label: string; placeholder: string }[] = [
     { value: "qa", label: "Q&A", placeholder: "Ask about your notes…  (⌘/Ctrl+Enter)" },
@@ -10,16 +10,37 @@ const MODES: { value: AskMode; label: string; placeholder: string }[] = [
     { value: "compare", label: "US ↔ China", placeholder: "Concept to compare across US & Chinese law…" },
 ];
 
+/** Page-kind filter choices; "own" means the student's notes rather than a tag. */
+const KINDS: { value: string; label: string }[] = [
+    { value: "", label: "All pages" },
+    { value: "concept", label: "Concepts" },
+    { value: "case", label: "Cases" },
+    { value: "statute", label: "Statutes" },
+    { value: "outline", label: "Outlines" },
+    { value: "own", label: "My own notes" },
+];
+
+/** Date filter choices, in days back from today (0 = any date). */
+const SINCE: { days: number; label: string }[] = [
+    { days: 0, label: "Any date" },
+    { days: 7, label: "Past week" },
+    { days: 30, label: "Past month" },
+    { days: 365, label: "Past year" },
+];
+
 export const ASK_VIEW_TYPE = "law-note-ask-view";
 
 /**
  * Persistent right-sidebar chat panel for "Ask My Notes". Themed with Obsidian
  * CSS variables (see styles.css), markdown-rendered answers with clickable
- * source chips, a folder-scope selector, and multi-turn history.
+ * source chips, a folder-scope selector, page-kind / date filters, and
+ * multi-turn history.
  */
 export class AskView extends ItemView {
     private plugin: LawNoteRestructurerPlugin;
     private historyEl!: HTMLElement;
+    private kind = "";
+    private sinceDays = 0;
 
     constructor(leaf: WorkspaceLeaf, plugin: LawNoteRestructurerPlugin) {
         super(leaf);
@@ -47,6 +68,17 @@ export class AskView extends ItemView {
         return opts;
     }
 
+    /** Retrieval filter for the chosen page kind and date range. */
+    private filter(): RetrievalFilter {
+        const filter: RetrievalFilter = {};
+        if (this.kind === "own") filter.generated = false;
+        else if (this.kind) filter.kinds = [this.kind];
+        if (this.sinceDays > 0) {
+            filter.since = new Date(Date.now() - this.sinceDays * 86_400_000).toISOString().slice(0, 10);
+        }
+        return filter;
+    }
+
     private addUserBubble(text: string): void {
         const turn = this.historyEl.createDiv({ cls: "lnr-chat-turn lnr-chat-user" });
         turn.createDiv({ cls: "lnr-chat-bubble", text });
@@ -67,9 +99,11 @@ export class AskView extends ItemView {
 
         if (turn.sources && turn.sources.length > 0) {
             const src = wrap.createDiv({ cls: "lnr-chat-sources" });
-            for (const title of turn.sources) {
-                const chip = src.createEl("a", { cls: "lnr-chip", text: title });
-                chip.addEventListener("click", () => this.plugin.openNoteByTitle(title));
+            for (const link of turn.sources) {
+                // Chips read "Note › Heading" (a block ID shows as just the note); clicking jumps there.
+                const text = link.replace(/#\^.*$/, "").replace(/#/g, " › ");
+                const chip = src.createEl("a", { cls: "lnr-chip", text, attr: { title: link } });
+                chip.addEventListener("click", () => this.plugin.openNoteByTitle(link));
             }
         }
     }
@@ -148,6 +182,27 @@ export class AskView extends ItemView {
             this.plugin.resetIndexCache();
         });
 
+        // Page kind + date filters (narrow retrieval; the index itself is unchanged)
+        const kindSelect = controls.createEl("select", { cls: "dropdown" });
+        for (const k of KINDS) {
+            const opt = kindSelect.createEl("option", { text: k.label });
+            opt.value = k.value;
+        }
+        kindSelect.value = this.kind;
+        kindSelect.addEventListener("change", () => {
+            this.kind = kindSelect.value;
+        });
+
+        const sinceSelect = controls.createEl("select", { cls: "dropdown" });
+        for (const d of SINCE) {
+            const opt = sinceSelect.createEl("option", { text: d.label });
+            opt.value = String(d.days);
+        }
+        sinceSelect.value = String(this.sinceDays);
+        sinceSelect.addEventListener("change", () => {
+            this.sinceDays = Number(sinceSelect.value);
+        });
+
         // Conversation
         this.historyEl = c.createDiv({ cls: "lnr-chat-history" });
         await this.renderHistory();
@@ -202,7 +257,8 @@ export class AskView extends ItemView {
                 const turn = await this.plugin.askQuestion(
                     question,
                     modeSelect.value as AskMode,
-                    onChunk
+                    onChunk,
+                    this.filter()
                 );
                 await this.fillAssistant(wrap, bubble, turn);
             } catch (error) {
@@ -0,0 +1,82 @@
+import type { ScoredChunk } from "./rag-core";
+
+/**
+ * BM25 keyword retrieval for Ask My Notes. Embeddings find chunks that mean
+ * the same thing; BM25 finds the chunk that literally says "§ 752(b)" or
+ * "Commissioner v. Culbertson", which vector search often ranks too low.
+ * Pure functions — the inverted index is plain JSON stored in the `RagIndex`.
+ */
+
+/** Scripts written without spaces; their runs are split into overlapping bigrams. */
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+/** A CJK run, or a word / number with optional statute subsections ("752(b)(1)"). */
+const TOKEN_RE = new RegExp(`[${CJK}]+|[^\\s\\p{P}\\p{S}${CJK}]+(?:\\([a-z0-9]+\\))*`, "gu");
+const CJK_START_RE = new RegExp(`^[${CJK}]`, "u");
+
+/** Term-frequency saturation and length normalisation (the usual BM25 defaults). */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercased search terms of `text`. Latin words and numbers are whole terms;
+ * a number with subsections also yields its bare section ("752(b)" → "752(b)",
+ * "752"). Chinese / Japanese / Korean runs become character bigrams
+ * ("合伙企业" → "合伙", "伙企", "企业"), so no dictionary is needed.
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    for (const match of text.normalize("NFKC").toLowerCase().match(TOKEN_RE) ?? []) {
+        if (CJK_START_RE.test(match)) {
+            const chars = Array.from(match);
+            if (chars.length === 1) terms.push(match);
+            for (let i = 0; i + 1 < chars.length; i++) terms.push(chars[i] + chars[i + 1]);
+            continue;
+        }
+        terms.push(match);
+        const paren = match.indexOf("(");
+        if (paren > 0) terms.push(match.slice(0, paren));
+    }
+    return terms;
+}
+
+/** Inverted index over the chunks of a `RagIndex`, numbered in index order. */
+export interface LexicalIndex {
+    /** Term count of each chunk. */
+    lengths: number[];
+    /** Term → `[chunk number, term frequency]` for every chunk containing it. */
+    postings: Record<string, [number, number][]>;
+}
+
+export function buildLexicalIndex(texts: string[]): LexicalIndex {
+    // Null prototype: a note may well contain the word "constructor".
+    const postings = Object.create(null) as Record<string, [number, number][]>;
+    const lengths = texts.map((text, chunk) => {
+        const terms = tokenize(text);
+        const counts = new Map<string, number>();
+        for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+        counts.forEach((tf, term) => (postings[term] ??= []).push([chunk, tf]));
+        return terms.length;
+    });
+    return { lengths, postings };
+}
+
+/** The `topK` chunks scoring highest for `query` under BM25, best first; chunks sharing no term are dropped. */
+export function rankByBm25(index: LexicalIndex, query: string, topK: number): ScoredChunk[] {
+    const n = index.lengths.length;
+    if (n === 0) return [];
+    const avgLength = index.lengths.reduce((sum, l) => sum + l, 0) / n || 1;
+    const scores = new Map<number, number>();
+    for (const term of new Set(tokenize(query))) {
+        if (!Object.prototype.hasOwnProperty.call(index.postings, term)) continue;
+        const postings = index.postings[term];
+        const idf = Math.log(1 + (n - postings.length + 0.5) / (postings.length + 0.5));
+        for (const [chunk, tf] of postings) {
+            const norm = tf + K1 * (1 - B + (B * index.lengths[chunk]) / avgLength);
+            scores.set(chunk, (scores.get(chunk) ?? 0) + (idf * tf * (K1 + 1)) / norm);
+        }
+    }
+    const scored: ScoredChunk[] = [];
+    scores.forEach((score, index) => scored.push({ index, score }));
+    scored.sort((a, b) => b.score - a.score || a.index - b.index);
+    return scored.slice(0, topK);
+}
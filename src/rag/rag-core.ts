@@ -7,10 +7,50 @@ export interface IndexedChunk {
     title: string;
     /** The chunk's text. */
     text: string;
+    /** Headings above the chunk, outermost first (absent in indexes built before heading-aware chunking). */
+    headings?: string[];
+    /** Link subpath citing the chunk: a heading or "^block-id" (absent = the note itself). */
+    anchor?: string;
+    /** What the chunk is from, for retrieval filters (absent in indexes built before filters). */
+    meta?: ChunkMetadata;
+}
+
+export interface ChunkMetadata {
+    /** Course folder the note is in ("" = the output folder itself, or outside it). */
+    course: string;
+    /** Page kind from the first `law/<kind>` tag ("concept", "case", …); "note" when untagged. */
+    kind: string;
+    /**
+     * Written by the pipeline rather than by the student: `generated-by` or a
+     * `law/` tag in frontmatter (model-written pages carry only the tag), or
+     * step 4's source section markers.
+     */
+    generated: boolean;
+    /** Source documents the chunk's section was generated from ([] for the student's own text). */
+    sources: string[];
+    /** Frontmatter `date:` (YYYY-MM-DD), else the day the file was last modified. */
+    date: string;
+}
+
+/** Narrows Ask My Notes retrieval; every field left out matches everything. */
+export interface RetrievalFilter {
+    /** Only these courses ("" = the output folder itself). */
+    courses?: string[];
+    /** Only these page kinds, e.g. ["case"]; "note" selects untagged notes. */
+    kinds?: string[];
+    /** true = only generated pages, false = only the student's own notes. */
+    generated?: boolean;
+    /** Only chunks generated from a source document whose name contains this (case-insensitive). */
+    source?: string;
+    /** Only chunks dated on or after this YYYY-MM-DD. */
+    since?: string;
+    /** Only chunks dated on or before this YYYY-MM-DD. */
+    until?: string;
 }
 
 export interface ChunkEmbedding extends IndexedChunk {
-    embedding: number[];
+    /** A plain array when freshly embedded, a `Float32Array` when read from the vector file. */
+    embedding: ArrayLike<number>;
 }
 
 const FRONTMATTER_RE = /^---\n[\s\S]*?\n---\n?/;
@@ -46,33 +86,167 @@ export function isIndexableNote(content: string): boolean {
     return stripFrontmatter(content).length >= MIN_INDEX_CHARS;
 }
 
+const TAG_KIND_RE = /\blaw\/([\w-]+)/;
+const DATE_FIELD_RE = /^date:\s*["']?(\d{4}-\d{2}-\d{2})/m;
+/** The markers step 4 wraps each source's section of a generated page in. */
+const SOURCE_SECTION_RE = /<!-- law-restructurer-begin: (.*?) -->[\s\S]*?<!-- law-restructurer-end -->/;
+
+/**
+ * Metadata of a note's chunks, read from its frontmatter. `course` comes from
+ * the caller (it depends on where courses live); `mtime` dates undated notes.
+ * `sources` is left empty here — it is per chunk, see `chunkSources`.
+ */
+export function noteMetadata(content: string, course: string, mtime: number): ChunkMetadata {
+    const fm = content.match(/^---\n([\s\S]*?)\n---/)?.[1] ?? "";
+    return {
+        course,
+        kind: fm.match(TAG_KIND_RE)?.[1] ?? "note",
+        generated: /^generated-by:/m.test(fm) || TAG_KIND_RE.test(fm) || SOURCE_SECTION_RE.test(content),
+        sources: [],
+        date: fm.match(DATE_FIELD_RE)?.[1] ?? new Date(mtime).toISOString().slice(0, 10),
+    };
+}
+
+/** Source documents of the generated section of `content` that `chunkText` starts in ([] outside any). */
+export function chunkSources(content: string, chunkText: string): string[] {
+    const at = content.indexOf(chunkText.split("\n\n")[0]);
+    if (at < 0) return [];
+    const re = new RegExp(SOURCE_SECTION_RE.source, "g");
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(content)) !== null) {
+        if (at >= m.index && at < m.index + m[0].length) return m[1].split(",").map((s) => s.trim());
+    }
+    return [];
+}
+
+/** Does the chunk pass `filter`? Chunks indexed without metadata count as undated own notes. */
+export function matchesFilter(chunk: IndexedChunk, filter: RetrievalFilter): boolean {
+    const meta = chunk.meta ?? { course: "", kind: "note", generated: false, sources: [], date: "" };
+    if (filter.courses && !filter.courses.includes(meta.course)) return false;
+    if (filter.kinds && !filter.kinds.includes(meta.kind)) return false;
+    if (filter.generated !== undefined && meta.generated !== filter.generated) return false;
+    if (filter.source) {
+        const needle = filter.source.toLowerCase();
+        if (!meta.sources.some((s) => s.toLowerCase().includes(needle))) return false;
+    }
+    if (filter.since && !(meta.date >= filter.since)) return false;
+    if (filter.until && !(meta.date && meta.date <= filter.until)) return false;
+    return true;
+}
+
+/** One retrievable piece of a note, before it is tied to a file. */
+export interface MarkdownChunk {
+    text: string;
+    /** Headings above the chunk, outermost first ([] = before the first heading). */
+    headings: string[];
+    /** Link subpath the chunk starts at: a heading or "^block-id" (absent = top of the note). */
+    anchor?: string;
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+/** An Obsidian block ID ending a line: "… text ^rule-1". */
+const BLOCK_ID_RE = /\s\^([A-Za-z0-9-]+)\s*$/m;
+
+/**
+ * A heading as Obsidian writes it in a link subpath: wikilink brackets
+ * unwrapped and the characters links cannot contain (# | ^ : %% [ ]) blanked.
+ */
+export function headingAnchor(heading: string): string {
+    return heading
+        .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, alias?: string) => alias ?? target)
+        .replace(/[#|^:%[\]]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+interface Section {
+    headings: string[];
+    lines: string[];
+}
+
+/** Split a note body into runs of lines under the same heading path; `#` inside code fences is not a heading. */
+function splitSections(text: string): Section[] {
+    const sections: Section[] = [{ headings: [], lines: [] }];
+    const stack: { level: number; text: string }[] = [];
+    let fenced = false;
+    for (const line of text.split("\n")) {
+        if (FENCE_RE.test(line)) fenced = !fenced;
+        const heading = fenced ? null : line.match(HEADING_RE);
+        if (!heading) {
+            sections[sections.length - 1].lines.push(line);
+            continue;
+        }
+        const level = heading[1].length;
+        while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+        stack.push({ level, text: heading[2] });
+        sections.push({ headings: stack.map((h) => h.text), lines: [] });
+    }
+    return sections;
+}
+
 /**
- * Split markdown into chunks of at most ~`maxChars`, breaking on paragraph
- * boundaries so chunks stay semantically coherent. Frontmatter is dropped.
+ * Split markdown into chunks of at most ~`maxChars`, following the heading
+ * hierarchy: a chunk never spans two sections, and within a section breaks on
+ * paragraph boundaries so chunks stay semantically coherent. Each chunk keeps
+ * its heading path and the anchor a citation should jump to — the block ID of
+ * its first paragraph if it has one, else its heading (the whole heading path
+ * when the heading text repeats in the note). Frontmatter is dropped.
  */
-export function chunkMarkdown(md: string, maxChars = 1500): string[] {
+export function chunkMarkdown(md: string, maxChars = 1500): MarkdownChunk[] {
     const text = stripFrontmatter(md);
     if (!text) return [];
 
-    const paragraphs = text
-        .split(/\n{2,}/)
-        .map((p) => p.trim())
-        .filter(Boolean);
-
-    const chunks: string[] = [];
-    let current = "";
-    for (const p of paragraphs) {
-        if (current && current.length + p.length + 2 > maxChars) {
-            chunks.push(current);
-            current = p;
-        } else {
-            current = current ? `${current}\n\n${p}` : p;
+    const sections = splitSections(text);
+    const headingCounts = new Map<string, number>();
+    for (const { headings } of sections) {
+        if (!headings.length) continue;
+        const own = headingAnchor(headings[headings.length - 1]);
+        headingCounts.set(own, (headingCounts.get(own) ?? 0) + 1);
+    }
+
+    const chunks: MarkdownChunk[] = [];
+    for (const { headings, lines } of sections) {
+        const paragraphs = lines
+            .join("\n")
+            .split(/\n{2,}/)
+            .map((p) => p.trim())
+            .filter(Boolean);
+        const deepest = headings.length ? headingAnchor(headings[headings.length - 1]) : "";
+        const headingLink =
+            (headingCounts.get(deepest) ?? 0) > 1 ? headings.map(headingAnchor).join("#") : deepest || undefined;
+        const push = (body: string, first: string) => {
+            const blockId = first.match(BLOCK_ID_RE)?.[1];
+            chunks.push({ text: body, headings, anchor: blockId ? `^${blockId}` : headingLink });
+        };
+
+        let current = "";
+        let first = "";
+        for (const p of paragraphs) {
+            if (current && current.length + p.length + 2 > maxChars) {
+                push(current, first);
+                current = p;
+                first = p;
+            } else {
+                if (!current) first = p;
+                current = current ? `${current}\n\n${p}` : p;
+            }
         }
+        if (current) push(current, first);
     }
-    if (current) chunks.push(current);
     return chunks;
 }
 
+/** The chunk as the model and the search indexes see it: heading path, then text. */
+export function chunkContext(chunk: IndexedChunk): string {
+    return chunk.headings?.length ? `${chunk.headings.join(" › ")}\n${chunk.text}` : chunk.text;
+}
+
+/** Wikilink target citing a chunk: "Note#Heading", "Note#^block-id", or just "Note". */
+export function sourceLink(chunk: IndexedChunk): string {
+    return chunk.anchor ? `${chunk.title}#${chunk.anchor}` : chunk.title;
+}
+
 export interface ScoredChunk {
     index: number;
     score: number;
@@ -81,7 +255,7 @@ export interface ScoredChunk {
 /** Indices of the `topK` embeddings most similar to `query`, best first. */
 export function rankBySimilarity(
     query: number[],
-    embeddings: number[][],
+    embeddings: ArrayLike<number>[],
     topK: number
 ): ScoredChunk[] {
     const scored: ScoredChunk[] = embeddings.map((e, index) => ({
@@ -92,6 +266,73 @@ export function rankBySimilarity(
     return scored.slice(0, topK).filter((s) => s.score > 0);
 }
 
+/** Damping constant of reciprocal rank fusion; 60 is the value from the original paper. */
+const RRF_K = 60;
+
+/**
+ * Merge several rankings of the same chunks by weighted reciprocal rank
+ * fusion: a chunk scores `weight / (RRF_K + rank)` in each ranking it appears
+ * in. Only ranks matter, so cosine similarities and BM25 scores need no
+ * common scale. Returns the `topK` fused chunks, best first.
+ */
+export function fuseRankings(
+    rankings: { ranked: ScoredChunk[]; weight: number }[],
+    topK: number
+): ScoredChunk[] {
+    const scores = new Map<number, number>();
+    for (const { ranked, weight } of rankings) {
+        if (weight <= 0) continue;
+        ranked.forEach((r, rank) => {
+            scores.set(r.index, (scores.get(r.index) ?? 0) + weight / (RRF_K + rank + 1));
+        });
+    }
+    const fused: ScoredChunk[] = [];
+    scores.forEach((score, index) => fused.push({ index, score }));
+    fused.sort((a, b) => b.score - a.score || a.index - b.index);
+    return fused.slice(0, topK);
+}
+
+/**
+ * Maximal marginal relevance: pick `topK` of the `candidates` (best first),
+ * each time taking the chunk that best trades relevance against redundancy
+ * with what is already picked — `lambda · relevance − (1 − lambda) · redundancy`.
+ * Redundancy is the highest cosine similarity to a picked chunk, and at least
+ * `sameNote` for a chunk from an already-picked note, so the context does not
+ * fill up with one concept page and its near-identical dashboard.
+ */
+export function selectDiverse(
+    candidates: ScoredChunk[],
+    chunks: ChunkEmbedding[],
+    topK: number,
+    lambda = 0.7,
+    sameNote = 0.5
+): ScoredChunk[] {
+    const top = candidates[0]?.score ?? 0;
+    // Scores from different stages live on different scales; compare them relative to the best.
+    const pool = candidates.map((c) => ({ ...c, relevance: top > 0 ? c.score / top : 0 }));
+    const picked: ScoredChunk[] = [];
+    while (picked.length < topK && pool.length > 0) {
+        let best = 0;
+        let bestValue = -Infinity;
+        pool.forEach((c, i) => {
+            let redundancy = 0;
+            for (const p of picked) {
+                const similarity = cosineSimilarity(chunks[c.index].embedding, chunks[p.index].embedding);
+                const note = chunks[c.index].path === chunks[p.index].path ? sameNote : 0;
+                redundancy = Math.max(redundancy, similarity, note);
+            }
+            const value = lambda * c.relevance - (1 - lambda) * redundancy;
+            if (value > bestValue) {
+                bestValue = value;
+                best = i;
+            }
+        });
+        const [chosen] = pool.splice(best, 1);
+        picked.push({ index: chosen.index, score: chosen.score });
+    }
+    return picked;
+}
+
 /** One turn of conversation, used for multi-turn follow-ups. */
 export interface ChatTurn {
     question: string;
@@ -117,7 +358,8 @@ const LENGTH_TEXT: Record<AskLength, string> = {
 // are thin — and always answer in the student's language.
 const COMMON_POLICY = `You are a legal study assistant helping a law student.
 
-- Use the student's NOTES below as your primary source, and cite them as [[Source Title]].
+- Use the student's NOTES below as your primary source, and cite each with the exact
+  [[Source]] link shown above it, including any #section part.
 - If the notes don't fully answer, DO still help: add well-established general legal
   knowledge, but clearly mark those additions as "(general knowledge — not in your notes)".
   Never reply with only "the notes don't contain the answer" if you can otherwise help.
@@ -153,7 +395,7 @@ export function buildPrompt(
     length: AskLength = "standard"
 ): string {
     const notes = contexts
-        .map((c, i) => `[${i + 1}] (Source: [[${c.title}]])\n${c.text}`)
+        .map((c, i) => `[${i + 1}] (Source: [[${sourceLink(c)}]])\n${chunkContext(c)}`)
         .join("\n\n");
 
     // Include the last few turns so follow-ups have context.
@@ -189,7 +431,7 @@ export function buildRagPrompt(
     return buildPrompt("qa", question, contexts, history);
 }
 
-/** Distinct source titles across the retrieved chunks, preserving order. */
+/** Distinct source links ("Note#Heading", "Note#^id" or "Note") across the retrieved chunks, preserving order. */
 export function uniqueSources(contexts: IndexedChunk[]): string[] {
-    return [...new Set(contexts.map((c) => c.title))];
+    return [...new Set(contexts.map(sourceLink))];
 }
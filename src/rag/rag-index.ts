@@ -1,22 +1,45 @@
 import type { Vault } from "obsidian";
 import type { LLMClient } from "../ai/llm-provider";
 import type { Embedder } from "../ai/embedder";
+import { rerankChunks } from "./rerank";
+import type { VectorEncoding } from "../types";
+import { buildLexicalIndex, rankByBm25, type LexicalIndex } from "./bm25";
+import { packVectors, unpackVectors, vectorChecksum } from "./vector-pack";
 import {
     buildPrompt,
+    chunkContext,
     chunkMarkdown,
+    chunkSources,
+    fuseRankings,
     isIndexableNote,
+    matchesFilter,
+    noteMetadata,
     rankBySimilarity,
+    selectDiverse,
     uniqueSources,
     type AskLength,
     type AskMode,
     type ChatTurn,
     type ChunkEmbedding,
+    type IndexedChunk,
+    type RetrievalFilter,
+    type ScoredChunk,
 } from "./rag-core";
 
 const EMBED_BATCH = 96;
 /** Small pause between embedding batches to stay under rate limits. */
 const BATCH_PAUSE_MS = 300;
 
+/**
+ * Version of the chunking scheme. Bumped whenever chunk boundaries, the text
+ * that gets embedded or what a chunk records change, so saved indexes are
+ * rebuilt rather than mixed.
+ */
+const CHUNKING = 4;
+
+/** Retrieval over-fetches this many times `topK` candidates for reranking and diversification. */
+const FUSION_DEPTH = 4;
+
 const sleep = (ms: number): Promise<void> => new Promise((r) => setTimeout(r, ms));
 
 /** One source file's last-modified time plus its embedded chunks. */
@@ -29,8 +52,23 @@ export interface RagIndex {
     builtAt: string;
     /** Embedder identity (provider:model); a mismatch forces a full rebuild. */
     signature: string;
+    /** Chunking scheme the index was built with (absent = paragraph-only chunks); a mismatch forces a full rebuild. */
+    chunking?: number;
     /** Keyed by vault path so unchanged files can be reused across rebuilds. */
     files: Record<string, FileEntry>;
+    /**
+     * BM25 index over every chunk, numbered in `files` order. Rebuilt from the
+     * chunk texts on every build (cheap next to embedding); absent in indexes
+     * saved before keyword search, which get one built when queried.
+     */
+    lexical?: LexicalIndex;
+    /**
+     * Where a saved index keeps its embeddings: a packed binary file next to
+     * the JSON manifest, one row per chunk in `files` order, and the file's
+     * checksum. Absent in indexes saved before the vector file, whose chunks
+     * carry their embeddings inline.
+     */
+    vectors?: { file: string; encoding: VectorEncoding; count: number; checksum: number };
 }
 
 export interface RagAnswer {
@@ -38,6 +76,18 @@ export interface RagAnswer {
     sources: string[];
 }
 
+/** Deferred reads of the vector file of indexes returned by `loadIndex`. */
+const pendingVectors = new WeakMap<RagIndex, () => Promise<void>>();
+
+/**
+ * Give every chunk of an index loaded from disk its embedding, reading the
+ * vector file on first use (later calls share that read). A no-op for indexes
+ * built in memory. Rejects if the vector file is missing or does not match.
+ */
+export async function loadVectors(index: RagIndex): Promise<void> {
+    await pendingVectors.get(index)?.();
+}
+
 function allChunks(index: RagIndex): ChunkEmbedding[] {
     return Object.values(index.files).flatMap((f) => f.chunks);
 }
@@ -51,6 +101,10 @@ export function indexChunkCount(index: RagIndex): number {
  * `folderPrefix`. When `existing` is passed, files whose mtime is unchanged
  * keep their existing embeddings; only new/modified files are re-embedded, and
  * deleted files drop out. Pass `existing = null` to force a full rebuild.
+ * When no file was added, changed or deleted, `existing` itself is returned
+ * (keyword index included), so callers can skip saving it.
+ * Each chunk records its note's metadata for retrieval filters; `courseOf`
+ * names the course a note path belongs to.
  */
 export async function buildIndex(
     vault: Vault,
@@ -58,14 +112,24 @@ export async function buildIndex(
     folderPrefix: string,
     signature: string,
     existing?: RagIndex | null,
-    onProgress?: (done: number, total: number) => void
+    onProgress?: (done: number, total: number) => void,
+    courseOf: (path: string) => string = () => ""
 ): Promise<RagIndex> {
-    // Only reuse a prior index built with the same embedder (same vector space).
-    const prior = existing && existing.signature === signature ? existing : null;
+    // Only reuse a prior index built with the same embedder (same vector space)
+    // and the same chunking, and whose vectors can still be read.
+    let prior = existing && existing.signature === signature && existing.chunking === CHUNKING ? existing : null;
+    if (prior) {
+        try {
+            await loadVectors(prior);
+        } catch (error) {
+            console.warn("[law-restructurer] Notes index vectors unreadable; rebuilding the index.", error);
+            prior = null;
+        }
+    }
     const files = vault.getMarkdownFiles().filter((f) => f.path.startsWith(folderPrefix));
 
     const result: Record<string, FileEntry> = {};
-    const pending: { path: string; title: string; text: string }[] = [];
+    const pending: IndexedChunk[] = [];
 
     for (const file of files) {
         const mtime = file.stat.mtime;
@@ -78,14 +142,17 @@ export async function buildIndex(
         // Skip stub / reference pages so they don't dilute retrieval.
         if (!isIndexableNote(content)) continue;
         result[file.path] = { mtime, chunks: [] };
-        for (const text of chunkMarkdown(content)) {
-            pending.push({ path: file.path, title: file.basename, text });
+        const meta = noteMetadata(content, courseOf(file.path), mtime);
+        for (const chunk of chunkMarkdown(content)) {
+            const sources = chunkSources(content, chunk.text);
+            pending.push({ path: file.path, title: file.basename, ...chunk, meta: { ...meta, sources } });
         }
     }
 
     for (let i = 0; i < pending.length; i += EMBED_BATCH) {
         const batch = pending.slice(i, i + EMBED_BATCH);
-        const embeddings = await embedder.embedTexts(batch.map((c) => c.text));
+        // Embed each chunk with its heading path, which often names the topic the text leaves implicit.
+        const embeddings = await embedder.embedTexts(batch.map(chunkContext));
         batch.forEach((c, j) =>
             result[c.path].chunks.push({ ...c, embedding: embeddings[j] ?? [] })
         );
@@ -93,13 +160,60 @@ export async function buildIndex(
         if (i + EMBED_BATCH < pending.length) await sleep(BATCH_PAUSE_MS);
     }
 
-    return { builtAt: new Date().toISOString(), signature, files: result };
+    if (prior && sameFiles(prior, result)) return prior;
+    const index: RagIndex = { builtAt: new Date().toISOString(), signature, chunking: CHUNKING, files: result };
+    index.lexical = buildLexicalIndex(allChunks(index).map(chunkContext));
+    return index;
+}
+
+/**
+ * True when `files` holds exactly the entries of `prior`, reused as they were
+ * and in the same order (keyword postings number chunks in that order).
+ */
+function sameFiles(prior: RagIndex, files: Record<string, FileEntry>): boolean {
+    const paths = Object.keys(files);
+    const priorPaths = Object.keys(prior.files);
+    return paths.length === priorPaths.length && paths.every((p, i) => p === priorPaths[i] && prior.files[p] === files[p]);
 }
 
-export async function saveIndex(vault: Vault, path: string, index: RagIndex): Promise<void> {
-    await vault.adapter.write(path, JSON.stringify(index));
+/** The vector file of the manifest at `path`: ".rag-index.json" → ".rag-index.vectors.bin". */
+function vectorFileName(path: string): string {
+    return `${path.split("/").pop()!.replace(/\.json$/, "")}.vectors.bin`;
 }
 
+function siblingPath(path: string, name: string): string {
+    const slash = path.lastIndexOf("/");
+    return slash < 0 ? name : `${path.slice(0, slash + 1)}${name}`;
+}
+
+/**
+ * Save the index as a JSON manifest at `path` (chunk texts, metadata, the
+ * keyword index) plus a packed vector file beside it. The manifest records the
+ * vector file's checksum, so if a save is torn between the two writes,
+ * `loadVectors` rejects the pair rather than pairing chunks with stale vectors.
+ */
+export async function saveIndex(
+    vault: Vault,
+    path: string,
+    index: RagIndex,
+    encoding: VectorEncoding = "float32"
+): Promise<void> {
+    await loadVectors(index);
+    const chunks = allChunks(index);
+    const file = vectorFileName(path);
+    const packed = packVectors(chunks.map((c) => c.embedding), encoding);
+    await vault.adapter.writeBinary(siblingPath(path, file), packed);
+    const vectors = { file, encoding, count: chunks.length, checksum: vectorChecksum(packed) };
+    const manifest: RagIndex = { ...index, vectors };
+    const withoutEmbeddings = (key: string, value: unknown) => (key === "embedding" ? undefined : value);
+    await vault.adapter.write(path, JSON.stringify(manifest, withoutEmbeddings));
+}
+
+/**
+ * Load the manifest at `path`. Embeddings are not read yet: `loadVectors`
+ * (called by `buildIndex`, `answerQuestion` and `saveIndex`) reads the vector
+ * file when they are first needed.
+ */
 export async function loadIndex(vault: Vault, path: string): Promise<RagIndex | null> {
     try {
         if (!(await vault.adapter.exists(path))) return null;
@@ -107,16 +221,43 @@ export async function loadIndex(vault: Vault, path: string): Promise<RagIndex |
         // Reject anything that isn't the current { files } shape (e.g. an older
         // format) so it gets rebuilt cleanly.
         if (!parsed || typeof parsed.files !== "object" || parsed.files === null) return null;
+        const vectors = parsed.vectors;
+        if (vectors) {
+            let reading: Promise<void> | null = null;
+            const read = async () => {
+                const buffer = await vault.adapter.readBinary(siblingPath(path, vectors.file));
+                const rows = unpackVectors(buffer);
+                const chunks = allChunks(parsed);
+                if (rows.length !== chunks.length || vectorChecksum(buffer) !== vectors.checksum) {
+                    throw new Error("The notes index vector file does not match its manifest.");
+                }
+                chunks.forEach((c, i) => (c.embedding = rows[i]));
+            };
+            pendingVectors.set(parsed, () => (reading ??= read()));
+        }
         return parsed;
     } catch {
         return null;
     }
 }
 
+/** The index's BM25 index, built on the spot if it predates keyword search or no longer lines up. */
+function lexicalIndexOf(index: RagIndex, chunks: ChunkEmbedding[]): LexicalIndex {
+    const lexical = index.lexical;
+    if (lexical && lexical.lengths.length === chunks.length) return lexical;
+    return buildLexicalIndex(chunks.map(chunkContext));
+}
+
 /**
  * Retrieve the most relevant chunks for `question` and have the model answer.
- * `embedder` embeds the query (must match the index's embedder); `generator`
- * writes the answer.
+ * Chunks are ranked by embedding similarity and by BM25 keyword score, and the
+ * two rankings are fused (reciprocal rank fusion) with `lexicalWeight` on the
+ * keyword side: 0 = vectors only, 1 = keywords only. Only chunks passing
+ * `filter` (course, page kind, own notes vs generated, source, date) are
+ * considered. The fused candidates are over-fetched, optionally rescored by
+ * `reranker`, then narrowed to `topK` by maximal marginal relevance so the
+ * context spans several notes. `embedder` embeds the query (must match the
+ * index's embedder); `generator` writes the answer.
  */
 export async function answerQuestion(
     generator: LLMClient,
@@ -127,7 +268,10 @@ export async function answerQuestion(
     mode: AskMode = "qa",
     topK = 6,
     onChunk?: (text: string, accumulated: string) => void,
-    length: AskLength = "standard"
+    length: AskLength = "standard",
+    lexicalWeight = 0,
+    filter: RetrievalFilter = {},
+    reranker?: LLMClient
 ): Promise<RagAnswer> {
     const chunks = allChunks(index);
     if (chunks.length === 0) {
@@ -137,16 +281,34 @@ export async function answerQuestion(
         };
     }
 
+    await loadVectors(index);
     const [queryVec] = await embedder.embedTexts([question]);
-    const ranked = rankBySimilarity(
+    const depth = topK * FUSION_DEPTH;
+    // Rank everything, then keep the best `depth` chunks that pass the filter.
+    const allowed = (r: ScoredChunk) => matchesFilter(chunks[r.index], filter);
+    const vector = rankBySimilarity(
         queryVec ?? [],
         chunks.map((c) => c.embedding),
-        topK
+        chunks.length
+    )
+        .filter(allowed)
+        .slice(0, depth);
+    const keyword =
+        lexicalWeight > 0
+            ? rankByBm25(lexicalIndexOf(index, chunks), question, chunks.length).filter(allowed).slice(0, depth)
+            : [];
+    let candidates = fuseRankings(
+        [
+            { ranked: vector, weight: 1 - lexicalWeight },
+            { ranked: keyword, weight: lexicalWeight },
+        ],
+        depth
     );
-    const contexts = ranked.map((r) => chunks[r.index]);
+    if (reranker) candidates = await rerankChunks(reranker, question, chunks, candidates);
+    const contexts = selectDiverse(candidates, chunks, topK).map((r) => chunks[r.index]);
 
     if (contexts.length === 0) {
-        return { answer: "No relevant notes found in this folder for that topic.", sources: [] };
+        return { answer: "No relevant notes found in this folder (and filter) for that topic.", sources: [] };
     }
 
     const prompt = buildPrompt(mode, question, contexts, history, length);
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { Type, type Schema } from "@google/genai";
+import type { LLMClient } from "../ai/llm-provider";
+import { chunkContext, type IndexedChunk, type ScoredChunk } from "./rag-core";
+
+/**
+ * Optional second-stage reranking for Ask My Notes: a model reads the question
+ * next to each candidate chunk and scores how well the chunk answers it, the
+ * way a cross-encoder does. Any `LLMClient` can serve — route the "rerank"
+ * step to a small local Ollama model to keep it free and private.
+ */
+
+/** Characters of each candidate shown to the reranker; enough to judge, cheap to send. */
+const PASSAGE_CHARS = 700;
+
+export const RerankSchema = z.object({
+    scores: z.array(z.object({ id: z.number(), score: z.number() })),
+});
+
+export const RerankResponseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        scores: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.INTEGER },
+                    score: { type: Type.NUMBER },
+                },
+                required: ["id", "score"],
+                propertyOrdering: ["id", "score"],
+            },
+        },
+    },
+    required: ["scores"],
+    propertyOrdering: ["scores"],
+};
+
+export function buildRerankPrompt(question: string, passages: IndexedChunk[]): string {
+    const list = passages
+        .map((c, i) => `[${i}] (${c.title})\n${chunkContext(c).slice(0, PASSAGE_CHARS)}`)
+        .join("\n\n");
+    return `You are ranking passages from a law student's notes by how useful each is for answering a question.
+
+Score EVERY passage from 0 (irrelevant) to 10 (directly answers the question). Judge relevance to the
+question only — not writing quality. Return one { "id", "score" } per passage, using the bracketed ids.
+
+# Question
+${question}
+
+# Passages
+${list}`;
+}
+
+/**
+ * Reorder `candidates` (indices into `chunks`) by the model's relevance
+ * scores, best first; candidates the model skipped keep their order after the
+ * scored ones. Scores are rescaled to 0–1 for the diversity stage. If the
+ * model call fails, the candidates are returned unchanged.
+ */
+export async function rerankChunks(
+    client: LLMClient,
+    question: string,
+    chunks: IndexedChunk[],
+    candidates: ScoredChunk[]
+): Promise<ScoredChunk[]> {
+    if (candidates.length < 2) return candidates;
+    let scores: Map<number, number>;
+    try {
+        const result = await client.generateStructured(
+            buildRerankPrompt(question, candidates.map((c) => chunks[c.index])),
+            RerankSchema,
+            RerankResponseSchema
+        );
+        scores = new Map(result.scores.map((s) => [s.id, s.score]));
+    } catch (error) {
+        console.warn("[law-restructurer] Reranking failed; keeping the retrieval order.", error);
+        return candidates;
+    }
+    const scored = candidates
+        .map((c, i) => ({ index: c.index, score: scores.get(i), order: i }))
+        .sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || a.order - b.order);
+    return scored.map((c) => ({ index: c.index, score: Math.max(0, Math.min(10, c.score ?? 0)) / 10 }));
+}
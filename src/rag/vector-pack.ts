@@ -0,0 +1,102 @@
+import type { VectorEncoding } from "../types";
+
+/**
+ * Packed binary storage for the Ask My Notes embeddings, so the index manifest
+ * stays small JSON and a large vault's vectors load with one binary read
+ * instead of parsing hundreds of megabytes of float text.
+ *
+ * Layout (little-endian):
+ *   0  "LNRV" magic
+ *   4  u8 format version (1)
+ *   5  u8 encoding: 0 = float32, 1 = int8
+ *   6  u16 reserved
+ *   8  u32 row count
+ *  12  u32 dimensions
+ *  16  float32: rows × dims values
+ *      int8:    rows float32 scales, then rows × dims int8 values
+ * int8 rows are quantized symmetrically (value ≈ q · scale, scale = max|v| / 127):
+ * a quarter of the size, with cosine rankings that barely move.
+ */
+
+const MAGIC = 0x564e524c; // "LNRV" read as a little-endian u32
+const VERSION = 1;
+const HEADER_BYTES = 16;
+
+/**
+ * Pack equal-length vectors into one buffer. A row of the wrong length (e.g.
+ * an embedding that failed and came back empty) is stored as zeros, which
+ * every similarity treats as "matches nothing".
+ */
+export function packVectors(rows: ArrayLike<number>[], encoding: VectorEncoding): ArrayBuffer {
+    const dims = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    const count = rows.length;
+    const body = encoding === "int8" ? count * 4 + count * dims : count * dims * 4;
+    const buffer = new ArrayBuffer(HEADER_BYTES + body);
+    const header = new DataView(buffer);
+    header.setUint32(0, MAGIC, true);
+    header.setUint8(4, VERSION);
+    header.setUint8(5, encoding === "int8" ? 1 : 0);
+    header.setUint32(8, count, true);
+    header.setUint32(12, dims, true);
+
+    if (encoding === "float32") {
+        const values = new Float32Array(buffer, HEADER_BYTES, count * dims);
+        rows.forEach((row, i) => {
+            if (row.length === dims) values.set(row, i * dims);
+        });
+        return buffer;
+    }
+
+    const scales = new Float32Array(buffer, HEADER_BYTES, count);
+    const values = new Int8Array(buffer, HEADER_BYTES + count * 4, count * dims);
+    rows.forEach((row, i) => {
+        if (row.length !== dims) return;
+        let maxAbs = 0;
+        for (let d = 0; d < dims; d++) maxAbs = Math.max(maxAbs, Math.abs(row[d]));
+        if (maxAbs === 0) return;
+        const scale = maxAbs / 127;
+        scales[i] = scale;
+        for (let d = 0; d < dims; d++) values[i * dims + d] = Math.round(row[d] / scale);
+    });
+    return buffer;
+}
+
+/**
+ * Unpack a buffer written by `packVectors` into one vector per row. float32
+ * rows are views into `buffer` (no copy); int8 rows are dequantized. Throws on
+ * anything that is not a packed vector file.
+ */
+export function unpackVectors(buffer: ArrayBuffer): Float32Array[] {
+    if (buffer.byteLength < HEADER_BYTES) throw new Error("Vector file is truncated.");
+    const header = new DataView(buffer);
+    if (header.getUint32(0, true) !== MAGIC || header.getUint8(4) !== VERSION) {
+        throw new Error("Not a notes-index vector file (or written by a newer version).");
+    }
+    const int8 = header.getUint8(5) === 1;
+    const count = header.getUint32(8, true);
+    const dims = header.getUint32(12, true);
+    const expected = HEADER_BYTES + (int8 ? count * 4 + count * dims : count * dims * 4);
+    if (buffer.byteLength < expected) throw new Error("Vector file is truncated.");
+
+    const rows: Float32Array[] = [];
+    if (!int8) {
+        for (let i = 0; i < count; i++) rows.push(new Float32Array(buffer, HEADER_BYTES + i * dims * 4, dims));
+        return rows;
+    }
+    const scales = new Float32Array(buffer, HEADER_BYTES, count);
+    const values = new Int8Array(buffer, HEADER_BYTES + count * 4, count * dims);
+    for (let i = 0; i < count; i++) {
+        const row = new Float32Array(dims);
+        for (let d = 0; d < dims; d++) row[d] = values[i * dims + d] * scales[i];
+        rows.push(row);
+    }
+    return rows;
+}
+
+/** FNV-1a over the file's bytes; the manifest keeps it to recognise its own vector file. */
+export function vectorChecksum(buffer: ArrayBuffer): number {
+    const bytes = new Uint8Array(buffer);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) hash = Math.imul(hash ^ bytes[i], 0x01000193);
+    return hash >>> 0;
+}
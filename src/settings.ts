@@ -1,7 +1,18 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type LawNoteRestructurerPlugin from "./main";
 import { createEmbedder } from "./ai/embedder";
-import { estimateCostUSD, formatTokens, formatUSD, isLocalGeneration } from "./ai/cost";
+import { formatFallbackChain, generationLabel, parseFallbackChain } from "./ai/fallback-client";
+import { formatProviderBreakdown, formatTokens, formatUSD, isLocalGeneration, providerCostUSD } from "./ai/cost";
+import { MODEL_STEPS, MODEL_STEP_LABELS } from "./ai/step-routing";
+import { courseMonthSpendUSD, monthKey } from "./ai/budget";
+import { formatModelCatalog, parseModelCatalog } from "./ai/model-catalog";
+import {
+    DEFAULT_MODEL_CATALOG,
+    type FixtureMode,
+    type ModelProvider,
+    type StepModelRoute,
+    type VectorEncoding,
+} from "./types";
 
 export class LawNoteSettingTab extends PluginSettingTab {
     plugin: LawNoteRestructurerPlugin;
@@ -41,9 +52,10 @@ export class LawNoteSettingTab extends PluginSettingTab {
                 dropdown
                     .addOption("gemini", "Gemini (cloud)")
                     .addOption("ollama", "Ollama (local)")
+                    .addOption("openai", "OpenAI-compatible (vLLM, LM Studio…)")
                     .setValue(this.plugin.settings.generationProvider)
                     .onChange(async (value) => {
-                        this.plugin.settings.generationProvider = value as "gemini" | "ollama";
+                        this.plugin.settings.generationProvider = value as ModelProvider;
                         await this.plugin.saveSettings();
                         this.display(); // refresh to show the relevant model field
                     })
@@ -64,6 +76,21 @@ export class LawNoteSettingTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                         })
                 );
+        } else if (this.plugin.settings.generationProvider === "openai") {
+            this.addOpenAIServerSettings(containerEl);
+
+            new Setting(containerEl)
+                .setName("Generation model")
+                .setDesc("Model name as the server lists it at /v1/models.")
+                .addText((text) =>
+                    text
+                        .setPlaceholder("Qwen/Qwen2.5-14B-Instruct")
+                        .setValue(this.plugin.settings.openaiModel)
+                        .onChange(async (value) => {
+                            this.plugin.settings.openaiModel = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
         } else {
             new Setting(containerEl)
                 .setName("Ollama generation model")
@@ -99,6 +126,24 @@ export class LawNoteSettingTab extends PluginSettingTab {
             }
         }
 
+        new Setting(containerEl)
+            .setName("Fallback models")
+            .setDesc(
+                "Backups tried in order when the model above hits a rate limit, a server error " +
+                "or a safety block — one `provider:model` per line, e.g. `gemini:gemini-2.5-pro` " +
+                "then `ollama:llama3.1`. Providers: gemini, ollama, openai. Leave empty to disable. (备用模型)"
+            )
+            .addTextArea((text) => {
+                text
+                    .setPlaceholder("gemini:gemini-2.5-pro\nollama:llama3.1")
+                    .setValue(formatFallbackChain(this.plugin.settings.fallbackChain ?? []))
+                    .onChange(async (value) => {
+                        this.plugin.settings.fallbackChain = parseFallbackChain(value);
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 3;
+            });
+
         new Setting(containerEl)
             .setName("Embedding provider")
             .setDesc(
@@ -109,9 +154,10 @@ export class LawNoteSettingTab extends PluginSettingTab {
                 dropdown
                     .addOption("gemini", "Gemini (cloud)")
                     .addOption("ollama", "Ollama (local)")
+                    .addOption("openai", "OpenAI-compatible (vLLM, LM Studio…)")
                     .setValue(this.plugin.settings.embeddingProvider)
                     .onChange(async (value) => {
-                        this.plugin.settings.embeddingProvider = value as "gemini" | "ollama";
+                        this.plugin.settings.embeddingProvider = value as ModelProvider;
                         await this.plugin.saveSettings();
                         this.display(); // refresh to show the relevant fields
                     })
@@ -130,6 +176,45 @@ export class LawNoteSettingTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                         })
                 );
+        } else if (this.plugin.settings.embeddingProvider === "openai") {
+            // The server fields are shared with generation; render them once.
+            if (this.plugin.settings.generationProvider !== "openai") {
+                this.addOpenAIServerSettings(containerEl);
+            }
+
+            new Setting(containerEl)
+                .setName("Embedding model")
+                .setDesc("Embedding model name on the OpenAI-compatible server.")
+                .addText((text) =>
+                    text
+                        .setPlaceholder("BAAI/bge-m3")
+                        .setValue(this.plugin.settings.openaiEmbeddingModel)
+                        .onChange(async (value) => {
+                            this.plugin.settings.openaiEmbeddingModel = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
+
+            new Setting(containerEl)
+                .setName("Test server connection")
+                .setDesc("Embed a short string to confirm the server is reachable and the model works.")
+                .addButton((btn) =>
+                    btn.setButtonText("Test connection").onClick(async () => {
+                        btn.setDisabled(true).setButtonText("Testing…");
+                        try {
+                            const [vec] = await createEmbedder(this.plugin.settings).embedTexts(["test"]);
+                            new Notice(
+                                vec && vec.length
+                                    ? `✓ Server OK — ${vec.length}-dimensional embeddings.`
+                                    : "✗ Server returned an empty embedding."
+                            );
+                        } catch (error) {
+                            new Notice(error instanceof Error ? error.message : String(error));
+                        } finally {
+                            btn.setDisabled(false).setButtonText("Test connection");
+                        }
+                    })
+                );
         } else {
             new Setting(containerEl)
                 .setName("Ollama URL")
@@ -257,19 +342,113 @@ export class LawNoteSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(containerEl)
+            .setName("Bypass response cache")
+            .setDesc(
+                "Model answers are cached per course (_llm-cache.json), so re-running on unchanged " +
+                "notes costs nothing. Turn on to force fresh answers; they still refresh the cache. (跳过缓存)"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.bypassResponseCache)
+                    .onChange(async (value) => {
+                        this.plugin.settings.bypassResponseCache = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Response cache size")
+            .setDesc("Per-course limit in MB; the least recently used answers are evicted first. (缓存上限)")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(5, 500, 5)
+                    .setValue(this.plugin.settings.responseCacheMaxMB)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.responseCacheMaxMB = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         // Cost meter: cumulative tokens billed across every run.
         const lifetime = this.plugin.settings.lifetimeTokensUsed ?? 0;
+        const catalog = this.plugin.settings.modelCatalog ?? DEFAULT_MODEL_CATALOG;
         const costDesc = isLocalGeneration(this.plugin.settings)
             ? `${formatTokens(lifetime)} tokens so far (current provider is local — free).`
             : `${formatTokens(lifetime)} tokens so far · ~${formatUSD(
-                  estimateCostUSD(this.plugin.settings.modelName, lifetime)
+                  providerCostUSD(generationLabel(this.plugin.settings), lifetime, catalog)
               )} (rough estimate).`;
+        const breakdown = formatProviderBreakdown(this.plugin.settings.lifetimeTokensByProvider ?? {}, catalog);
         new Setting(containerEl)
             .setName("Usage so far (cost meter)")
-            .setDesc(costDesc)
+            .setDesc(breakdown ? `${costDesc} By provider: ${breakdown}.` : costDesc)
             .addButton((btn) =>
                 btn.setButtonText("Reset").onClick(async () => {
                     this.plugin.settings.lifetimeTokensUsed = 0;
+                    this.plugin.settings.lifetimeTokensByProvider = {};
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName("Budget per run")
+            .setDesc(
+                "USD limit for one pipeline run, outline or Ask question (0 = no limit). A run about to exceed it pauses " +
+                "and asks whether to continue. (单次预算)"
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("0")
+                    .setValue(String(this.plugin.settings.runBudgetUSD ?? 0))
+                    .onChange(async (value) => {
+                        this.plugin.settings.runBudgetUSD = parseBudget(value);
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        const month = monthKey();
+        const spentThisMonth = Object.keys(this.plugin.settings.courseSpend ?? {})
+            .map((course) => [course, courseMonthSpendUSD(this.plugin.settings, course)] as const)
+            .filter(([, usd]) => usd > 0)
+            .map(([course, usd]) => `${course || "(default folder)"} ~${formatUSD(usd)}`)
+            .join(" · ");
+        new Setting(containerEl)
+            .setName("Monthly budget per course")
+            .setDesc(
+                "USD limit per course per calendar month (0 = no limit). Background auto-update skips " +
+                `a course that has used its budget. (每门课每月预算) Spent in ${month}: ${spentThisMonth || "nothing yet"}.`
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("0")
+                    .setValue(String(this.plugin.settings.courseMonthlyBudgetUSD ?? 0))
+                    .onChange(async (value) => {
+                        this.plugin.settings.courseMonthlyBudgetUSD = parseBudget(value);
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Model catalog")
+            .setDesc(
+                "Prices and limits per model, one per line: model, input / output / cached-input USD per " +
+                "1M tokens, context window, max output tokens. Used by the cost meter, budgets and usage " +
+                "report, to size extraction chunks and to cap Gemini output. Gemini models not listed are " +
+                "priced like Flash; other models not listed are free. (模型目录)"
+            )
+            .addTextArea((text) => {
+                text.setValue(formatModelCatalog(catalog)).onChange(async (value) => {
+                    this.plugin.settings.modelCatalog = parseModelCatalog(value);
+                    await this.plugin.saveSettings();
+                });
+                text.inputEl.rows = 5;
+                text.inputEl.cols = 60;
+            })
+            .addButton((btn) =>
+                btn.setButtonText("Reset").onClick(async () => {
+                    this.plugin.settings.modelCatalog = [...DEFAULT_MODEL_CATALOG];
                     await this.plugin.saveSettings();
                     this.display();
                 })
@@ -309,6 +488,8 @@ export class LawNoteSettingTab extends PluginSettingTab {
             );
 
         // --- Output Configuration ---
+        this.addStepModelSettings(containerEl);
+
         new Setting(containerEl).setName("Output configuration").setHeading();
 
         new Setting(containerEl)
@@ -415,6 +596,57 @@ export class LawNoteSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(containerEl)
+            .setName("Keyword weight")
+            .setDesc(
+                "How much exact-word matching counts against meaning-based matching when finding notes. " +
+                "Raise it if searches for a section number (e.g. § 752(b)) or a case name miss the note " +
+                "that contains it. 0 = meaning only, 1 = keywords only. (关键词权重)"
+            )
+            .addSlider((slider) =>
+                slider
+                    .setLimits(0, 1, 0.1)
+                    .setValue(this.plugin.settings.lexicalWeight)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.lexicalWeight = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Rerank retrieved notes")
+            .setDesc(
+                "Have a model score the candidate notes against the question before answering — one extra call " +
+                "per question. Route \"Ask My Notes reranking\" under Per-step models to a small local model to " +
+                "keep it free. (重排检索结果)"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.askRerank)
+                    .onChange(async (value) => {
+                        this.plugin.settings.askRerank = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Index vector storage")
+            .setDesc(
+                "How the notes index stores embeddings on disk. int8 files are a quarter the size and load " +
+                "faster, with nearly identical results; applies from the next index update. (索引向量存储)"
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("float32", "Float32 (exact)")
+                    .addOption("int8", "int8 (4× smaller)")
+                    .setValue(this.plugin.settings.ragVectorEncoding)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ragVectorEncoding = value as VectorEncoding;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         // --- Automation ---
         new Setting(containerEl).setName("Automation (自动更新)").setHeading();
 
@@ -502,5 +734,149 @@ export class LawNoteSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     })
             );
+
+        // --- Record & replay ---
+        new Setting(containerEl).setName("Record & replay (录制与回放)").setHeading();
+
+        new Setting(containerEl)
+            .setName("Model call fixtures")
+            .setDesc(
+                "Record saves every prompt and its answer as a file in the fixture folder; Replay answers " +
+                "from those files without calling any model or needing an API key — for demos and offline " +
+                "tests. A prompt that was never recorded stops the run with an error. (录制/回放模型调用)"
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("off", "Off")
+                    .addOption("record", "Record")
+                    .addOption("replay", "Replay")
+                    .setValue(this.plugin.settings.fixtureMode ?? "off")
+                    .onChange(async (value) => {
+                        this.plugin.settings.fixtureMode = value as FixtureMode;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Fixture folder")
+            .setDesc("Vault folder the fixture files are written to and replayed from.")
+            .addText((text) =>
+                text
+                    .setPlaceholder("LawNotes/Fixtures")
+                    .setValue(this.plugin.settings.fixtureFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.fixtureFolder = value.trim() || "LawNotes/Fixtures";
+                        await this.plugin.saveSettings();
+                    })
+            );
     }
+
+    /** Per-step provider/model overrides (e.g. a strong model for extraction, a cheap one for the outline). */
+    private addStepModelSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl).setName("Per-step models (分步模型)").setHeading();
+        containerEl.createEl("p", {
+            text:
+                "Route individual steps to their own model. Steps left on \"Default\" use the generation " +
+                "provider and model above; blank temperature / thinking use the global values.",
+            cls: "setting-item-description",
+        });
+
+        const routes = this.plugin.settings.stepModels ?? {};
+        for (const step of MODEL_STEPS) {
+            const route = routes[step];
+            const setting = new Setting(containerEl).setName(MODEL_STEP_LABELS[step]);
+            const save = async (next: StepModelRoute | undefined): Promise<void> => {
+                const updated = { ...this.plugin.settings.stepModels };
+                if (next) updated[step] = next;
+                else delete updated[step];
+                this.plugin.settings.stepModels = updated;
+                await this.plugin.saveSettings();
+            };
+
+            setting.addDropdown((dropdown) =>
+                dropdown
+                    .addOption("", "Default")
+                    .addOption("gemini", "Gemini")
+                    .addOption("ollama", "Ollama")
+                    .addOption("openai", "OpenAI-compatible")
+                    .setValue(route?.provider ?? "")
+                    .onChange(async (value) => {
+                        await save(value ? { ...route, provider: value as ModelProvider, model: route?.model ?? "" } : undefined);
+                        this.display(); // show or hide the model fields
+                    })
+            );
+            if (!route) continue;
+
+            setting.addText((text) =>
+                text
+                    .setPlaceholder(route.provider === "gemini" ? "gemini-2.5-pro" : "model name")
+                    .setValue(route.model)
+                    .onChange(async (value) => {
+                        route.model = value.trim();
+                        await save(route);
+                    })
+            );
+            setting.addText((text) => {
+                text.setPlaceholder("temp")
+                    .setValue(route.temperature === undefined ? "" : String(route.temperature))
+                    .onChange(async (value) => {
+                        const temperature = Number.parseFloat(value);
+                        route.temperature = Number.isFinite(temperature) ? temperature : undefined;
+                        await save(route);
+                    });
+                text.inputEl.size = 4;
+            });
+            if (route.provider === "gemini") {
+                setting.addDropdown((dropdown) =>
+                    dropdown
+                        .addOption("", "Thinking: global")
+                        .addOption("-1", "Model default")
+                        .addOption("0", "Disabled")
+                        .addOption("4096", "Low (4K)")
+                        .addOption("8192", "Standard (8K)")
+                        .addOption("16384", "Deep (16K)")
+                        .setValue(route.thinkingBudget === undefined ? "" : String(route.thinkingBudget))
+                        .onChange(async (value) => {
+                            route.thinkingBudget = value === "" ? undefined : Number(value);
+                            await save(route);
+                        })
+                );
+            }
+        }
+    }
+
+    /** Base URL + key of the OpenAI-compatible server (shared by generation and embeddings). */
+    private addOpenAIServerSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName("Server base URL")
+            .setDesc("OpenAI-compatible endpoint including /v1, e.g. vLLM http://localhost:8000/v1 or LM Studio http://localhost:1234/v1.")
+            .addText((text) =>
+                text
+                    .setPlaceholder("http://localhost:8000/v1")
+                    .setValue(this.plugin.settings.openaiBaseUrl)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openaiBaseUrl = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Server API key")
+            .setDesc("Sent as a Bearer token. Leave empty for servers that need none.")
+            .addText((text) => {
+                text.setPlaceholder("Optional")
+                    .setValue(this.plugin.settings.openaiApiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openaiApiKey = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.type = "password";
+            });
+    }
+}
+
+/** A budget text box as USD; blank or invalid input means no limit. */
+function parseBudget(value: string): number {
+    const usd = Number.parseFloat(value);
+    return Number.isFinite(usd) && usd > 0 ? usd : 0;
 }
@@ -2,24 +2,93 @@
 // SETTINGS
 // ============================================================
 
+/**
+ * Model backends: Gemini cloud, a local Ollama server, or any server speaking
+ * the OpenAI `/v1/chat/completions` + `/v1/embeddings` protocol (vLLM, LM Studio…).
+ */
+export type ModelProvider = "gemini" | "ollama" | "openai";
+
+/** LLM-backed steps that can be routed to their own model. */
+export type ModelStep = "extraction" | "relationships" | "pages" | "outline" | "ask" | "rerank";
+
+/** A step's own provider + model; unset temperature/thinking budget fall back to the global values. */
+export interface StepModelRoute {
+    provider: ModelProvider;
+    model: string;
+    temperature?: number;
+    thinkingBudget?: number;
+}
+
+/** A course's estimated spend in one calendar month ("2026-10"). */
+export interface CourseSpend {
+    month: string;
+    usd: number;
+}
+
+/**
+ * Pricing and limits of one model in the editable catalog. Rates are USD per
+ * 1M tokens; `cachedPerMTok` is the provider's rate for input served from its
+ * context cache.
+ */
+export interface ModelSpec {
+    model: string;
+    inputPerMTok: number;
+    outputPerMTok: number;
+    cachedPerMTok: number;
+    contextWindow: number;
+    maxOutput: number;
+}
+
+/** A backup generation model tried when the ones before it fail. */
+export interface FallbackTarget {
+    provider: ModelProvider;
+    model: string;
+}
+
 /** Background auto-update cadence for a course. */
 export type AutoUpdateInterval = "off" | "15m" | "1h" | "6h" | "1d";
 
+/**
+ * Model-call fixtures: "record" saves every prompt and its answer to fixture
+ * files, "replay" answers from those files instead of calling a model.
+ */
+export type FixtureMode = "off" | "record" | "replay";
+
+/** How the Ask My Notes index stores embeddings on disk: exact floats, or int8 at a quarter of the size. */
+export type VectorEncoding = "float32" | "int8";
+
 export interface LawNoteSettings {
     geminiApiKey: string;
     modelName: string;
-    /** Where text generation runs: Gemini cloud, or a local Ollama server. */
-    generationProvider: "gemini" | "ollama";
+    /** Where text generation runs: Gemini cloud, a local Ollama server, or an OpenAI-compatible server. */
+    generationProvider: ModelProvider;
     /** Ollama generation model (used when generationProvider = "ollama"). */
     ollamaModel: string;
-    /** Where embeddings run: Gemini cloud, or a local Ollama server (offline, no quota). */
-    embeddingProvider: "gemini" | "ollama";
+    /** Where embeddings run: Gemini cloud, a local Ollama server (offline, no quota), or an OpenAI-compatible server. */
+    embeddingProvider: ModelProvider;
     /** Gemini embedding model (used when embeddingProvider = "gemini"). */
     embeddingModel: string;
     /** Ollama server URL (used when embeddingProvider = "ollama"). */
     ollamaUrl: string;
     /** Ollama embedding model (used when embeddingProvider = "ollama"). */
     ollamaEmbeddingModel: string;
+    /** OpenAI-compatible server base URL including `/v1` (shared by generation and embeddings). */
+    openaiBaseUrl: string;
+    /** Bearer key for the OpenAI-compatible server; empty for servers that need none. */
+    openaiApiKey: string;
+    /** OpenAI-compatible generation model (used when generationProvider = "openai"). */
+    openaiModel: string;
+    /** OpenAI-compatible embedding model (used when embeddingProvider = "openai"). */
+    openaiEmbeddingModel: string;
+    /**
+     * Backup generation models, in order, tried after the primary provider
+     * fails with a rate-limit, server or safety error. Empty = no failover.
+     */
+    fallbackChain: FallbackTarget[];
+    /** Per-step model overrides; a step without one uses the settings above. */
+    stepModels: Partial<Record<ModelStep, StepModelRoute>>;
+    /** Prices and limits per model (cost meter, budgets, chunk sizing, Gemini output cap). */
+    modelCatalog: ModelSpec[];
     outputFolder: string;
     /** Sub-folder to scope the Ask My Notes index to (empty = whole output folder). */
     ragScopeFolder: string;
@@ -47,10 +116,32 @@ export interface LawNoteSettings {
     semanticLinkThreshold: number;
     /** Skip the entity review modal and generate immediately (unattended runs). */
     autoAcceptReview: boolean;
+    /** Record model calls to fixture files, or replay them without a model (tests and demos). */
+    fixtureMode: FixtureMode;
+    /** Vault folder holding the fixture files. */
+    fixtureFolder: string;
+    /** Ignore saved model responses and call the model for every page (fresh answers are still cached). */
+    bypassResponseCache: boolean;
+    /** Size limit of each course's response cache (`_llm-cache.json`), in MB. */
+    responseCacheMaxMB: number;
     /** Cumulative API tokens billed across every run (cost meter). */
     lifetimeTokensUsed: number;
+    /** Cumulative tokens per provider label ("gemini:gemini-2.5-flash"), since the breakdown was introduced. */
+    lifetimeTokensByProvider: Record<string, number>;
+    /** Spend limit of a single pipeline run in USD (0 = no limit). */
+    runBudgetUSD: number;
+    /** Spend limit per course per calendar month in USD (0 = no limit). */
+    courseMonthlyBudgetUSD: number;
+    /** This month's estimated spend per course ("" key = the default output folder). */
+    courseSpend: Record<string, CourseSpend>;
     /** Default verbosity for Ask My Notes answers. */
     askLength: "brief" | "standard" | "detailed";
+    /** Weight of BM25 keyword ranking against embedding ranking in Ask My Notes (0 = vectors only, 1 = keywords only). */
+    lexicalWeight: number;
+    /** Have a model rescore Ask My Notes candidates before answering (the "rerank" step). */
+    askRerank: boolean;
+    /** On-disk encoding of the notes index's vector file. */
+    ragVectorEncoding: VectorEncoding;
     /**
      * Per-course background auto-update schedule: course name → interval
      * ("" key = the default output folder). Absent or "off" means no auto-update.
@@ -67,6 +158,34 @@ export interface LawNoteSettings {
     resolverScanScope: "vault" | "output-folder";
 }
 
+/** Approximate Gemini 2.5 list prices and limits; editable in settings. */
+export const DEFAULT_MODEL_CATALOG: readonly ModelSpec[] = [
+    {
+        model: "gemini-2.5-pro",
+        inputPerMTok: 1.25,
+        outputPerMTok: 10,
+        cachedPerMTok: 0.31,
+        contextWindow: 1_048_576,
+        maxOutput: 65_536,
+    },
+    {
+        model: "gemini-2.5-flash",
+        inputPerMTok: 0.3,
+        outputPerMTok: 2.5,
+        cachedPerMTok: 0.075,
+        contextWindow: 1_048_576,
+        maxOutput: 65_536,
+    },
+    {
+        model: "gemini-2.5-flash-lite",
+        inputPerMTok: 0.1,
+        outputPerMTok: 0.4,
+        cachedPerMTok: 0.025,
+        contextWindow: 1_048_576,
+        maxOutput: 65_536,
+    },
+];
+
 export const DEFAULT_SETTINGS: LawNoteSettings = {
     geminiApiKey: "",
     modelName: "gemini-2.5-flash",
@@ -76,6 +195,13 @@ export const DEFAULT_SETTINGS: LawNoteSettings = {
     embeddingModel: "gemini-embedding-001",
     ollamaUrl: "http://localhost:11434",
     ollamaEmbeddingModel: "nomic-embed-text",
+    openaiBaseUrl: "http://localhost:8000/v1",
+    openaiApiKey: "",
+    openaiModel: "",
+    openaiEmbeddingModel: "",
+    fallbackChain: [],
+    stepModels: {},
+    modelCatalog: [...DEFAULT_MODEL_CATALOG],
     outputFolder: "LawNotes/Generated",
     ragScopeFolder: "",
     language: "mixed",
@@ -91,8 +217,19 @@ export const DEFAULT_SETTINGS: LawNoteSettings = {
     enableSemanticLinks: false,
     semanticLinkThreshold: 0.75,
     autoAcceptReview: false,
+    fixtureMode: "off",
+    fixtureFolder: "LawNotes/Fixtures",
+    bypassResponseCache: false,
+    responseCacheMaxMB: 50,
     lifetimeTokensUsed: 0,
+    lifetimeTokensByProvider: {},
+    runBudgetUSD: 0,
+    courseMonthlyBudgetUSD: 0,
+    courseSpend: {},
     askLength: "standard",
+    lexicalWeight: 0.4,
+    askRerank: false,
+    ragVectorEncoding: "float32",
     autoUpdateCourses: {},
     courtListenerApiToken: "",
     resolvedLinksFolder: "",
@@ -107,7 +244,7 @@ export const DEFAULT_SETTINGS: LawNoteSettings = {
 export interface SourceDocument {
     path: string;
     filename: string;
-    type: "md" | "docx";
+    type: "md" | "docx" | "pdf" | "transcript";
     rawText: string;
     charCount: number;
     tokenEstimate: number;
@@ -126,16 +263,37 @@ export type ConceptCategory =
     | "procedure"
     | "other";
 
-export interface LegalConcept {
+/** A quote found in a source document by the evidence verifier. */
+export interface EvidenceLocation {
+    quote: string;
+    /** Source file name (as in `SourceDocument.filename`). */
+    file: string;
+    /** Character offset of the match in that document's parsed `rawText`. */
+    offset: number;
+}
+
+/** Evidence fields shared by every extracted entity. */
+export interface EntityEvidence {
+    /** Short verbatim quotes from the source that the model based this entity on. */
+    quotes?: string[];
+    /** The quotes the verifier located in the sources. */
+    evidence?: EvidenceLocation[];
+    /** Set when none of the entity's quotes could be found in the sources. */
+    unverified?: boolean;
+}
+
+export interface LegalConcept extends EntityEvidence {
     id: string;
     name: string;
     nameChinese?: string;
     definition: string;
     category: ConceptCategory;
+    /** Id of the broader concept this is a sub-doctrine of (e.g. Minimum Contacts → Specific Jurisdiction). */
+    parentId?: string;
     sourceReferences: string[];
 }
 
-export interface LegalCase {
+export interface LegalCase extends EntityEvidence {
     id: string;
     name: string;
     citation?: string;
@@ -148,7 +306,7 @@ export interface LegalCase {
     sourceReferences: string[];
 }
 
-export interface LegalPrinciple {
+export interface LegalPrinciple extends EntityEvidence {
     id: string;
     name: string;
     nameChinese?: string;
@@ -158,7 +316,7 @@ export interface LegalPrinciple {
     sourceReferences: string[];
 }
 
-export interface LegalRule {
+export interface LegalRule extends EntityEvidence {
     id: string;
     name: string;
     nameChinese?: string;
@@ -171,16 +329,35 @@ export interface LegalRule {
     sourceReferences: string[];
 }
 
+export interface LegalStatute extends EntityEvidence {
+    id: string;
+    /** Canonical citation (see `normalizeCitation`), e.g. "IRC § 721". Also the page title. */
+    citation: string;
+    /** Short title of the provision, e.g. "Nonrecognition of gain or loss on contribution". */
+    title?: string;
+    /** e.g. "US Federal", "California", "PRC". */
+    jurisdiction: string;
+    textSummary: string;
+    elements: string[];
+    relatedConcepts: string[];
+    relatedCases: string[];
+    sourceReferences: string[];
+}
+
 export interface ExtractedEntities {
     concepts: LegalConcept[];
     cases: LegalCase[];
     principles: LegalPrinciple[];
     rules: LegalRule[];
+    /** Absent in knowledge bases saved before statutes were extracted. */
+    statutes?: LegalStatute[];
     metadata: {
         sourceDocuments: string[];
         extractionTimestamp: string;
         modelUsed: string;
         totalTokensUsed: number;
+        /** Provider label ("ollama:llama3.1") that generated each AI-written page, keyed by page name. */
+        pageProviders?: Record<string, string>;
     };
 }
 
@@ -196,7 +373,17 @@ export type RelationshipType =
     | "overrules"
     | "illustrates";
 
-export interface RelationshipEntry {
+/** What every relationship-matrix edge records besides its endpoints. */
+export interface MappedEdge {
+    /**
+     * Source documents (file names) the edge was mapped from, so an update can
+     * tell which notes still support it. Absent on edges saved before it was
+     * recorded.
+     */
+    sources?: string[];
+}
+
+export interface RelationshipEntry extends MappedEdge {
     caseId: string;
     conceptId: string;
     relationshipType: RelationshipType;
@@ -204,10 +391,60 @@ export interface RelationshipEntry {
     strength: "primary" | "secondary" | "tangential";
 }
 
+/** How a statutory provision bears on a concept. */
+export type StatuteRelationshipType =
+    | "codifies"
+    | "defines"
+    | "modifies"
+    | "references";
+
+export interface StatuteRelationshipEntry extends MappedEdge {
+    statuteId: string;
+    conceptId: string;
+    relationshipType: StatuteRelationshipType;
+    description: string;
+}
+
+/**
+ * How one concept bears on another, read as "from is <type> to": e.g.
+ * Necessity `exception-of` Trespass, Duty `element-of` Negligence.
+ */
+export type ConceptRelationshipType =
+    | "exception-of"
+    | "element-of"
+    | "contrasts-with"
+    | "prerequisite-of";
+
+export interface ConceptRelationshipEntry extends MappedEdge {
+    fromConceptId: string;
+    toConceptId: string;
+    relationshipType: ConceptRelationshipType;
+    description: string;
+}
+
+/** How a later case treated an earlier one it cites. */
+export type CaseCitationType =
+    | "follows"
+    | "overrules"
+    | "distinguishes";
+
+export interface CaseCitationEntry extends MappedEdge {
+    citingCaseId: string;
+    citedCaseId: string;
+    relationshipType: CaseCitationType;
+    description: string;
+}
+
 export interface RelationshipMatrix {
     entries: RelationshipEntry[];
     casesInOrder: string[];
     conceptsInOrder: string[];
+    /** Statute↔concept links. Absent in matrices saved before statutes were extracted. */
+    statuteEntries?: StatuteRelationshipEntry[];
+    /** Concept↔concept links. Absent in matrices saved before they were mapped. */
+    conceptEntries?: ConceptRelationshipEntry[];
+    /** Case↔case citation links. Absent in matrices saved before they were mapped. */
+    caseEntries?: CaseCitationEntry[];
 }
 
 // ============================================================
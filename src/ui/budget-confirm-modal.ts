@@ -0,0 +1,63 @@
+import { App, Modal } from "obsidian";
+import { formatUSD } from "../ai/cost";
+
+export interface BudgetPrompt {
+    /** Course name ("" = default output folder). */
+    course: string;
+    spentUSD: number;
+    projectedUSD: number;
+    limitUSD: number;
+}
+
+/** Pauses a run that is about to go over budget: continue anyway, or stop. */
+export class BudgetConfirmModal extends Modal {
+    private done = false;
+    private prompt: BudgetPrompt;
+    private onSubmit: (proceed: boolean) => void;
+
+    constructor(app: App, prompt: BudgetPrompt, onSubmit: (proceed: boolean) => void) {
+        super(app);
+        this.prompt = prompt;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const { course, spentUSD, projectedUSD, limitUSD } = this.prompt;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Budget limit reached (超出预算)" });
+
+        const courseLabel = course ? ` for "${course}"` : "";
+        const detail = spentUSD > 0
+            ? `This run${courseLabel} has spent ~${formatUSD(spentUSD)}; the next request (~${formatUSD(projectedUSD)}) ` +
+              `would cross the ${formatUSD(limitUSD)} limit.`
+            : `The estimated cost of this run${courseLabel} (~${formatUSD(projectedUSD)}, before output) ` +
+              `exceeds the ${formatUSD(limitUSD)} limit.`;
+        contentEl.createEl("p", { text: detail });
+        contentEl.createEl("p", {
+            cls: "setting-item-description",
+            text:
+                "Continuing lifts the limit for the rest of this run. Stopping keeps finished work " +
+                "(completed extraction chunks and written pages). (继续将不再提醒；停止会保留已完成部分)",
+        });
+
+        const row = contentEl.createDiv({ cls: "law-restructurer-buttons" });
+        row.createEl("button", { text: "Stop run (停止)" }).addEventListener("click", () => this.finish(false));
+        row.createEl("button", { text: "Continue anyway (继续)", cls: "mod-warning" }).addEventListener(
+            "click",
+            () => this.finish(true)
+        );
+    }
+
+    private finish(proceed: boolean): void {
+        if (this.done) return;
+        this.done = true;
+        this.close();
+        this.onSubmit(proceed);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.finish(false);
+    }
+}
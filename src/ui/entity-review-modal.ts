@@ -1,5 +1,6 @@
 import { App, Modal, Setting } from "obsidian";
 import type {
+    EntityEvidence,
     ExtractedEntities,
     LegalCase,
     LegalConcept,
@@ -10,10 +11,11 @@ import {
     findDuplicateConcepts,
     findDuplicatePrinciples,
     findDuplicateRules,
+    mergeEvidence,
     type DuplicatePair,
 } from "../pipeline/entity-merger";
 
-type Tab = "concepts" | "cases" | "principles" | "rules";
+type Tab = "concepts" | "cases" | "principles" | "rules" | "statutes";
 
 export class EntityReviewModal extends Modal {
     private entities: ExtractedEntities;
@@ -54,6 +56,14 @@ export class EntityReviewModal extends Modal {
             );
         }
 
+        const unverifiedCount = this.countUnverified();
+        if (unverifiedCount > 0) {
+            const banner = contentEl.createDiv("law-restructurer-unverified-banner");
+            banner.setText(
+                `${unverifiedCount} entit${unverifiedCount === 1 ? "y" : "ies"} unverified: the quoted evidence was not found in your sources. Check before confirming. (${unverifiedCount} 项未经核实)`
+            );
+        }
+
         const summary = contentEl.createEl("p", { cls: "setting-item-description" });
         this.updateSummary(summary);
 
@@ -64,6 +74,7 @@ export class EntityReviewModal extends Modal {
             { key: "cases", label: `Cases (${this.entities.cases.length})` },
             { key: "principles", label: `Principles (${this.entities.principles.length})` },
             { key: "rules", label: `Rules (${this.entities.rules.length})` },
+            { key: "statutes", label: `Statutes (${this.entities.statutes?.length ?? 0})` },
         ];
 
         const tabButtons: Record<string, HTMLElement> = {};
@@ -122,10 +133,43 @@ export class EntityReviewModal extends Modal {
         );
     }
 
+    private countUnverified(): number {
+        const all: EntityEvidence[] = [
+            ...this.entities.concepts,
+            ...this.entities.cases,
+            ...this.entities.principles,
+            ...this.entities.rules,
+            ...(this.entities.statutes ?? []),
+        ];
+        return all.filter((e) => e.unverified).length;
+    }
+
+    /** Located quotes (file + offset), or the unlocated ones for an unverified entity. */
+    private renderEvidence(container: HTMLElement, entity: EntityEvidence): void {
+        const evidence = entity.evidence ?? [];
+        if (!entity.unverified && evidence.length === 0) return;
+
+        const box = container.createDiv("law-restructurer-evidence");
+        if (entity.unverified) {
+            box.createEl("p", {
+                text: "Unverified — none of these quotes were found in the sources (未经核实):",
+                cls: "law-restructurer-unverified-note",
+            });
+            for (const quote of entity.quotes ?? []) {
+                box.createEl("blockquote", { text: `"${quote}"` });
+            }
+            return;
+        }
+        for (const loc of evidence) {
+            box.createEl("blockquote", { text: `"${loc.quote}" — ${loc.file}, char ${loc.offset}` });
+        }
+    }
+
     private updateSummary(el: HTMLElement): void {
         el.setText(
             `Found: ${this.entities.concepts.length} concepts, ${this.entities.cases.length} cases, ` +
-            `${this.entities.principles.length} principles, ${this.entities.rules.length} rules`
+            `${this.entities.principles.length} principles, ${this.entities.rules.length} rules, ` +
+            `${this.entities.statutes?.length ?? 0} statutes`
         );
     }
 
@@ -145,6 +189,9 @@ export class EntityReviewModal extends Modal {
             case "rules":
                 this.renderRules(container);
                 break;
+            case "statutes":
+                this.renderStatutes(container);
+                break;
         }
     }
 
@@ -162,10 +209,11 @@ export class EntityReviewModal extends Modal {
             const detailsEl = container.createEl("details", {
                 cls: `law-restructurer-entity-card${isDup ? " law-restructurer-dup-highlight" : ""}`,
             });
-            const summaryText = `${concept.name}${concept.nameChinese ? ` (${concept.nameChinese})` : ""} [${concept.category}]${isDup ? " ⚠ duplicate" : ""}`;
+            const summaryText = `${concept.name}${concept.nameChinese ? ` (${concept.nameChinese})` : ""} [${concept.category}]${isDup ? " ⚠ duplicate" : ""}${unverifiedMark(concept)}`;
             detailsEl.createEl("summary", { text: summaryText });
 
             const inner = detailsEl.createDiv();
+            this.renderEvidence(inner, concept);
             new Setting(inner)
                 .setName("Name")
                 .addText((t) =>
@@ -187,6 +235,18 @@ export class EntityReviewModal extends Modal {
                         concept.definition = v;
                     })
                 );
+            new Setting(inner)
+                .setName("Parent concept (上位概念)")
+                .setDesc("The broader doctrine this is a sub-doctrine of.")
+                .addDropdown((d) => {
+                    d.addOption("", "(none — top level)");
+                    for (const other of this.entities.concepts) {
+                        if (other.id !== concept.id) d.addOption(other.id, other.name);
+                    }
+                    d.setValue(concept.parentId ?? "").onChange((v) => {
+                        concept.parentId = v || undefined;
+                    });
+                });
 
             // Merge button for duplicates
             if (isDup) {
@@ -227,10 +287,11 @@ export class EntityReviewModal extends Modal {
                 cls: "law-restructurer-entity-card",
             });
             detailsEl.createEl("summary", {
-                text: `${cas.name}${cas.citation ? ` - ${cas.citation}` : ""}`,
+                text: `${cas.name}${cas.citation ? ` - ${cas.citation}` : ""}${unverifiedMark(cas)}`,
             });
 
             const inner = detailsEl.createDiv();
+            this.renderEvidence(inner, cas);
             new Setting(inner)
                 .setName("Name")
                 .addText((t) => t.setValue(cas.name).onChange((v) => { cas.name = v; }));
@@ -272,10 +333,11 @@ export class EntityReviewModal extends Modal {
             const detailsEl = container.createEl("details", {
                 cls: `law-restructurer-entity-card${isDup ? " law-restructurer-dup-highlight" : ""}`,
             });
-            const summaryText = `${principle.name}${principle.nameChinese ? ` (${principle.nameChinese})` : ""}${isDup ? " ⚠ duplicate" : ""}`;
+            const summaryText = `${principle.name}${principle.nameChinese ? ` (${principle.nameChinese})` : ""}${isDup ? " ⚠ duplicate" : ""}${unverifiedMark(principle)}`;
             detailsEl.createEl("summary", { text: summaryText });
 
             const inner = detailsEl.createDiv();
+            this.renderEvidence(inner, principle);
             new Setting(inner)
                 .setName("Name")
                 .addText((t) => t.setValue(principle.name).onChange((v) => { principle.name = v; }));
@@ -331,10 +393,11 @@ export class EntityReviewModal extends Modal {
             const detailsEl = container.createEl("details", {
                 cls: `law-restructurer-entity-card${isDup ? " law-restructurer-dup-highlight" : ""}`,
             });
-            const summaryText = `${rule.name}${rule.nameChinese ? ` (${rule.nameChinese})` : ""}${isDup ? " ⚠ duplicate" : ""}`;
+            const summaryText = `${rule.name}${rule.nameChinese ? ` (${rule.nameChinese})` : ""}${isDup ? " ⚠ duplicate" : ""}${unverifiedMark(rule)}`;
             detailsEl.createEl("summary", { text: summaryText });
 
             const inner = detailsEl.createDiv();
+            this.renderEvidence(inner, rule);
             new Setting(inner)
                 .setName("Name")
                 .addText((t) => t.setValue(rule.name).onChange((v) => { rule.name = v; }));
@@ -387,6 +450,50 @@ export class EntityReviewModal extends Modal {
         }
     }
 
+    private renderStatutes(container: HTMLElement): void {
+        const statutes = this.entities.statutes ?? [];
+        for (let i = 0; i < statutes.length; i++) {
+            const statute = statutes[i];
+            const detailsEl = container.createEl("details", {
+                cls: "law-restructurer-entity-card",
+            });
+            detailsEl.createEl("summary", {
+                text: `${statute.citation}${statute.title ? ` - ${statute.title}` : ""}${statute.jurisdiction ? ` [${statute.jurisdiction}]` : ""}${unverifiedMark(statute)}`,
+            });
+
+            const inner = detailsEl.createDiv();
+            this.renderEvidence(inner, statute);
+            new Setting(inner)
+                .setName("Citation")
+                .addText((t) => t.setValue(statute.citation).onChange((v) => { statute.citation = v; }));
+            new Setting(inner)
+                .setName("Title")
+                .addText((t) => t.setValue(statute.title ?? "").onChange((v) => { statute.title = v || undefined; }));
+            new Setting(inner)
+                .setName("Jurisdiction")
+                .addText((t) => t.setValue(statute.jurisdiction).onChange((v) => { statute.jurisdiction = v; }));
+            new Setting(inner)
+                .setName("Summary")
+                .addTextArea((t) => t.setValue(statute.textSummary).onChange((v) => { statute.textSummary = v; }));
+            new Setting(inner)
+                .setName("Elements (one per line)")
+                .addTextArea((t) =>
+                    t.setValue(statute.elements.join("\n")).onChange((v) => {
+                        statute.elements = v.split("\n").filter((s) => s.trim());
+                    })
+                );
+
+            const deleteBtn = inner.createEl("button", {
+                text: "Delete (删除)",
+                cls: "mod-warning",
+            });
+            deleteBtn.addEventListener("click", () => {
+                statutes.splice(i, 1);
+                this.rerender();
+            });
+        }
+    }
+
     // ============================================================
     // Merge helpers
     // ============================================================
@@ -400,8 +507,15 @@ export class EntityReviewModal extends Modal {
         keep.definition = keep.definition.length >= other.definition.length
             ? keep.definition : other.definition;
         keep.nameChinese = keep.nameChinese || other.nameChinese;
+        keep.parentId = keep.parentId || other.parentId;
+        if (keep.parentId === keep.id || keep.parentId === other.id) keep.parentId = undefined;
         keep.sourceReferences = [...new Set([...keep.sourceReferences, ...other.sourceReferences])];
+        // Sub-concepts of the other now hang under the kept concept
+        for (const c of this.entities.concepts) {
+            if (c.parentId === other.id) c.parentId = c === keep ? undefined : keep.id;
+        }
         // Remove the other
+        Object.assign(keep, mergeEvidence(keep, other));
         const removeIdx = keep === a ? indexB : indexA;
         this.entities.concepts.splice(removeIdx, 1);
     }
@@ -417,6 +531,7 @@ export class EntityReviewModal extends Modal {
         keep.relatedConcepts = [...new Set([...keep.relatedConcepts, ...other.relatedConcepts])];
         keep.supportingCases = [...new Set([...keep.supportingCases, ...other.supportingCases])];
         keep.sourceReferences = [...new Set([...keep.sourceReferences, ...other.sourceReferences])];
+        Object.assign(keep, mergeEvidence(keep, other));
         const removeIdx = keep === a ? indexB : indexA;
         this.entities.principles.splice(removeIdx, 1);
     }
@@ -435,6 +550,7 @@ export class EntityReviewModal extends Modal {
         keep.relatedConcepts = [...new Set([...keep.relatedConcepts, ...other.relatedConcepts])];
         keep.supportingCases = [...new Set([...keep.supportingCases, ...other.supportingCases])];
         keep.sourceReferences = [...new Set([...keep.sourceReferences, ...other.sourceReferences])];
+        Object.assign(keep, mergeEvidence(keep, other));
         const removeIdx = keep === a ? indexB : indexA;
         this.entities.rules.splice(removeIdx, 1);
     }
@@ -452,3 +568,7 @@ export class EntityReviewModal extends Modal {
         this.contentEl.empty();
     }
 }
+
+function unverifiedMark(entity: EntityEvidence): string {
+    return entity.unverified ? " ⚠ unverified" : "";
+}
@@ -1,4 +1,5 @@
 import { App, Modal, TFile } from "obsidian";
+import { isSourceExtension } from "../parsers/source-parser";
 
 interface FolderNode {
     name: string;
@@ -28,7 +29,7 @@ export class FilePickerModal extends Modal {
 
         this.files = app.vault
             .getFiles()
-            .filter((f) => f.extension === "md" || f.extension === "docx")
+            .filter((f) => isSourceExtension(f.extension))
             .sort((a, b) => a.path.localeCompare(b.path));
     }
 
@@ -39,7 +40,7 @@ export class FilePickerModal extends Modal {
 
         contentEl.createEl("h2", { text: "Select Source Files" });
         contentEl.createEl("p", {
-            text: "Choose .md and .docx files to analyze. (选择要分析的文件)",
+            text: "Choose notes (.md, .docx, .pdf) or lecture transcripts (.srt, .vtt, .txt) to analyze. (选择要分析的文件)",
             cls: "setting-item-description",
         });
 
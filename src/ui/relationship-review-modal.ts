@@ -1,5 +1,7 @@
 import { App, Modal, Setting } from "obsidian";
 import type {
+    CaseCitationType,
+    ConceptRelationshipType,
     ExtractedEntities,
     RelationshipEntry,
     RelationshipMatrix,
@@ -53,6 +55,21 @@ export class RelationshipReviewModal extends Modal {
         const entryList = contentEl.createDiv("law-restructurer-entry-list");
         this.renderEntries(entryList);
 
+        // Concept↔concept and case↔case links
+        this.matrix.conceptEntries ??= [];
+        this.matrix.caseEntries ??= [];
+        contentEl.createEl("h3", {
+            text: `Concept Relationships (概念关系) — ${this.matrix.conceptEntries.length}`,
+        });
+        const conceptList = contentEl.createDiv("law-restructurer-entry-list");
+        this.renderConceptEntries(conceptList);
+
+        contentEl.createEl("h3", {
+            text: `Case Citations (判例引用) — ${this.matrix.caseEntries.length}`,
+        });
+        const caseList = contentEl.createDiv("law-restructurer-entry-list");
+        this.renderCaseEntries(caseList);
+
         // Buttons
         const buttonDiv = contentEl.createDiv("law-restructurer-buttons");
 
@@ -183,6 +200,107 @@ export class RelationshipReviewModal extends Modal {
         }
     }
 
+    private renderConceptEntries(container: HTMLElement): void {
+        container.empty();
+        const entries = this.matrix.conceptEntries ?? [];
+        const types: ConceptRelationshipType[] = [
+            "exception-of",
+            "element-of",
+            "contrasts-with",
+            "prerequisite-of",
+        ];
+        const name = (id: string) =>
+            this.entities.concepts.find((c) => c.id === id)?.name ?? id;
+
+        if (entries.length === 0) {
+            container.createEl("p", { text: "None found.", cls: "setting-item-description" });
+            return;
+        }
+
+        for (let i = 0; i < entries.length; i++) {
+            const entry = entries[i];
+            const detailsEl = container.createEl("details", {
+                cls: "law-restructurer-entity-card",
+            });
+            detailsEl.createEl("summary", {
+                text: `${name(entry.fromConceptId)} → ${name(entry.toConceptId)} [${entry.relationshipType}]`,
+            });
+            const inner = detailsEl.createDiv();
+
+            new Setting(inner).setName("Type").addDropdown((d) => {
+                for (const t of types) d.addOption(t, t);
+                d.setValue(entry.relationshipType).onChange((v) => {
+                    entry.relationshipType = v as ConceptRelationshipType;
+                });
+            });
+
+            new Setting(inner)
+                .setName("Description")
+                .addTextArea((t) =>
+                    t.setValue(entry.description).onChange((v) => {
+                        entry.description = v;
+                    })
+                );
+
+            const deleteBtn = inner.createEl("button", {
+                text: "Delete (删除)",
+                cls: "mod-warning",
+            });
+            deleteBtn.addEventListener("click", () => {
+                entries.splice(i, 1);
+                this.renderConceptEntries(container);
+            });
+        }
+    }
+
+    private renderCaseEntries(container: HTMLElement): void {
+        container.empty();
+        const entries = this.matrix.caseEntries ?? [];
+        const types: CaseCitationType[] = ["follows", "overrules", "distinguishes"];
+        const name = (id: string) =>
+            this.entities.cases.find((c) => c.id === id)?.name ?? id;
+
+        if (entries.length === 0) {
+            container.createEl("p", { text: "None found.", cls: "setting-item-description" });
+            return;
+        }
+
+        for (let i = 0; i < entries.length; i++) {
+            const entry = entries[i];
+            const detailsEl = container.createEl("details", {
+                cls: "law-restructurer-entity-card",
+            });
+            detailsEl.createEl("summary", {
+                text: `${name(entry.citingCaseId)} → ${name(entry.citedCaseId)} [${entry.relationshipType}]`,
+            });
+            const inner = detailsEl.createDiv();
+
+            new Setting(inner).setName("Treatment").addDropdown((d) => {
+                for (const t of types) d.addOption(t, t);
+                d.setValue(entry.relationshipType).onChange((v) => {
+                    entry.relationshipType = v as CaseCitationType;
+                });
+            });
+
+            new Setting(inner)
+                .setName("Description")
+                .addTextArea((t) =>
+                    t.setValue(entry.description).onChange((v) => {
+                        entry.description = v;
+                    })
+                );
+
+            const deleteBtn = inner.createEl("button", {
+                text: "Delete (删除)",
+                cls: "mod-warning",
+            });
+            deleteBtn.addEventListener("click", () => {
+                entries.splice(i, 1);
+                this.renderCaseEntries(container);
+            });
+        }
+    }
+
     onClose(): void {
         this.contentEl.empty();
     }
@@ -0,0 +1,94 @@
+/**
+ * Concept hierarchy helpers. A concept may name a broader parent concept
+ * (`parentId`), e.g. Minimum Contacts → Specific Jurisdiction → Personal
+ * Jurisdiction. Pure functions over the concept list — no I/O.
+ */
+import type { LegalConcept } from "../types";
+
+type HierarchyNode = Pick<LegalConcept, "id" | "name" | "parentId">;
+
+/**
+ * Drop parent links that point at a missing concept, at the concept itself,
+ * or that would close a cycle (the first link found on a cycle is cut).
+ * Returns new concept objects; the input is not mutated.
+ */
+export function sanitizeConceptParents<T extends HierarchyNode>(concepts: T[]): T[] {
+    const ids = new Set(concepts.map((c) => c.id));
+    const result = concepts.map((c) => {
+        const copy = { ...c };
+        if (!copy.parentId || copy.parentId === copy.id || !ids.has(copy.parentId)) delete copy.parentId;
+        return copy;
+    });
+
+    const byId = new Map(result.map((c) => [c.id, c]));
+    for (const concept of result) {
+        const seen = new Set<string>([concept.id]);
+        let current = concept;
+        while (current.parentId) {
+            if (seen.has(current.parentId)) {
+                delete current.parentId;
+                break;
+            }
+            seen.add(current.parentId);
+            current = byId.get(current.parentId)!;
+        }
+    }
+    return result;
+}
+
+/** Ancestors of a concept, outermost first. Cycle-safe. */
+export function conceptAncestors<T extends HierarchyNode>(concept: T, concepts: T[]): T[] {
+    const byId = new Map(concepts.map((c) => [c.id, c]));
+    const chain: T[] = [];
+    const seen = new Set<string>([concept.id]);
+    let parent = concept.parentId ? byId.get(concept.parentId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+        chain.unshift(parent);
+        seen.add(parent.id);
+        parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return chain;
+}
+
+/** Direct sub-concepts of a concept, in list order. */
+export function childConcepts<T extends HierarchyNode>(conceptId: string, concepts: T[]): T[] {
+    return concepts.filter((c) => c.parentId === conceptId && c.id !== conceptId);
+}
+
+/** True when at least one concept has a parent. */
+export function hasHierarchy(concepts: HierarchyNode[]): boolean {
+    const ids = new Set(concepts.map((c) => c.id));
+    return concepts.some((c) => !!c.parentId && c.parentId !== c.id && ids.has(c.parentId));
+}
+
+/** Indented bullet tree of the whole hierarchy (roots in list order). */
+export function renderConceptTree(concepts: HierarchyNode[]): string {
+    const clean = sanitizeConceptParents(concepts);
+    const lines: string[] = [];
+    const walk = (node: HierarchyNode, depth: number): void => {
+        lines.push(`${"  ".repeat(depth)}- ${node.name}`);
+        for (const child of childConcepts(node.id, clean)) walk(child, depth + 1);
+    };
+    for (const root of clean.filter((c) => !c.parentId)) walk(root, 0);
+    return lines.join("\n");
+}
+
+/** `[[Personal Jurisdiction]] › [[Specific Jurisdiction]] › Minimum Contacts`; empty for a root. */
+export function renderBreadcrumbs(concept: LegalConcept, concepts: LegalConcept[]): string {
+    const ancestors = conceptAncestors(concept, concepts);
+    if (ancestors.length === 0) return "";
+    return [...ancestors.map((a) => `[[${a.name}]]`), concept.name].join(" › ");
+}
+
+/** "Sub-doctrines" section for a concept page; empty when it has none. */
+export function renderSubDoctrinesSection(concept: LegalConcept, concepts: LegalConcept[]): string {
+    const children = childConcepts(concept.id, concepts);
+    if (children.length === 0) return "";
+    const bullets = children
+        .map((c) => {
+            const firstSentence = c.definition.split(/(?<=[.。])\s*/)[0]?.trim();
+            return firstSentence ? `- [[${c.name}]] — ${firstSentence}` : `- [[${c.name}]]`;
+        })
+        .join("\n");
+    return `\n\n## Sub-doctrines (下位学说)\n\n${bullets}\n`;
+}
@@ -4,7 +4,7 @@
  */
 
 /** Cosine similarity of two equal-length vectors. Returns 0 for empty/mismatched/zero vectors. */
-export function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
     if (a.length === 0 || a.length !== b.length) return 0;
 
     let dot = 0;
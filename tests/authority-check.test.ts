@@ -48,4 +48,26 @@ describe("generateAuthorityCheckPage", () => {
         const page = generateAuthorityCheckPage(matrix, entities);
         expect(page).not.toContain("[[Solid Doctrine]]");
     });
+
+    it("flags doctrines whose establishing case a later case overruled", () => {
+        const { entities, matrix } = fixture();
+        matrix.caseEntries = [
+            { citingCaseId: "new", citedCaseId: "old", relationshipType: "overrules", description: "expressly overruled" },
+        ];
+        const page = generateAuthorityCheckPage(matrix, entities);
+
+        expect(page).toContain("[[Solid Doctrine]]");
+        expect(page).toContain("[[Old v. State]] (1950) **overruled** by [[New v. State]] (1990)");
+        expect(page).toContain("## Overruled & Distinguished Cases");
+    });
+
+    it("ignores cases that merely follow earlier ones", () => {
+        const { entities, matrix } = fixture();
+        matrix.caseEntries = [
+            { citingCaseId: "new", citedCaseId: "old", relationshipType: "follows", description: "applied" },
+        ];
+        const page = generateAuthorityCheckPage(matrix, entities);
+        expect(page).not.toContain("[[Solid Doctrine]]");
+        expect(page).not.toContain("Overruled & Distinguished Cases");
+    });
 });
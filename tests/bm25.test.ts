@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { buildLexicalIndex, rankByBm25, tokenize } from "../src/rag/bm25";
+
+describe("tokenize", () => {
+    it("keeps statute subsections together and also yields the bare section", () => {
+        expect(tokenize("IRC § 752(b) applies")).toEqual(["irc", "752(b)", "752", "applies"]);
+    });
+
+    it("splits Chinese runs into character bigrams", () => {
+        expect(tokenize("合伙企业法")).toEqual(["合伙", "伙企", "企业", "业法"]);
+        expect(tokenize("见第7条")).toEqual(["见第", "7", "条"]);
+    });
+
+    it("normalises full-width characters and case", () => {
+        expect(tokenize("ＩＲＣ Culbertson")).toEqual(["irc", "culbertson"]);
+    });
+});
+
+describe("rankByBm25", () => {
+    const texts = [
+        "A partner's share of liabilities is treated as a contribution of money.",
+        "Under § 752(b) a decrease in a partner's share of liabilities is a distribution of money.",
+        "Commissioner v. Culbertson asks whether the parties intended to join together as partners.",
+        "合伙人对合伙企业债务承担无限连带责任。",
+    ];
+    const index = buildLexicalIndex(texts);
+
+    it("ranks the chunk that literally contains the citation first", () => {
+        expect(rankByBm25(index, "IRC § 752(b)", 4).map((r) => r.index)).toEqual([1]);
+        expect(rankByBm25(index, "Culbertson", 4)[0].index).toBe(2);
+    });
+
+    it("finds Chinese notes by a Chinese query", () => {
+        expect(rankByBm25(index, "合伙企业的债务", 4).map((r) => r.index)).toEqual([3]);
+    });
+
+    it("ignores terms that are not in any chunk, including Object.prototype names", () => {
+        expect(rankByBm25(index, "constructor toString", 4)).toEqual([]);
+        expect(rankByBm25(buildLexicalIndex([]), "anything", 4)).toEqual([]);
+    });
+
+    it("survives a JSON round trip", () => {
+        const loaded = JSON.parse(JSON.stringify(buildLexicalIndex(["the constructor clause"])));
+        expect(rankByBm25(loaded, "constructor", 1)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { LLMClient } from "../src/ai/llm-provider";
+import { DEFAULT_SETTINGS, type LawNoteSettings } from "../src/types";
+import {
+    BudgetExceededError,
+    MeteredLLMClient,
+    RunBudget,
+    courseBudgetExhausted,
+    courseMonthSpendUSD,
+    monthKey,
+    recordCourseSpend,
+    runLimitUSD,
+} from "../src/ai/budget";
+
+/** Answers every prompt with "ok", billing 1M tokens per call. */
+class BillingLLM implements LLMClient {
+    calls = 0;
+
+    async generate(): Promise<string> {
+        this.calls++;
+        return "ok";
+    }
+    async generateStructured<T>(_prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        return schema.parse(await this.generate());
+    }
+    async generateStreaming(): Promise<string> {
+        return this.generate();
+    }
+    async generateStructuredStreaming<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        return this.generateStructured(prompt, schema);
+    }
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        return texts.map(() => [0]);
+    }
+    abort(): void {}
+    getTotalTokensUsed(): number {
+        return this.calls * 1_000_000;
+    }
+}
+
+/** A metered client whose calls cost $1 each (projected at $1 as well). */
+function metered(budget: RunBudget) {
+    const inner = new BillingLLM();
+    budget.track(() => inner.getTotalTokensUsed() / 1_000_000);
+    return { inner, client: new MeteredLLMClient(inner, budget, () => 1) };
+}
+
+function settings(overrides: Partial<LawNoteSettings> = {}): LawNoteSettings {
+    return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+const OCT = new Date(2026, 9, 19);
+const NOV = new Date(2026, 10, 2);
+
+describe("course spend", () => {
+    it("keys spend by calendar month", () => {
+        expect(monthKey(OCT)).toBe("2026-10");
+        expect(monthKey(new Date(2027, 0, 1))).toBe("2027-01");
+    });
+
+    it("adds to the current month and restarts in a new one", () => {
+        let s = settings();
+        s = { ...s, courseSpend: recordCourseSpend(s, "Tax", 2, OCT) };
+        s = { ...s, courseSpend: recordCourseSpend(s, "Tax", 1.5, OCT) };
+        expect(courseMonthSpendUSD(s, "Tax", OCT)).toBe(3.5);
+        expect(courseMonthSpendUSD(s, "Tax", NOV)).toBe(0);
+        expect(recordCourseSpend(s, "Tax", 1, NOV).Tax).toEqual({ month: "2026-11", usd: 1 });
+        expect(DEFAULT_SETTINGS.courseSpend).toEqual({});
+    });
+
+    it("is exhausted only when a monthly budget is set and reached", () => {
+        const s = settings({ courseSpend: { Tax: { month: "2026-10", usd: 5 } } });
+        expect(courseBudgetExhausted(s, "Tax", OCT)).toBe(false);
+        expect(courseBudgetExhausted({ ...s, courseMonthlyBudgetUSD: 5 }, "Tax", OCT)).toBe(true);
+        expect(courseBudgetExhausted({ ...s, courseMonthlyBudgetUSD: 5 }, "Tax", NOV)).toBe(false);
+        expect(courseBudgetExhausted({ ...s, courseMonthlyBudgetUSD: 5 }, "Torts", OCT)).toBe(false);
+    });
+
+    it("limits a run by the tighter of the run budget and the month's remainder", () => {
+        const s = settings({ courseSpend: { Tax: { month: "2026-10", usd: 8 } } });
+        expect(runLimitUSD(s, "Tax", OCT)).toBe(Number.POSITIVE_INFINITY);
+        expect(runLimitUSD({ ...s, runBudgetUSD: 3 }, "Tax", OCT)).toBe(3);
+        expect(runLimitUSD({ ...s, runBudgetUSD: 3, courseMonthlyBudgetUSD: 10 }, "Tax", OCT)).toBe(2);
+        expect(runLimitUSD({ ...s, courseMonthlyBudgetUSD: 5 }, "Tax", OCT)).toBe(0);
+    });
+});
+
+describe("RunBudget + MeteredLLMClient", () => {
+    it("passes calls through while under the limit", async () => {
+        const prompts: number[] = [];
+        const budget = new RunBudget(3, async (spent) => {
+            prompts.push(spent);
+            return false;
+        });
+        const { inner, client } = metered(budget);
+        await client.generate("a");
+        await client.generate("b");
+        await client.generate("c");
+        expect(inner.calls).toBe(3);
+        expect(budget.spentUSD).toBe(3);
+        expect(prompts).toEqual([]);
+    });
+
+    it("stops before the call that would cross the limit when declined", async () => {
+        const budget = new RunBudget(2, async () => false);
+        const { inner, client } = metered(budget);
+        await client.generate("a");
+        await client.generate("b");
+        await expect(client.generate("c")).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(inner.calls).toBe(2);
+        expect(budget.stopped).toBe(true);
+        // Later calls fail without asking again.
+        await expect(client.generateStructured("d", z.string())).rejects.toBeInstanceOf(BudgetExceededError);
+    });
+
+    it("continues for the rest of the run once approved", async () => {
+        let asked = 0;
+        const budget = new RunBudget(1, async () => {
+            asked++;
+            return true;
+        });
+        const { inner, client } = metered(budget);
+        for (const p of ["a", "b", "c", "d"]) await client.generate(p);
+        expect(inner.calls).toBe(4);
+        expect(asked).toBe(1);
+    });
+
+    it("asks once for concurrent calls that cross the limit together", async () => {
+        let asked = 0;
+        const budget = new RunBudget(0.5, async () => {
+            asked++;
+            return false;
+        });
+        const { client } = metered(budget);
+        const results = await Promise.allSettled([client.generate("a"), client.generate("b"), client.generate("c")]);
+        expect(asked).toBe(1);
+        expect(results.every((r) => r.status === "rejected")).toBe(true);
+    });
+
+    it("checks a projected pre-run cost against the limit", async () => {
+        const budget = new RunBudget(2, async () => false);
+        await expect(budget.check(1.5)).resolves.toBeUndefined();
+        await expect(budget.check(2.5)).rejects.toThrow("Budget of $2.00 reached");
+    });
+
+    it("shares the tally with session views", async () => {
+        const budget = new RunBudget(1, async () => false);
+        const { client } = metered(budget);
+        const session = client.withInner(client.inner);
+        await session.generate("a");
+        await expect(client.generate("b")).rejects.toBeInstanceOf(BudgetExceededError);
+    });
+
+    it("never asks without a limit", async () => {
+        const budget = new RunBudget(Number.POSITIVE_INFINITY, async () => false);
+        const { inner, client } = metered(budget);
+        for (const p of ["a", "b", "c"]) await client.generate(p);
+        expect(inner.calls).toBe(3);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+    sanitizeConceptParents,
+    conceptAncestors,
+    hasHierarchy,
+    renderConceptTree,
+    renderBreadcrumbs,
+    renderSubDoctrinesSection,
+} from "../src/utils/concept-hierarchy";
+import type { LegalConcept } from "../src/types";
+
+function concept(id: string, name: string, parentId?: string, definition = ""): LegalConcept {
+    return { id, name, parentId, definition, category: "doctrine", sourceReferences: [] };
+}
+
+const tree = (): LegalConcept[] => [
+    concept("pj", "Personal Jurisdiction", undefined, "Power over the parties. Two kinds."),
+    concept("sj", "Specific Jurisdiction", "pj", "Claim-linked jurisdiction. Requires contacts."),
+    concept("gj", "General Jurisdiction", "pj"),
+    concept("mc", "Minimum Contacts", "sj"),
+];
+
+describe("sanitizeConceptParents", () => {
+    it("drops missing, self and cyclic parents without mutating the input", () => {
+        const input = [
+            concept("a", "A", "b"),
+            concept("b", "B", "a"),
+            concept("c", "C", "c"),
+            concept("d", "D", "missing"),
+        ];
+        const clean = sanitizeConceptParents(input);
+        expect(clean.filter((c) => c.parentId)).toHaveLength(1);
+        expect(clean.find((c) => c.id === "c")!.parentId).toBeUndefined();
+        expect(clean.find((c) => c.id === "d")!.parentId).toBeUndefined();
+        expect(input[0].parentId).toBe("b");
+    });
+});
+
+describe("hierarchy rendering", () => {
+    it("lists ancestors outermost first", () => {
+        const all = tree();
+        expect(conceptAncestors(all[3], all).map((c) => c.id)).toEqual(["pj", "sj"]);
+        expect(hasHierarchy(all)).toBe(true);
+        expect(hasHierarchy([concept("x", "X", "missing")])).toBe(false);
+    });
+
+    it("renders breadcrumbs only for sub-concepts", () => {
+        const all = tree();
+        expect(renderBreadcrumbs(all[3], all)).toBe(
+            "[[Personal Jurisdiction]] › [[Specific Jurisdiction]] › Minimum Contacts"
+        );
+        expect(renderBreadcrumbs(all[0], all)).toBe("");
+    });
+
+    it("renders a sub-doctrines section with each child's first sentence", () => {
+        const all = tree();
+        const section = renderSubDoctrinesSection(all[0], all);
+        expect(section).toContain("## Sub-doctrines");
+        expect(section).toContain("- [[Specific Jurisdiction]] — Claim-linked jurisdiction.");
+        expect(section).toContain("- [[General Jurisdiction]]\n");
+        expect(renderSubDoctrinesSection(all[3], all)).toBe("");
+    });
+
+    it("renders an indented tree", () => {
+        expect(renderConceptTree(tree())).toBe(
+            "- Personal Jurisdiction\n  - Specific Jurisdiction\n    - Minimum Contacts\n  - General Jurisdiction"
+        );
+    });
+});
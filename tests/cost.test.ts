@@ -1,10 +1,17 @@
 import { describe, it, expect } from "vitest";
 import {
+    addUsage,
     estimateCostUSD,
+    estimateInputCostUSD,
+    formatProviderBreakdown,
     formatTokens,
     formatUSD,
     isLocalGeneration,
+    providerCostUSD,
+    providerSplitCostUSD,
+    splitCostUSD,
     usageSummary,
+    type TokenUsage,
 } from "../src/ai/cost";
 import { DEFAULT_SETTINGS, type LawNoteSettings } from "../src/types";
 
@@ -13,14 +20,46 @@ const settings = (over: Partial<LawNoteSettings> = {}): LawNoteSettings => ({
     ...over,
 });
 
+/** OpenAI itself through the OpenAI-compatible provider, with its rates added to the catalog. */
+const pricedOpenAI = () =>
+    settings({
+        generationProvider: "openai",
+        openaiModel: "gpt-4.1-mini",
+        modelCatalog: [
+            ...DEFAULT_SETTINGS.modelCatalog,
+            {
+                model: "gpt-4.1-mini",
+                inputPerMTok: 0.4,
+                outputPerMTok: 1.6,
+                cachedPerMTok: 0.1,
+                contextWindow: 1_000_000,
+                maxOutput: 32_768,
+            },
+        ],
+    });
+
 describe("estimateCostUSD", () => {
-    it("prices known models per 1M tokens", () => {
-        expect(estimateCostUSD("gemini-2.5-flash", 1_000_000)).toBeCloseTo(0.3, 5);
-        expect(estimateCostUSD("gemini-2.5-pro", 1_000_000)).toBeCloseTo(5, 5);
+    it("prices known models at a blended rate of three input tokens per output token", () => {
+        expect(estimateCostUSD("gemini-2.5-flash", 1_000_000)).toBeCloseTo(0.85, 5);
+        expect(estimateCostUSD("gemini-2.5-pro", 1_000_000)).toBeCloseTo(3.4375, 5);
     });
 
     it("falls back to the flash rate for unknown models", () => {
-        expect(estimateCostUSD("mystery-model", 1_000_000)).toBeCloseTo(0.3, 5);
+        expect(estimateCostUSD("mystery-model", 1_000_000)).toBeCloseTo(0.85, 5);
+    });
+
+    it("uses the rates in the given catalog", () => {
+        const catalog = [
+            {
+                model: "mystery-model",
+                inputPerMTok: 1,
+                outputPerMTok: 5,
+                cachedPerMTok: 0,
+                contextWindow: 8000,
+                maxOutput: 2000,
+            },
+        ];
+        expect(estimateCostUSD("mystery-model", 1_000_000, catalog)).toBeCloseTo(2, 5);
     });
 });
 
@@ -41,12 +80,100 @@ describe("formatTokens / formatUSD", () => {
 describe("isLocalGeneration / usageSummary", () => {
     it("detects local generation", () => {
         expect(isLocalGeneration(settings({ generationProvider: "ollama" }))).toBe(true);
+        expect(isLocalGeneration(settings({ generationProvider: "openai" }))).toBe(true);
         expect(isLocalGeneration(settings({ generationProvider: "gemini" }))).toBe(false);
     });
 
+    it("bills an OpenAI-compatible model that has catalog rates", () => {
+        expect(isLocalGeneration(pricedOpenAI())).toBe(false);
+        expect(usageSummary(pricedOpenAI(), 1_000_000)).toContain("$0.70");
+    });
+
     it("labels local runs as free and cloud runs with a cost", () => {
         expect(usageSummary(settings({ generationProvider: "ollama" }), 8000)).toContain("free");
         const cloud = usageSummary(settings({ generationProvider: "gemini", modelName: "gemini-2.5-flash" }), 1_000_000);
-        expect(cloud).toContain("$0.30");
+        expect(cloud).toContain("$0.85");
+    });
+});
+
+describe("per-provider usage", () => {
+    it("accumulates tokens by provider label", () => {
+        const usage: TokenUsage = { tokens: 0 };
+        addUsage(usage, { "gemini:gemini-2.5-flash": 1000 });
+        addUsage(usage, { "gemini:gemini-2.5-flash": 500, "ollama:llama3.1": 200 });
+        expect(usage.tokens).toBe(1700);
+        expect(usage.byProvider).toEqual({ "gemini:gemini-2.5-flash": 1500, "ollama:llama3.1": 200 });
+    });
+
+    it("prices Gemini labels and catalog models; other models are free", () => {
+        expect(providerCostUSD("gemini:gemini-2.5-pro", 1_000_000)).toBeCloseTo(3.4375, 5);
+        expect(providerCostUSD("ollama:llama3.1", 1_000_000)).toBe(0);
+        expect(providerCostUSD("openai:qwen", 1_000_000)).toBe(0);
+        const catalog = [
+            {
+                model: "gpt-4o",
+                inputPerMTok: 2.5,
+                outputPerMTok: 10,
+                cachedPerMTok: 1.25,
+                contextWindow: 128_000,
+                maxOutput: 16_384,
+            },
+        ];
+        expect(providerCostUSD("openai:gpt-4o", 1_000_000, catalog)).toBeCloseTo(4.375, 5);
+    });
+
+    it("sums the cost across providers and shows the split", () => {
+        const summary = usageSummary(settings(), 2_000_000, {
+            "gemini:gemini-2.5-pro": 1_000_000,
+            "ollama:llama3.1": 1_000_000,
+        });
+        expect(summary).toContain("~$3.44");
+        expect(summary).toContain("ollama:llama3.1 1.00M free");
+    });
+
+    it("prices a run by the provider that actually served it", () => {
+        const summary = usageSummary(settings({ generationProvider: "gemini" }), 8000, { "ollama:llama3.1": 8000 });
+        expect(summary).toContain("free");
+        expect(formatProviderBreakdown({ "ollama:llama3.1": 0 })).toBe("");
+    });
+});
+
+describe("estimateInputCostUSD", () => {
+    it("prices the sources once per source-reading step at that step's model", () => {
+        expect(estimateInputCostUSD(settings({ modelName: "gemini-2.5-flash" }), 1_000_000)).toBeCloseTo(0.6, 5);
+        const routed = settings({
+            modelName: "gemini-2.5-flash",
+            stepModels: {
+                extraction: { provider: "gemini", model: "gemini-2.5-pro" },
+                relationships: { provider: "ollama", model: "llama3.1" },
+            },
+        });
+        expect(estimateInputCostUSD(routed, 1_000_000)).toBeCloseTo(1.25, 5);
+        expect(estimateInputCostUSD(settings({ generationProvider: "ollama" }), 1_000_000)).toBe(0);
+        expect(estimateInputCostUSD(settings({ generationProvider: "openai", openaiModel: "qwen3" }), 1_000_000)).toBe(0);
+    });
+
+    it("prices an OpenAI-compatible model from the catalog", () => {
+        expect(estimateInputCostUSD(pricedOpenAI(), 1_000_000)).toBeCloseTo(0.8, 5);
+    });
+});
+
+describe("splitCostUSD", () => {
+    it("prices input and output tokens at their own rates", () => {
+        expect(splitCostUSD("gemini-2.5-pro", { input: 1_000_000, output: 0 })).toBeCloseTo(1.25, 5);
+        expect(splitCostUSD("gemini-2.5-pro", { input: 1_000_000, output: 1_000_000 })).toBeCloseTo(11.25, 5);
+        expect(splitCostUSD("gemini-2.5-flash", { input: 0, output: 2_000_000 })).toBeCloseTo(5, 5);
+        expect(splitCostUSD("mystery-model", { input: 1_000_000, output: 1_000_000 })).toBeCloseTo(2.8, 5);
+    });
+
+    it("prices provider-cached input at the cached rate", () => {
+        const tokens = { input: 1_000_000, output: 0, cachedInput: 800_000 };
+        expect(splitCostUSD("gemini-2.5-pro", tokens)).toBeCloseTo(0.25 + 0.248, 5);
+    });
+
+    it("prices only Gemini labels without a catalog entry", () => {
+        const tokens = { input: 1_000_000, output: 1_000_000 };
+        expect(providerSplitCostUSD("gemini:gemini-2.5-flash-lite", tokens)).toBeCloseTo(0.5, 5);
+        expect(providerSplitCostUSD("ollama:llama3.1", tokens)).toBe(0);
     });
 });
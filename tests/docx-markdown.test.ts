@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { docxHtmlToMarkdown } from "../src/parsers/docx-markdown";
+
+describe("docxHtmlToMarkdown", () => {
+    it("keeps headings, paragraphs and bold/italic terms", () => {
+        const html =
+            "<h1>Torts</h1><h2>Negligence</h2>" +
+            "<p>A <strong>duty of care</strong> is owed to <em>foreseeable</em> plaintiffs.</p>";
+        expect(docxHtmlToMarkdown(html)).toBe(
+            "# Torts\n\n## Negligence\n\nA **duty of care** is owed to *foreseeable* plaintiffs."
+        );
+    });
+
+    it("renders nested ordered and bullet lists", () => {
+        const html =
+            "<ol><li>Duty</li><li>Breach<ul><li>Hand formula</li></ul></li><li>Causation</li></ol>";
+        expect(docxHtmlToMarkdown(html)).toBe(
+            "1. Duty\n2. Breach\n    - Hand formula\n3. Causation"
+        );
+    });
+
+    it("renders tables with the first row as header and escapes pipes", () => {
+        const html =
+            "<table><tr><td><p>Case</p></td><td><p>Holding</p></td></tr>" +
+            "<tr><td><p>Palsgraf</p></td><td><p>No duty a|b</p></td></tr></table>";
+        expect(docxHtmlToMarkdown(html)).toBe(
+            "| Case | Holding |\n| --- | --- |\n| Palsgraf | No duty a\\|b |"
+        );
+    });
+
+    it("turns footnotes into [^n] references and definitions", () => {
+        const html =
+            '<p>Proximate cause<sup><a href="#footnote-1" id="footnote-ref-1">[1]</a></sup>.</p>' +
+            '<ol><li id="footnote-1"><p> Palsgraf v. Long Island R.R. ' +
+            '<a href="#footnote-ref-1">↑</a></p></li></ol>';
+        expect(docxHtmlToMarkdown(html)).toBe(
+            "Proximate cause[^1].\n\n[^1]: Palsgraf v. Long Island R.R."
+        );
+    });
+
+    it("decodes entities and drops images", () => {
+        const html = '<p>AT&amp;T &lt;v.&gt; FCC<img src="data:image/png;base64,AAA" /></p>';
+        expect(docxHtmlToMarkdown(html)).toBe("AT&T <v.> FCC");
+    });
+});
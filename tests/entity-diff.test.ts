@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { diffEntities, diffIsEmpty, affectedConceptNames, emptyDiff } from "../src/pipeline/entity-diff";
+import {
+    diffEntities,
+    diffIsEmpty,
+    affectedConceptNames,
+    emptyDiff,
+    markConceptsWithRemovedCases,
+} from "../src/pipeline/entity-diff";
 import type { ExtractedEntities, LegalCase, LegalConcept, RelationshipMatrix } from "../src/types";
 
 function concept(name: string, definition: string): LegalConcept {
@@ -58,3 +64,27 @@ describe("affectedConceptNames", () => {
         expect(names.has("Z")).toBe(true);
     });
 });
+
+describe("markConceptsWithRemovedCases", () => {
+    it("marks concepts that lost a case link as updated, once", () => {
+        const matrix: RelationshipMatrix = {
+            entries: [
+                { caseId: "Gone", conceptId: "Y", relationshipType: "applies", description: "d", strength: "primary" },
+                { caseId: "Gone", conceptId: "Z", relationshipType: "applies", description: "d", strength: "primary" },
+                { caseId: "Kept", conceptId: "Z", relationshipType: "applies", description: "d", strength: "primary" },
+            ],
+            casesInOrder: ["Gone", "Kept"],
+            conceptsInOrder: ["Y", "Z"],
+        };
+        const entities: ExtractedEntities = {
+            concepts: [concept("Y", "d"), concept("Z", "d")],
+            cases: [legalCase("Kept", "h")],
+            principles: [],
+            rules: [],
+            metadata: { sourceDocuments: [], extractionTimestamp: new Date(0).toISOString(), modelUsed: "t", totalTokensUsed: 0 },
+        };
+        const diff = { ...emptyDiff(), addedConcepts: ["Z"] };
+        markConceptsWithRemovedCases(diff, matrix, entities);
+        expect(diff.updatedConcepts).toEqual(["Y"]);
+    });
+});
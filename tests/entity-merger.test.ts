@@ -1,6 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { mergeEntities, deduplicateEntities } from "../src/pipeline/entity-merger";
-import type { ExtractedEntities, LegalConcept } from "../src/types";
+import {
+    mergeEntities,
+    deduplicateEntities,
+    reconcileEntityIds,
+    removeSourceDocuments,
+} from "../src/pipeline/entity-merger";
+import type { ExtractedEntities, LegalCase, LegalConcept, LegalStatute } from "../src/types";
 
 function concept(partial: Partial<LegalConcept> & { id: string; name: string }): LegalConcept {
     return {
@@ -11,12 +16,35 @@ function concept(partial: Partial<LegalConcept> & { id: string; name: string }):
     };
 }
 
-function entities(concepts: LegalConcept[]): ExtractedEntities {
+function legalCase(id: string, name: string, relatedConcepts: string[] = []): LegalCase {
+    return { id, name, facts: "", holding: "", significance: "", relatedConcepts, sourceReferences: [] };
+}
+
+function statute(id: string, citation: string, partial: Partial<LegalStatute> = {}): LegalStatute {
+    return {
+        id,
+        citation,
+        jurisdiction: "US Federal",
+        textSummary: "",
+        elements: [],
+        relatedConcepts: [],
+        relatedCases: [],
+        sourceReferences: [],
+        ...partial,
+    };
+}
+
+function entities(
+    concepts: LegalConcept[],
+    cases: LegalCase[] = [],
+    statutes: LegalStatute[] = []
+): ExtractedEntities {
     return {
         concepts,
-        cases: [],
+        cases,
         principles: [],
         rules: [],
+        statutes,
         metadata: {
             sourceDocuments: [],
             extractionTimestamp: new Date(0).toISOString(),
@@ -74,6 +102,34 @@ describe("mergeEntities (incremental updates)", () => {
         expect(tax.sourceReferences.sort()).toEqual(["ch1", "ch2"]);
     });
 
+    it("clears the unverified flag when the other side has located evidence", () => {
+        const existing = entities([concept({ id: "t", name: "Taxation", unverified: true, quotes: ["q1"] })]);
+        const incoming = entities([
+            concept({
+                id: "t",
+                name: "Taxation",
+                quotes: ["q2"],
+                evidence: [{ quote: "q2", file: "ch2.md", offset: 10 }],
+            }),
+        ]);
+
+        const tax = mergeEntities(existing, incoming).concepts[0];
+        expect(tax.unverified).toBeUndefined();
+        expect(tax.quotes).toEqual(["q1", "q2"]);
+        expect(tax.evidence).toHaveLength(1);
+    });
+
+    it("remaps incoming parent ids onto the matched existing concepts", () => {
+        const existing = entities([concept({ id: "pj", name: "Personal Jurisdiction" })]);
+        const incoming = entities([
+            concept({ id: "pj2", name: "Personal Jurisdiction" }),
+            concept({ id: "sj", name: "Specific Jurisdiction", parentId: "pj2" }),
+        ]);
+
+        const merged = mergeEntities(existing, incoming);
+        expect(merged.concepts.find((c) => c.id === "sj")!.parentId).toBe("pj");
+    });
+
     it("unions metadata source documents", () => {
         const existing = entities([]);
         existing.metadata.sourceDocuments = ["ch1.md"];
@@ -84,3 +140,115 @@ describe("mergeEntities (incremental updates)", () => {
         expect(merged.metadata.sourceDocuments.sort()).toEqual(["ch1.md", "ch2.md"]);
     });
 });
+
+describe("reconcileEntityIds (chunks of one split document)", () => {
+    it("maps a re-extracted entity onto the earlier chunk's id and rewrites references", () => {
+        const first = entities(
+            [concept({ id: "minimum-contacts", name: "Minimum Contacts" })],
+            [legalCase("intl-shoe", "International Shoe Co. v. Washington", ["minimum-contacts"])]
+        );
+        const second = entities(
+            [concept({ id: "min-contacts", name: "Minimum Contacts" })],
+            [legalCase("world-wide", "World-Wide Volkswagen v. Woodson", ["min-contacts"])]
+        );
+
+        const merged = mergeEntities(first, reconcileEntityIds(first, second));
+
+        expect(merged.concepts.map((c) => c.id)).toEqual(["minimum-contacts"]);
+        const wwv = merged.cases.find((c) => c.id === "world-wide")!;
+        expect(wwv.relatedConcepts).toEqual(["minimum-contacts"]);
+    });
+
+    it("renames an id that collides with a different entity", () => {
+        const first = entities([concept({ id: "duty", name: "Duty of Care" })]);
+        const second = entities(
+            [concept({ id: "duty", name: "Duty to Rescue" })],
+            [legalCase("yania", "Yania v. Bigan", ["duty"])]
+        );
+
+        const reconciled = reconcileEntityIds(first, second);
+
+        expect(reconciled.concepts[0].id).toBe("duty-2");
+        expect(reconciled.cases[0].relatedConcepts).toEqual(["duty-2"]);
+    });
+});
+
+describe("statutes (keyed by citation)", () => {
+    it("merges subsection and differently-formatted citations of one section", () => {
+        const existing = entities([], [], [
+            statute("irc-721", "IRC § 721", { textSummary: "old", elements: ["contribution"] }),
+        ]);
+        const incoming = entities([], [], [
+            statute("irc-721b", "I.R.C. §721(b)", { textSummary: "new", elements: ["investment company"] }),
+        ]);
+
+        const merged = mergeEntities(existing, incoming);
+
+        expect(merged.statutes).toHaveLength(1);
+        expect(merged.statutes![0].citation).toBe("IRC § 721");
+        expect(merged.statutes![0].textSummary).toBe("new");
+        expect(merged.statutes![0].elements).toEqual(["contribution", "investment company"]);
+    });
+
+    it("keeps sections whose numbers merely share a prefix apart", () => {
+        const out = deduplicateEntities(
+            entities([], [], [statute("a", "IRC § 721"), statute("b", "IRC § 7211")])
+        );
+        expect(out.statutes!.map((s) => s.citation)).toEqual(["IRC § 721", "IRC § 7211"]);
+    });
+
+    it("reconciles statute ids and their concept references across chunks", () => {
+        const first = entities(
+            [concept({ id: "nonrecognition", name: "Nonrecognition" })],
+            [],
+            [statute("irc-721", "IRC § 721")]
+        );
+        const second = entities(
+            [concept({ id: "non-recog", name: "Nonrecognition" })],
+            [],
+            [statute("sec-721", "IRC § 721(a)", { relatedConcepts: ["non-recog"] })]
+        );
+
+        const reconciled = reconcileEntityIds(first, second);
+
+        expect(reconciled.statutes![0].id).toBe("irc-721");
+        expect(reconciled.statutes![0].relatedConcepts).toEqual(["nonrecognition"]);
+    });
+
+    it("tolerates knowledge bases saved before statutes existed", () => {
+        const old = entities([]);
+        delete old.statutes;
+        const merged = mergeEntities(old, entities([], [], [statute("s", "UCC § 2-207")]));
+        expect(merged.statutes!.map((s) => s.citation)).toEqual(["UCC § 2-207"]);
+    });
+});
+
+describe("removeSourceDocuments", () => {
+    it("drops entities sourced only from deleted notes and strips their references elsewhere", () => {
+        const kb = entities(
+            [
+                concept({ id: "offer", name: "Offer", sourceReferences: ["Week 1.md › Offer", "Week 2.md › Review"] }),
+                concept({ id: "mailbox", name: "Mailbox Rule", parentId: "accept", sourceReferences: ["Week 2.md"] }),
+                concept({ id: "accept", name: "Acceptance", sourceReferences: ["Week 2.md › Acceptance"] }),
+                concept({ id: "manual", name: "Added By Hand" }),
+            ],
+            [legalCase("adams", "Adams v. Lindsell", ["accept", "offer"])]
+        );
+        kb.cases[0].sourceReferences = ["Lecture 7.vtt @ 00:41:10"];
+        kb.metadata.sourceDocuments = ["Week 1.md", "Week 2.md", "Lecture 7.vtt"];
+
+        const result = removeSourceDocuments(kb, ["Week 2.md"]);
+
+        expect(result.concepts.map((c) => c.id)).toEqual(["offer", "manual"]);
+        expect(result.concepts[0].sourceReferences).toEqual(["Week 1.md › Offer"]);
+        expect(result.cases[0].relatedConcepts).toEqual(["offer"]);
+        expect(result.metadata.sourceDocuments).toEqual(["Week 1.md", "Lecture 7.vtt"]);
+        expect(kb.concepts).toHaveLength(4);
+    });
+
+    it("does not confuse files whose names share a prefix", () => {
+        const kb = entities([concept({ id: "a", name: "A", sourceReferences: ["Week 10.md › A"] })]);
+        expect(removeSourceDocuments(kb, ["Week 1"]).concepts).toHaveLength(1);
+        expect(removeSourceDocuments(kb, ["Week 10.md"]).concepts).toHaveLength(0);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { locateQuote, renderUnverifiedCallout, verifyEvidence } from "../src/pipeline/evidence-verifier";
+import { estimateTokens, type ExtractedEntities, type SourceDocument } from "../src/types";
+
+function doc(filename: string, rawText: string): SourceDocument {
+    return { path: filename, filename, type: "md", rawText, charCount: rawText.length, tokenEstimate: estimateTokens(rawText) };
+}
+
+const notes = doc(
+    "Week 3.md",
+    "# Minimum Contacts\n\nThe defendant must have **certain minimum contacts** with the forum\nsuch that maintenance of the suit does not offend “traditional notions of fair play and substantial justice.”"
+);
+
+describe("locateQuote", () => {
+    it("finds a quote across markdown markup, line breaks and curly quotes", () => {
+        const loc = locateQuote(
+            'certain minimum contacts with the forum such that maintenance of the suit does not offend "traditional notions',
+            [notes]
+        );
+        expect(loc?.file).toBe("Week 3.md");
+        expect(notes.rawText.slice(loc!.offset)).toMatch(/^certain/);
+    });
+
+    it("tolerates a small wording slip", () => {
+        const loc = locateQuote(
+            "maintenance of the suit does not offend traditional notion of fair play and substantial justice",
+            [notes]
+        );
+        expect(loc).not.toBeNull();
+    });
+
+    it("uses the longest segment of an ellipsised quote", () => {
+        expect(locateQuote("The defendant must have … traditional notions of fair play and substantial justice", [notes])).not.toBeNull();
+    });
+
+    it("rejects text that is not in the sources, and quotes too short to be evidence", () => {
+        expect(locateQuote("purposeful availment of the privilege of conducting activities in the forum", [notes])).toBeNull();
+        expect(locateQuote("forum", [notes])).toBeNull();
+    });
+});
+
+describe("verifyEvidence", () => {
+    it("records evidence locations and flags entities whose quotes are missing", () => {
+        const entities: ExtractedEntities = {
+            concepts: [
+                { id: "mc", name: "Minimum Contacts", definition: "", category: "doctrine", sourceReferences: [], quotes: ["certain minimum contacts with the forum"] },
+                { id: "pa", name: "Purposeful Availment", definition: "", category: "doctrine", sourceReferences: [], quotes: ["purposefully avails itself of the privilege"] },
+            ],
+            cases: [],
+            principles: [],
+            rules: [],
+            metadata: { sourceDocuments: [], extractionTimestamp: "", modelUsed: "t", totalTokensUsed: 0 },
+        };
+
+        const report = verifyEvidence(entities, [notes]);
+
+        expect(report).toMatchObject({ checked: 2, unverified: 1 });
+        expect(report.entities.concepts[0].evidence).toHaveLength(1);
+        expect(report.entities.concepts[0].unverified).toBeUndefined();
+        expect(report.entities.concepts[1].unverified).toBe(true);
+        expect(renderUnverifiedCallout(report.entities.concepts[1])).toContain("[!warning] Unverified");
+        expect(renderUnverifiedCallout(report.entities.concepts[0])).toBe("");
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import type { Vault } from "obsidian";
+import { chunkCheckpointKey, ExtractionCheckpoint } from "../src/pipeline/extraction-checkpoint";
+import type { ExtractedEntities } from "../src/types";
+
+/** Minimal in-memory stand-in for `vault.adapter`. */
+function memoryVault(): { vault: Vault; files: Map<string, string> } {
+    const files = new Map<string, string>();
+    const adapter = {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) ?? "",
+        write: async (path: string, data: string) => {
+            files.set(path, data);
+        },
+        remove: async (path: string) => {
+            files.delete(path);
+        },
+    };
+    return { vault: { adapter } as unknown as Vault, files };
+}
+
+function chunk(name: string): ExtractedEntities {
+    return {
+        concepts: [{ id: name.toLowerCase(), name, definition: "", category: "doctrine", sourceReferences: [] }],
+        cases: [],
+        principles: [],
+        rules: [],
+        metadata: { sourceDocuments: [], extractionTimestamp: new Date(0).toISOString(), modelUsed: "t", totalTokensUsed: 0 },
+    };
+}
+
+describe("chunkCheckpointKey", () => {
+    it("is stable for the same prompt and model and changes when either does", () => {
+        const key = chunkCheckpointKey("prompt A", "gemini-2.5-flash");
+        expect(chunkCheckpointKey("prompt A", "gemini-2.5-flash")).toBe(key);
+        expect(chunkCheckpointKey("prompt B", "gemini-2.5-flash")).not.toBe(key);
+        expect(chunkCheckpointKey("prompt A", "qwen3:8b")).not.toBe(key);
+    });
+});
+
+describe("ExtractionCheckpoint", () => {
+    it("persists completed chunks so a reopened checkpoint can resume", async () => {
+        const { vault } = memoryVault();
+        const first = await ExtractionCheckpoint.open(vault, "Course");
+        await Promise.all([first.put("k1", chunk("Offer")), first.put("k2", chunk("Acceptance"))]);
+
+        const reopened = await ExtractionCheckpoint.open(vault, "Course");
+        expect(reopened.size).toBe(2);
+        expect(reopened.get("k1")?.concepts[0].name).toBe("Offer");
+        expect(reopened.get("missing")).toBeNull();
+    });
+
+    it("removes the file on clear", async () => {
+        const { vault, files } = memoryVault();
+        const checkpoint = await ExtractionCheckpoint.open(vault, "Course");
+        await checkpoint.put("k1", chunk("Offer"));
+        expect(files.has("Course/_extraction-checkpoint.json")).toBe(true);
+
+        await checkpoint.clear();
+        expect(files.size).toBe(0);
+        expect((await ExtractionCheckpoint.open(vault, "Course")).size).toBe(0);
+    });
+
+    it("starts fresh when the checkpoint file is corrupt", async () => {
+        const { vault, files } = memoryVault();
+        files.set("Course/_extraction-checkpoint.json", "{not json");
+        expect((await ExtractionCheckpoint.open(vault, "Course")).size).toBe(0);
+    });
+});
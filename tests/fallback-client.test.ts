@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { LLMClient } from "../src/ai/llm-provider";
+import {
+    FallbackLLMClient,
+    failoverReason,
+    formatFallbackChain,
+    parseFallbackChain,
+} from "../src/ai/fallback-client";
+
+/** A provider that fails with the queued errors, then answers with its own name. */
+class ScriptedLLM implements LLMClient {
+    calls = 0;
+    aborted = false;
+    private tokens = 0;
+
+    constructor(private readonly name: string, private readonly failures: string[] = []) {}
+
+    async generate(): Promise<string> {
+        this.calls++;
+        const failure = this.failures.shift();
+        if (failure) throw new Error(failure);
+        this.tokens += 100;
+        return this.name;
+    }
+    async generateStructured<T>(_prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        return schema.parse(JSON.parse(`"${await this.generate()}"`));
+    }
+    async generateStreaming(
+        prompt: string,
+        onChunk: (text: string, accumulated: string) => void
+    ): Promise<string> {
+        const text = await this.generate();
+        onChunk(text, text);
+        return text;
+    }
+    async generateStructuredStreaming<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        return this.generateStructured(prompt, schema);
+    }
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        return texts.map(() => [this.name.length]);
+    }
+    abort(): void {
+        this.aborted = true;
+    }
+    getTotalTokensUsed(): number {
+        return this.tokens;
+    }
+}
+
+function chain(...clients: ScriptedLLM[]) {
+    const failovers: string[] = [];
+    const client = new FallbackLLMClient(
+        clients.map((c, i) => ({ label: `p${i}`, client: c })),
+        (from, to) => failovers.push(`${from}->${to}`)
+    );
+    return { client, failovers };
+}
+
+describe("failoverReason", () => {
+    it("classifies rate-limit, server and safety errors", () => {
+        expect(failoverReason(new Error("got status: 429 RESOURCE_EXHAUSTED"))).toBe("rate-limit");
+        expect(failoverReason(new Error("You exceeded your current quota"))).toBe("rate-limit");
+        expect(failoverReason(new Error("http://x/v1 returned 503 Service Unavailable"))).toBe("server");
+        expect(failoverReason(new Error("The model is overloaded"))).toBe("server");
+        expect(failoverReason(new Error("Content blocked by safety filters."))).toBe("safety");
+    });
+
+    it("does not fail over on aborts, auth or parse errors", () => {
+        expect(failoverReason(new Error("Request aborted by user"))).toBeNull();
+        expect(failoverReason(new Error("Invalid Gemini API key. Check Settings."))).toBeNull();
+        expect(failoverReason(new Error("Unexpected token } in JSON at position 5000"))).toBeNull();
+    });
+});
+
+describe("FallbackLLMClient", () => {
+    it("answers from the first provider when it succeeds", async () => {
+        const a = new ScriptedLLM("a");
+        const b = new ScriptedLLM("b");
+        const { client, failovers } = chain(a, b);
+
+        expect(await client.generate("q")).toBe("a");
+        expect(client.servedBy).toBe("p0");
+        expect(b.calls).toBe(0);
+        expect(failovers).toEqual([]);
+    });
+
+    it("fails over on a 5xx error and reports the switch", async () => {
+        const a = new ScriptedLLM("a", ["500 internal error"]);
+        const b = new ScriptedLLM("b");
+        const { client, failovers } = chain(a, b);
+
+        expect(await client.generate("q")).toBe("b");
+        expect(client.servedBy).toBe("p1");
+        expect(failovers).toEqual(["p0->p1"]);
+    });
+
+    it("walks the whole chain and rethrows the last error", async () => {
+        const { client } = chain(
+            new ScriptedLLM("a", ["503 unavailable"]),
+            new ScriptedLLM("b", ["Content blocked by safety filters."]),
+            new ScriptedLLM("c", ["429 rate limit"])
+        );
+        await expect(client.generate("q")).rejects.toThrow("429 rate limit");
+    });
+
+    it("rethrows errors that are not failover-worthy", async () => {
+        const b = new ScriptedLLM("b");
+        const { client } = chain(new ScriptedLLM("a", ["Request aborted by user"]), b);
+        await expect(client.generate("q")).rejects.toThrow("aborted");
+        expect(b.calls).toBe(0);
+    });
+
+    it("skips a provider that ran out of quota on later calls", async () => {
+        const a = new ScriptedLLM("a", ["429 quota exceeded"]);
+        const b = new ScriptedLLM("b");
+        const { client } = chain(a, b);
+
+        await client.generate("q1");
+        await client.generate("q2");
+        expect(a.calls).toBe(1);
+        expect(b.calls).toBe(2);
+    });
+
+    it("keeps retrying a provider after a safety block (it is per-prompt)", async () => {
+        const a = new ScriptedLLM("a", ["blocked by safety"]);
+        const { client } = chain(a, new ScriptedLLM("b"));
+
+        expect(await client.generate("q1")).toBe("b");
+        expect(await client.generate("q2")).toBe("a");
+    });
+
+    it("fails over structured and streaming calls too", async () => {
+        const { client } = chain(new ScriptedLLM("a", ["503", "503"]), new ScriptedLLM("b"));
+        expect(await client.generateStructured("q", z.string())).toBe("b");
+        const chunks: string[] = [];
+        expect(await client.generateStreaming("q", (t) => chunks.push(t))).toBe("b");
+        expect(chunks).toEqual(["b"]);
+    });
+
+    it("tracks which provider served each session independently", async () => {
+        const { client } = chain(new ScriptedLLM("a", ["500"]), new ScriptedLLM("b"));
+        const first = client.session();
+        const second = client.session();
+
+        await first.generate("q1");
+        await second.generate("q2");
+        expect(first.servedBy).toBe("p1");
+        expect(second.servedBy).toBe("p0");
+    });
+
+    it("attributes tokens per provider and sums them", async () => {
+        const { client } = chain(new ScriptedLLM("a", ["500"]), new ScriptedLLM("b"));
+        await client.generate("q1");
+        await client.generate("q2");
+
+        expect(client.usageByProvider()).toEqual({ p0: 100, p1: 100 });
+        expect(client.getTotalTokensUsed()).toBe(200);
+    });
+
+    it("aborts every provider and embeds with the primary only", async () => {
+        const a = new ScriptedLLM("a");
+        const b = new ScriptedLLM("bb");
+        const { client } = chain(a, b);
+
+        client.abort();
+        expect(a.aborted && b.aborted).toBe(true);
+        expect(await client.embedTexts(["x"])).toEqual([[1]]);
+    });
+});
+
+describe("parseFallbackChain", () => {
+    it("reads provider:model lines and skips junk", () => {
+        const text = "gemini:gemini-2.5-pro\n\n# local\nOllama: qwen2.5:14b\nbogus:model\nno-colon\nopenai:";
+        expect(parseFallbackChain(text)).toEqual([
+            { provider: "gemini", model: "gemini-2.5-pro" },
+            { provider: "ollama", model: "qwen2.5:14b" },
+        ]);
+    });
+
+    it("round-trips through formatFallbackChain", () => {
+        const chainText = "gemini:gemini-2.5-pro\nollama:llama3.1";
+        expect(formatFallbackChain(parseFallbackChain(chainText))).toBe(chainText);
+    });
+});
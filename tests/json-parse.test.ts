@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildRepairPrompt, describeValidationError, generateWithRepair } from "../src/ai/json-parse";
+
+const Schema = z.object({ title: z.string(), count: z.number() });
+
+describe("generateWithRepair", () => {
+    it("returns the first answer when it validates", async () => {
+        const prompts: string[] = [];
+        const result = await generateWithRepair("make it", Schema, async (p) => {
+            prompts.push(p);
+            return '{"title":"a","count":1}';
+        });
+        expect(result).toEqual({ title: "a", count: 1 });
+        expect(prompts).toEqual(["make it"]);
+    });
+
+    it("re-prompts with the validation error until the output validates", async () => {
+        const answers = ['{"title":"a","count":"one"}', '{"title":"a","count":1}'];
+        const prompts: string[] = [];
+        const result = await generateWithRepair("make it", Schema, async (p) => {
+            prompts.push(p);
+            return answers.shift()!;
+        });
+
+        expect(result).toEqual({ title: "a", count: 1 });
+        expect(prompts).toHaveLength(2);
+        expect(prompts[1]).toContain("make it");
+        expect(prompts[1]).toContain("- count: Expected number, received string");
+        expect(prompts[1]).toContain('"count":"one"');
+    });
+
+    it("gives up after maxRepairs and rethrows the last error", async () => {
+        let calls = 0;
+        await expect(
+            generateWithRepair("make it", Schema, async () => {
+                calls++;
+                return '{"title":"a"}';
+            }, 1)
+        ).rejects.toThrow();
+        expect(calls).toBe(2);
+    });
+});
+
+describe("buildRepairPrompt / describeValidationError", () => {
+    it("lists zod issues by path and truncates long answers", () => {
+        const result = Schema.safeParse({ title: 3 });
+        const described = describeValidationError(result.success ? null : result.error);
+        expect(described).toContain("- title:");
+        expect(described).toContain("- count:");
+
+        const prompt = buildRepairPrompt("p", "x".repeat(5000), new Error("Unexpected end of JSON input"));
+        expect(prompt).toContain("- Unexpected end of JSON input");
+        expect(prompt).toContain("(truncated)");
+        expect(prompt.length).toBeLessThan(2500);
+    });
+});
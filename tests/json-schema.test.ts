@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { toJsonSchema } from "../src/ai/json-schema";
+import { ExtractedEntitiesResponseSchema, RelationshipMatrixResponseSchema } from "../src/ai/response-schemas";
+import { TocResponseSchema } from "../src/ai/outline";
+
+describe("toJsonSchema", () => {
+    it("lower-cases types and turns nullable into a null union", () => {
+        expect(toJsonSchema({ type: "STRING" as never, nullable: true })).toEqual({ type: ["string", "null"] });
+        expect(
+            toJsonSchema({ type: "STRING" as never, enum: ["a", "b"], nullable: true })
+        ).toEqual({ type: ["string", "null"], enum: ["a", "b", null] });
+    });
+
+    it("converts nested objects and arrays, following propertyOrdering", () => {
+        const json = toJsonSchema(RelationshipMatrixResponseSchema);
+        expect(json.type).toBe("object");
+        expect(Object.keys(json.properties as object)).toEqual([
+            "entries", "casesInOrder", "conceptsInOrder", "statuteEntries", "conceptEntries", "caseEntries",
+        ]);
+        const entries = (json.properties as Record<string, Record<string, unknown>>).entries;
+        expect(entries.type).toBe("array");
+        expect((entries.items as Record<string, unknown>).required).toContain("caseId");
+        expect(JSON.stringify(json)).not.toContain("propertyOrdering");
+    });
+
+    it("converts the entity and outline schemas with nullable fields and nested sections", () => {
+        const at = (obj: unknown, ...path: string[]): unknown =>
+            path.reduce<unknown>((o, key) => (o as Record<string, unknown>)[key], obj);
+
+        const concept = at(toJsonSchema(ExtractedEntitiesResponseSchema), "properties", "concepts", "items");
+        expect(at(concept, "properties", "parentId", "type")).toEqual(["string", "null"]);
+        expect(at(concept, "properties", "category", "enum")).toContain("doctrine");
+
+        const section = at(toJsonSchema(TocResponseSchema), "properties", "sections", "items");
+        expect(at(section, "required")).toEqual(["title", "items", "subsections"]);
+        expect(at(section, "properties", "subsections", "items", "properties", "items", "type")).toBe("array");
+    });
+});
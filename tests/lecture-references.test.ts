@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { parseLectureReference, renderLectureSection } from "../src/pipeline/lecture-references";
+
+describe("parseLectureReference", () => {
+    it("splits a timestamped transcript reference", () => {
+        expect(parseLectureReference("Lecture 7.vtt @ 00:41:10")).toEqual({
+            lecture: "Lecture 7",
+            timestamp: "00:41:10",
+        });
+    });
+
+    it("ignores references without a timestamp", () => {
+        expect(parseLectureReference("Week 3.docx › Minimum Contacts")).toBeNull();
+    });
+});
+
+describe("renderLectureSection", () => {
+    it("lists unique mentions ordered by lecture then time", () => {
+        const out = renderLectureSection([
+            "Lecture 10.srt @ 00:05:00",
+            "Lecture 7.vtt @ 00:41:10",
+            "Lecture 7.vtt @ 00:03:00",
+            "Lecture 7.vtt @ 00:41:10",
+            "notes.md",
+        ]);
+        expect(out).toContain(
+            "- Discussed at 00:03:00 in Lecture 7\n- Discussed at 00:41:10 in Lecture 7\n- Discussed at 00:05:00 in Lecture 10"
+        );
+    });
+
+    it("orders MM:SS and H:MM:SS timestamps by time", () => {
+        const out = renderLectureSection(["Lecture 7.vtt @ 1:00:00", "Lecture 7.vtt @ 59:00", "Lecture 7.vtt @ 5:30"]);
+        expect(out).toContain(
+            "- Discussed at 5:30 in Lecture 7\n- Discussed at 59:00 in Lecture 7\n- Discussed at 1:00:00 in Lecture 7"
+        );
+    });
+
+    it("is empty when nothing is timestamped", () => {
+        expect(renderLectureSection(["notes.md"])).toBe("");
+        expect(renderLectureSection(undefined)).toBe("");
+    });
+});
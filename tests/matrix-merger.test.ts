@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+    mappingFocus,
+    mergeRelationshipMatrix,
+    pruneRelationshipMatrix,
+    removeEdgeSources,
+} from "../src/pipeline/matrix-merger";
+import { emptyDiff } from "../src/pipeline/entity-diff";
+import type { ExtractedEntities, LegalCase, RelationshipEntry, RelationshipMatrix } from "../src/types";
+
+function legalCase(id: string, year?: number): LegalCase {
+    return { id, name: id.toUpperCase(), year, facts: "", holding: "", significance: "", relatedConcepts: [], sourceReferences: [] };
+}
+
+function entities(caseIds: Array<[string, number?]>, conceptIds: string[]): ExtractedEntities {
+    return {
+        concepts: conceptIds.map((id) => ({ id, name: id.toUpperCase(), definition: "", category: "doctrine", sourceReferences: [] })),
+        cases: caseIds.map(([id, year]) => legalCase(id, year)),
+        principles: [],
+        rules: [],
+        metadata: { sourceDocuments: [], extractionTimestamp: new Date(0).toISOString(), modelUsed: "t", totalTokensUsed: 0 },
+    };
+}
+
+function entry(caseId: string, conceptId: string, description = "d"): RelationshipEntry {
+    return { caseId, conceptId, relationshipType: "applies", description, strength: "primary" };
+}
+
+function matrix(entries: RelationshipEntry[], casesInOrder: string[], conceptsInOrder: string[]): RelationshipMatrix {
+    return { entries, casesInOrder, conceptsInOrder };
+}
+
+describe("mappingFocus", () => {
+    it("resolves diff names to ids", () => {
+        const e = entities([["a", 1950]], ["x", "y"]);
+        const focus = mappingFocus({ ...emptyDiff(), updatedConcepts: ["Y"], addedCases: ["A"] }, e);
+        expect([...focus.conceptIds]).toEqual(["y"]);
+        expect([...focus.caseIds]).toEqual(["a"]);
+    });
+});
+
+describe("mergeRelationshipMatrix", () => {
+    const kb = entities([["old", 1950], ["mid", 1970], ["new", 1960]], ["x", "y"]);
+    const existing = matrix([entry("old", "x", "from week 1"), entry("mid", "y")], ["old", "mid"], ["x", "y"]);
+
+    it("keeps existing edges, lets incoming edges win, and slots new cases in by year", () => {
+        const incoming = matrix([entry("new", "x"), entry("mid", "y", "revised")], ["new", "mid"], ["x", "y"]);
+        const merged = mergeRelationshipMatrix(existing, incoming, kb);
+
+        expect(merged.entries.map((e) => `${e.caseId}|${e.conceptId}|${e.description}`)).toEqual([
+            "old|x|from week 1",
+            "mid|y|revised",
+            "new|x|d",
+        ]);
+        expect(merged.casesInOrder).toEqual(["old", "new", "mid"]);
+    });
+
+    it("ignores incoming edges that touch no focus entity", () => {
+        const incoming = matrix([entry("new", "x"), entry("old", "x", "restated")], ["new"], []);
+        const merged = mergeRelationshipMatrix(existing, incoming, kb, {
+            conceptIds: new Set(),
+            caseIds: new Set(["new"]),
+        });
+        expect(merged.entries.find((e) => e.caseId === "old")!.description).toBe("from week 1");
+        expect(merged.entries.some((e) => e.caseId === "new")).toBe(true);
+    });
+
+    it("keeps a focus concept's edge from an unchanged note when another note updates it", () => {
+        // Week 1 linked x to "old"; week 2 was edited and now only links x to "new".
+        const sourced: RelationshipMatrix = {
+            ...existing,
+            entries: [
+                { ...entry("old", "x", "from week 1"), sources: ["Week 1.md"] },
+                { ...entry("mid", "x"), sources: ["Week 2.md"] },
+            ],
+        };
+        const incoming = matrix([{ ...entry("new", "x"), sources: ["Week 2.md"] }], ["new"], ["x"]);
+        const merged = mergeRelationshipMatrix(
+            sourced,
+            incoming,
+            kb,
+            { conceptIds: new Set(["x"]), caseIds: new Set() },
+            ["Week 2.md"]
+        );
+        expect(merged.entries.map((e) => `${e.caseId}|${e.conceptId}`)).toEqual(["old|x", "new|x"]);
+        expect(merged.entries[0]).toMatchObject({ description: "from week 1", sources: ["Week 1.md"] });
+    });
+
+    it("tolerates matrices saved before the optional edge lists existed", () => {
+        const incoming: RelationshipMatrix = {
+            ...matrix([], [], []),
+            caseEntries: [{ citingCaseId: "new", citedCaseId: "old", relationshipType: "follows", description: "d" }],
+        };
+        expect(mergeRelationshipMatrix(existing, incoming, kb).caseEntries).toHaveLength(1);
+    });
+});
+
+describe("removeEdgeSources", () => {
+    it("drops edges only deleted notes supported, even between surviving entities", () => {
+        const m: RelationshipMatrix = {
+            ...matrix(
+                [
+                    { ...entry("old", "x"), sources: ["Week 1.md"] },
+                    { ...entry("mid", "x"), sources: ["Week 1.md", "Week 2.md"] },
+                    entry("old", "y"),
+                ],
+                ["old", "mid"],
+                ["x", "y"]
+            ),
+            conceptEntries: [
+                { fromConceptId: "x", toConceptId: "y", relationshipType: "element-of", description: "d", sources: ["Week 1.md"] },
+            ],
+        };
+        const removed = removeEdgeSources(m, ["Week 1.md"]);
+        expect(removed.entries).toEqual([{ ...entry("mid", "x"), sources: ["Week 2.md"] }, entry("old", "y")]);
+        expect(removed.conceptEntries).toEqual([]);
+    });
+});
+
+describe("pruneRelationshipMatrix", () => {
+    it("drops edges and ordering for removed entities", () => {
+        const m: RelationshipMatrix = {
+            ...matrix([entry("old", "x"), entry("gone", "x")], ["old", "gone"], ["x"]),
+            caseEntries: [{ citingCaseId: "gone", citedCaseId: "old", relationshipType: "overrules", description: "d" }],
+        };
+        const pruned = pruneRelationshipMatrix(m, entities([["old", 1950]], ["x"]));
+        expect(pruned.entries).toHaveLength(1);
+        expect(pruned.casesInOrder).toEqual(["old"]);
+        expect(pruned.caseEntries).toEqual([]);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+    formatModelCatalog,
+    labelSpec,
+    maxOutputTokens,
+    parseModelCatalog,
+    sourceTokensPerChunk,
+} from "../src/ai/model-catalog";
+import { DEFAULT_MODEL_CATALOG, type ModelSpec } from "../src/types";
+
+const spec = (over: Partial<ModelSpec>): ModelSpec => ({
+    model: "m",
+    inputPerMTok: 0,
+    outputPerMTok: 0,
+    cachedPerMTok: 0,
+    contextWindow: 1_000_000,
+    maxOutput: 65_536,
+    ...over,
+});
+
+describe("parseModelCatalog / formatModelCatalog", () => {
+    it("round-trips the default catalog", () => {
+        expect(parseModelCatalog(formatModelCatalog(DEFAULT_MODEL_CATALOG))).toEqual(DEFAULT_MODEL_CATALOG);
+    });
+
+    it("skips comments and invalid lines; the last line for a model wins", () => {
+        const catalog = parseModelCatalog(
+            [
+                "# model, input, output, cached, context, max output",
+                "gpt-4o, 2.5, 10, 1.25, 128_000, 16384",
+                "broken, 1, 2",
+                "negative, -1, 2, 0, 1000, 100",
+                ", 1, 2, 0, 1000, 100",
+                "GPT-4o, 3, 12, 1.5, 128000, 16384",
+            ].join("\n")
+        );
+        expect(catalog).toEqual([
+            spec({
+                model: "GPT-4o",
+                inputPerMTok: 3,
+                outputPerMTok: 12,
+                cachedPerMTok: 1.5,
+                contextWindow: 128_000,
+                maxOutput: 16_384,
+            }),
+        ]);
+    });
+});
+
+describe("catalog lookups", () => {
+    const catalog = [spec({ model: "qwen2.5", contextWindow: 32_768, maxOutput: 8_192 })];
+
+    it("resolves provider labels case-insensitively, with Flash rates for unknown Gemini models", () => {
+        expect(labelSpec(catalog, "ollama:Qwen2.5")?.model).toBe("qwen2.5");
+        expect(labelSpec(catalog, "gemini:gemini-3-preview")?.model).toBe("gemini-2.5-flash");
+        expect(labelSpec(catalog, "ollama:llama3.1")).toBeNull();
+    });
+
+    it("caps output at the catalog entry, else the default", () => {
+        expect(maxOutputTokens(catalog, "qwen2.5")).toBe(8_192);
+        expect(maxOutputTokens(catalog, "llama3.1")).toBe(65_536);
+    });
+
+    it("sizes extraction chunks from the output cap and context window", () => {
+        expect(sourceTokensPerChunk(DEFAULT_MODEL_CATALOG, "gemini-2.5-flash")).toBe(40_000);
+        expect(sourceTokensPerChunk(catalog, "llama3.1")).toBe(40_000);
+        // 8192 × 0.625 = 5120 → 5000; half of a 32K window would allow more.
+        expect(sourceTokensPerChunk(catalog, "qwen2.5")).toBe(5_000);
+        const small = [spec({ model: "tiny", contextWindow: 4_096, maxOutput: 65_536 })];
+        expect(sourceTokensPerChunk(small, "tiny")).toBe(2_000);
+    });
+});
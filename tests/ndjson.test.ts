@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { splitNdjsonLines } from "../src/ai/ndjson";
+
+describe("splitNdjsonLines", () => {
+    it("returns complete lines and keeps the partial tail", () => {
+        const { lines, rest } = splitNdjsonLines('{"response":"Hel"}\n{"response":"lo"}\n{"resp');
+        expect(lines).toEqual(['{"response":"Hel"}', '{"response":"lo"}']);
+        expect(rest).toBe('{"resp');
+
+        const next = splitNdjsonLines(rest + 'onse":"!","done":true}\r\n\n');
+        expect(next.lines).toEqual(['{"response":"!","done":true}']);
+        expect(next.rest).toBe("");
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * Runtime stand-ins for the few "obsidian" classes the pipeline steps touch.
+ * The "obsidian" package ships type definitions only (the app provides the
+ * runtime), so vitest aliases it to this module; see vitest.config.ts.
+ */
+
+export class TFile {
+    readonly name: string;
+    readonly basename: string;
+    readonly extension: string;
+
+    constructor(readonly path: string) {
+        this.name = path.split("/").pop() ?? path;
+        this.basename = this.name.replace(/\.[^.]+$/, "");
+        this.extension = this.name.slice(this.basename.length + 1);
+    }
+}
+
+export class TFolder {
+    constructor(readonly path: string) {}
+}
+
+/** Never rendered: `open` is a no-op and `close` just runs `onClose`. */
+export class Modal {
+    readonly contentEl = { empty: (): void => {} };
+
+    constructor(readonly app: unknown) {}
+
+    open(): void {}
+
+    close(): void {
+        this.onClose();
+    }
+
+    onOpen(): void {}
+
+    onClose(): void {}
+}
+
+export class Notice {
+    constructor(readonly message: string) {}
+}
+
+export class Setting {}
+
+export function requestUrl(): Promise<never> {
+    return Promise.reject(new Error("No network in tests."));
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { Type } from "@google/genai";
+import { OpenAICompatibleClient } from "../src/ai/openai-compatible-client";
+import { DEFAULT_SETTINGS } from "../src/types";
+
+const settings = { ...DEFAULT_SETTINGS, openaiBaseUrl: "http://localhost:8000/v1", openaiModel: "qwen3" };
+
+/** A fetch that never answers until its request is aborted. */
+function hangingFetch() {
+    return vi.fn(
+        (_url: string, init: RequestInit) =>
+            new Promise<Response>((_resolve, reject) => {
+                init.signal?.addEventListener("abort", () => {
+                    const error = new Error("The operation was aborted.");
+                    error.name = "AbortError";
+                    reject(error);
+                });
+            })
+    );
+}
+
+describe("OpenAICompatibleClient", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("posts a chat completion and reports its usage", async () => {
+        const fetch = vi.fn(async (_url: string, _init: RequestInit) =>
+            new Response(
+                JSON.stringify({
+                    choices: [{ message: { content: '{"name":"Estoppel"}' } }],
+                    usage: { prompt_tokens: 12, completion_tokens: 5, completion_tokens_details: { reasoning_tokens: 2 } },
+                })
+            )
+        );
+        vi.stubGlobal("fetch", fetch);
+        const client = new OpenAICompatibleClient(settings);
+        const usage = vi.fn();
+        client.onUsage = usage;
+
+        const schema = { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ["name"] };
+        const result = await client.generateStructured("Name it.", z.object({ name: z.string() }), schema);
+
+        expect(result).toEqual({ name: "Estoppel" });
+        const [url, init] = fetch.mock.calls[0];
+        expect(url).toBe("http://localhost:8000/v1/chat/completions");
+        const body = JSON.parse(init.body as string);
+        expect(body).toMatchObject({ model: "qwen3", stream: false, response_format: { type: "json_schema" } });
+        expect(usage).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 3, thinkingTokens: 2, cachedInputTokens: 0 });
+        expect(client.getTotalTokensUsed()).toBe(17);
+    });
+
+    it("aborts every request in flight, not just the latest", async () => {
+        const fetch = hangingFetch();
+        vi.stubGlobal("fetch", fetch);
+        const client = new OpenAICompatibleClient(settings);
+
+        const first = client.generate("one");
+        const second = client.generate("two");
+        const third = client.generateStreaming("three", () => {});
+        await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(3));
+        client.abort();
+
+        for (const call of [first, second, third]) await expect(call).rejects.toThrow("Request aborted by user");
+    });
+
+    it("explains an unreachable server", async () => {
+        vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new TypeError("Failed to fetch"))));
+        await expect(new OpenAICompatibleClient(settings).generate("hi")).rejects.toThrow(
+            /Could not reach http:\/\/localhost:8000\/v1 .*CORS.*Failed to fetch/
+        );
+    });
+});
@@ -6,6 +6,7 @@ import {
     buildTocPrompt,
     buildOutlineFromTocPrompt,
     buildHeadingRule,
+    buildHierarchyToc,
     DEFAULT_OUTLINE_OPTIONS,
     type Toc,
     type TocSection,
@@ -79,6 +80,31 @@ describe("structureText", () => {
     });
 });
 
+describe("buildHierarchyToc", () => {
+    const c = (id: string, name: string, parentId?: string) =>
+        ({ id, name, parentId, definition: "", category: "doctrine" as const, sourceReferences: [] });
+
+    it("returns null without a hierarchy", () => {
+        expect(buildHierarchyToc([c("a", "A"), c("b", "B")])).toBeNull();
+    });
+
+    it("turns roots into sections and nested children into subsections", () => {
+        const toc = buildHierarchyToc([
+            c("pj", "Personal Jurisdiction"),
+            c("sj", "Specific Jurisdiction", "pj"),
+            c("mc", "Minimum Contacts", "sj"),
+            c("gj", "General Jurisdiction", "pj"),
+            c("v", "Venue"),
+        ])!;
+        expect(toc.sections.map((s) => s.title)).toEqual(["Personal Jurisdiction", "Other Doctrines"]);
+        expect(toc.sections[0].items).toEqual(["General Jurisdiction"]);
+        expect(toc.sections[0].subsections).toEqual([
+            { title: "Specific Jurisdiction", items: ["Minimum Contacts"] },
+        ]);
+        expect(toc.sections[1].items).toEqual(["Venue"]);
+    });
+});
+
 describe("prompts", () => {
     it("TOC prompt reflects detail + structure", () => {
         const p = buildTocPrompt(
@@ -92,6 +118,15 @@ describe("prompts", () => {
         expect(p).toContain("Personal Jurisdiction");
     });
 
+    it("TOC prompt offers the concept hierarchy as the default structure", () => {
+        const e = entities();
+        e.concepts.push({ id: "s", name: "Specific Jurisdiction", parentId: "p", definition: "d", category: "doctrine", sourceReferences: [] });
+        const p = buildTocPrompt(e, DEFAULT_OUTLINE_OPTIONS, "en");
+        expect(p).toContain("Concept Hierarchy");
+        expect(p).toContain("  - Specific Jurisdiction");
+        expect(buildTocPrompt(entities(), DEFAULT_OUTLINE_OPTIONS, "en")).not.toContain("Concept Hierarchy");
+    });
+
     it("TOC prompt honors a section-count target and a flat (1-level) request", () => {
         const p = buildTocPrompt(
             entities(),
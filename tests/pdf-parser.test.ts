@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { textItemsToLines, type PdfTextItem } from "../src/parsers/pdf-parser";
+
+/** A text item on the baseline `y`. */
+function item(str: string, y: number, hasEOL = false): PdfTextItem {
+    return { str, hasEOL, transform: [1, 0, 0, 1, 72, y] };
+}
+
+describe("textItemsToLines", () => {
+    it("joins items on one baseline and breaks where pdf.js marks a line end", () => {
+        const items = [item("Section 752(b) ", 700), item("treats a decrease", 700, true), item("as a distribution.", 686)];
+        expect(textItemsToLines(items)).toBe("Section 752(b) treats a decrease\nas a distribution.");
+    });
+
+    it("starts a new line when the baseline moves without an explicit line end", () => {
+        const items = [item("Holding", 700), item("The partnership is an aggregate.", 680)];
+        expect(textItemsToLines(items)).toBe("Holding\nThe partnership is an aggregate.");
+    });
+
+    it("ignores sub-point baseline jitter and marked-content entries", () => {
+        const items = [item("Commissioner v. ", 700), { hasEOL: false }, item("Culbertson", 700.4)];
+        expect(textItemsToLines(items)).toBe("Commissioner v. Culbertson");
+    });
+
+    it("trims trailing spaces and collapses runs of blank lines", () => {
+        const items = [item("One  ", 700, true), item("", 690, true), item("", 680, true), item("", 670, true), item("Two", 660)];
+        expect(textItemsToLines(items)).toBe("One\n\nTwo");
+    });
+});
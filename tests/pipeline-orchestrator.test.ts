@@ -0,0 +1,96 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import type { App } from "obsidian";
+import { TFolder } from "./obsidian-runtime";
+import { PipelineOrchestrator } from "../src/pipeline/pipeline-orchestrator";
+import { runStep1 } from "../src/pipeline/step1-source-select";
+import { runStep2 } from "../src/pipeline/step2-entity-extract";
+import { runStep3 } from "../src/pipeline/step3-relationship-map";
+import { runStep4 } from "../src/pipeline/step4-generate-output";
+import { savePipelineState } from "../src/pipeline/state-persistence";
+import { BudgetExceededError, type RunBudget } from "../src/ai/budget";
+import { DEFAULT_SETTINGS, type ExtractedEntities, type RelationshipMatrix } from "../src/types";
+
+/**
+ * The orchestrator's control flow with the steps stubbed out: what reaches
+ * the saved state when a step stops the run. The steps themselves are
+ * covered by pipeline-replay.test.ts.
+ */
+
+vi.mock("../src/pipeline/step1-source-select", () => ({ runStep1: vi.fn() }));
+vi.mock("../src/pipeline/step2-entity-extract", () => ({ runStep2: vi.fn() }));
+vi.mock("../src/pipeline/step3-relationship-map", () => ({ runStep3: vi.fn() }));
+vi.mock("../src/pipeline/step4-generate-output", () => ({ runStep4: vi.fn() }));
+vi.mock("../src/pipeline/state-persistence", () => ({
+    loadPipelineState: vi.fn(async () => null),
+    savePipelineState: vi.fn(async () => {}),
+}));
+// Pick the default course, and answer "Stop" at every budget prompt.
+vi.mock("../src/ui/course-select-modal", () => ({
+    CourseSelectModal: class {
+        constructor(_app: unknown, _folder: string, private onConfirm: (s: object) => void) {}
+        open() {
+            this.onConfirm({ courseName: "", incremental: false });
+        }
+    },
+}));
+vi.mock("../src/ui/budget-confirm-modal", () => ({
+    BudgetConfirmModal: class {
+        constructor(_app: unknown, _prompt: unknown, private onSubmit: (proceed: boolean) => void) {}
+        open() {
+            this.onSubmit(false);
+        }
+    },
+}));
+
+const entities: ExtractedEntities = {
+    concepts: [],
+    cases: [],
+    principles: [],
+    rules: [],
+    metadata: { sourceDocuments: ["A.md"], extractionTimestamp: "", modelUsed: "", totalTokensUsed: 0 },
+};
+const matrix = { entries: [] } as unknown as RelationshipMatrix;
+
+function orchestrator(): PipelineOrchestrator {
+    const vault = {
+        getAbstractFileByPath: (path: string) => new TFolder(path),
+        getFiles: () => [],
+        adapter: { exists: async () => false, read: async () => "", write: async () => {}, append: async () => {} },
+    };
+    const settings = { ...DEFAULT_SETTINGS, outputFolder: "Out", runBudgetUSD: 0.5 };
+    return new PipelineOrchestrator({ vault } as unknown as App, settings);
+}
+
+describe("PipelineOrchestrator", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(runStep1).mockResolvedValue([
+            { path: "Notes/A.md", filename: "A.md", type: "md", rawText: "", charCount: 0, tokenEstimate: 0 },
+        ]);
+        vi.mocked(runStep2).mockResolvedValue(entities);
+        vi.mocked(runStep3).mockResolvedValue(matrix);
+    });
+
+    it("saves the run's state once step 4 has written the pages", async () => {
+        vi.mocked(runStep4).mockResolvedValue(["Out/Outline.md"]);
+        await orchestrator().start();
+        expect(savePipelineState).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not record the sources as processed when the budget is declined in step 4", async () => {
+        // Step 4 goes over budget on its first page; the student stops the run.
+        vi.mocked(runStep4).mockImplementation(async (...args) => {
+            const budget = args[9] as RunBudget;
+            try {
+                await budget.check(1);
+            } catch (error) {
+                if (error instanceof BudgetExceededError) return null;
+                throw error;
+            }
+            return ["Out/Outline.md"];
+        });
+        await orchestrator().start();
+        expect(runStep4).toHaveBeenCalledTimes(1);
+        expect(savePipelineState).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, relative } from "path";
+import type { App } from "obsidian";
+import { TFile, TFolder } from "./obsidian-runtime";
+import { setFixtureVault } from "../src/ai/record-replay";
+import { runStep2 } from "../src/pipeline/step2-entity-extract";
+import { runStep3 } from "../src/pipeline/step3-relationship-map";
+import { runStep4 } from "../src/pipeline/step4-generate-output";
+import { noteMetadata } from "../src/rag/rag-core";
+import { DEFAULT_SETTINGS, estimateTokens, type LawNoteSettings, type SourceDocument } from "../src/types";
+
+/**
+ * Steps 2–4 end to end, offline: every model call is answered from the
+ * recorded fixtures in `tests/fixtures/replay-vault/Fixtures`. A prompt change
+ * that is not re-recorded fails with "No recorded answer for this prompt".
+ * To re-record, copy the fixture vault into Obsidian, set Model call fixtures
+ * to Record and run the pipeline on `Notes/`.
+ */
+
+const FIXTURE_VAULT = join(__dirname, "fixtures", "replay-vault");
+
+/** In-memory vault preloaded with the fixture vault's files. */
+class MemoryVault {
+    readonly files = new Map<string, string>();
+    readonly folders = new Set<string>();
+    readonly adapter = {
+        exists: async (path: string) => this.files.has(path) || this.folders.has(path),
+        read: async (path: string) => this.files.get(path) ?? "",
+        write: async (path: string, data: string) => {
+            this.files.set(path, data);
+        },
+        mkdir: async (path: string) => {
+            this.folders.add(path);
+        },
+    };
+
+    constructor(root: string) {
+        const walk = (dir: string): void => {
+            for (const name of readdirSync(dir)) {
+                const full = join(dir, name);
+                const path = relative(root, full).split("\\").join("/");
+                if (statSync(full).isDirectory()) {
+                    this.folders.add(path);
+                    walk(full);
+                } else {
+                    this.files.set(path, readFileSync(full, "utf8"));
+                }
+            }
+        };
+        walk(root);
+    }
+
+    getAbstractFileByPath(path: string): TFile | TFolder | null {
+        if (this.files.has(path)) return new TFile(path);
+        return this.folders.has(path) ? new TFolder(path) : null;
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return [...this.files.keys()].filter((p) => p.endsWith(".md")).map((p) => new TFile(p));
+    }
+
+    async createFolder(path: string): Promise<void> {
+        this.folders.add(path);
+    }
+
+    async create(path: string, data: string): Promise<TFile> {
+        if (this.files.has(path)) throw new Error(`File already exists: ${path}`);
+        this.files.set(path, data);
+        return new TFile(path);
+    }
+
+    async modify(file: { path: string }, data: string): Promise<void> {
+        this.files.set(file.path, data);
+    }
+
+    async read(file: { path: string }): Promise<string> {
+        return this.files.get(file.path) ?? "";
+    }
+}
+
+function sourceDocument(vault: MemoryVault, path: string): SourceDocument {
+    const rawText = vault.files.get(path)!;
+    return {
+        path,
+        filename: path.split("/").pop()!,
+        type: "md",
+        rawText,
+        charCount: rawText.length,
+        tokenEstimate: estimateTokens(rawText),
+    };
+}
+
+const settings: LawNoteSettings = {
+    ...DEFAULT_SETTINGS,
+    fixtureMode: "replay",
+    fixtureFolder: "Fixtures",
+    outputFolder: "Out",
+    language: "en",
+    autoAcceptReview: true,
+    concurrency: 1,
+};
+
+describe("pipeline replay", () => {
+    const vault = new MemoryVault(FIXTURE_VAULT);
+    const app = { vault, workspace: { getLeaf: () => ({ openFile: async () => {} }) } } as unknown as App;
+
+    beforeAll(() => {
+        // The outline prompt embeds the current year; pin the clock to the recording's.
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+        setFixtureVault(vault as unknown as App["vault"]);
+    });
+
+    afterAll(() => {
+        setFixtureVault(null);
+        vi.useRealTimers();
+    });
+
+    it("extracts, maps and writes pages from recorded answers", async () => {
+        const documents = [sourceDocument(vault, "Notes/Partnership Formation.md")];
+
+        const entities = await runStep2(app, settings, documents);
+        expect(entities).not.toBeNull();
+        expect(entities!.concepts.map((c) => c.name)).toEqual(["Nonrecognition on Contribution", "Aggregate Theory"]);
+        expect(entities!.cases.map((c) => c.name)).toEqual(["Commissioner v. Culbertson"]);
+        expect(entities!.concepts.every((c) => !c.unverified)).toBe(true);
+
+        const matrix = await runStep3(app, settings, entities!, documents);
+        expect(matrix!.entries).toEqual([expect.objectContaining({ caseId: "case-culbertson", conceptId: "aggregate-theory" })]);
+
+        const written = await runStep4(app, settings, entities!, matrix!);
+        expect(written).toEqual(
+            expect.arrayContaining([
+                "Out/Concepts/Aggregate Theory.md",
+                "Out/Dashboards/Aggregate Theory Dashboard.md",
+                "Out/Cases/Commissioner v. Culbertson.md",
+                "Out/Outline.md",
+                "Out/Relationship Matrix.md",
+            ])
+        );
+        expect(vault.files.get("Out/Concepts/Aggregate Theory.md")).toContain("collection of its partners");
+        expect(vault.files.get("Out/Dashboards/Aggregate Theory Dashboard.md")).toContain(
+            "[!abstract] [[Commissioner v. Culbertson]]"
+        );
+        expect(vault.files.get("Out/Outline.md")).toContain("# Partnership Formation Outline");
+        expect(entities!.metadata.pageProviders?.["Aggregate Theory"]).toBe("gemini:gemini-2.5-flash");
+
+        // Ask My Notes' "My own notes" filter: every page step 4 wrote counts as generated, the source note doesn't.
+        for (const path of written!.filter((p) => p.endsWith(".md"))) {
+            expect(noteMetadata(vault.files.get(path)!, "", 0).generated).toBe(true);
+        }
+        expect(noteMetadata(vault.files.get("Notes/Partnership Formation.md")!, "", 0).generated).toBe(false);
+    });
+});
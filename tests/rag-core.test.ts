@@ -2,8 +2,16 @@ import { describe, it, expect } from "vitest";
 import {
     stripFrontmatter,
     chunkMarkdown,
+    chunkContext,
+    headingAnchor,
+    sourceLink,
+    noteMetadata,
+    chunkSources,
+    matchesFilter,
     isIndexableNote,
     rankBySimilarity,
+    fuseRankings,
+    selectDiverse,
     buildRagPrompt,
     buildPrompt,
     uniqueSources,
@@ -21,14 +29,74 @@ describe("stripFrontmatter / chunkMarkdown", () => {
     it("splits on paragraph boundaries when over the size budget", () => {
         const chunks = chunkMarkdown(MD, 20);
         expect(chunks).toHaveLength(3);
-        expect(chunks[0]).toBe("Alpha paragraph.");
-        expect(chunks.join("")).not.toContain("tags");
+        expect(chunks[0].text).toBe("Alpha paragraph.");
+        expect(chunks.map((c) => c.text).join("")).not.toContain("tags");
     });
 
     it("packs paragraphs together under a large budget", () => {
         const chunks = chunkMarkdown(MD, 1000);
         expect(chunks).toHaveLength(1);
-        expect(chunks[0]).toContain("Gamma paragraph.");
+        expect(chunks[0].text).toContain("Gamma paragraph.");
+        expect(chunks[0]).toMatchObject({ headings: [], anchor: undefined });
+    });
+
+    const NOTE = [
+        "# Aggregate Theory",
+        "",
+        "Intro paragraph.",
+        "",
+        "## Rule",
+        "",
+        "A partnership is its partners.",
+        "",
+        "## Cases",
+        "",
+        "### Culbertson: intent",
+        "",
+        "Intent to join together governs. ^culbertson-1",
+        "",
+        "```",
+        "# not a heading",
+        "```",
+        "",
+        "## Contrast",
+        "",
+        "### Rule",
+        "",
+        "The entity view differs.",
+    ].join("\n");
+
+    it("never spans sections and keeps each chunk's heading path", () => {
+        const chunks = chunkMarkdown(NOTE, 1000);
+        expect(chunks.map((c) => c.text)).toEqual([
+            "Intro paragraph.",
+            "A partnership is its partners.",
+            "Intent to join together governs. ^culbertson-1\n\n```\n# not a heading\n```",
+            "The entity view differs.",
+        ]);
+        expect(chunks[2].headings).toEqual(["Aggregate Theory", "Cases", "Culbertson: intent"]);
+    });
+
+    it("anchors chunks to their block ID, heading, or full heading path when the heading repeats", () => {
+        expect(chunkMarkdown(NOTE, 1000).map((c) => c.anchor)).toEqual([
+            "Aggregate Theory",
+            "Aggregate Theory#Rule",
+            "^culbertson-1",
+            "Aggregate Theory#Contrast#Rule",
+        ]);
+    });
+});
+
+describe("headingAnchor / chunkContext / sourceLink", () => {
+    it("blanks characters Obsidian links cannot contain", () => {
+        expect(headingAnchor("Rule: § 721 [[Culbertson|the case]]")).toBe("Rule § 721 the case");
+    });
+
+    it("prefixes the heading path and links to the anchor", () => {
+        const chunk: IndexedChunk = { path: "a.md", title: "A", text: "body", headings: ["A", "Rule"], anchor: "Rule" };
+        expect(chunkContext(chunk)).toBe("A › Rule\nbody");
+        expect(sourceLink(chunk)).toBe("A#Rule");
+        expect(sourceLink({ path: "a.md", title: "A", text: "body" })).toBe("A");
     });
 });
 
@@ -57,6 +125,65 @@ describe("isIndexableNote", () => {
     });
 });
 
+describe("noteMetadata / chunkSources / matchesFilter", () => {
+    const PAGE = [
+        "---",
+        "tags:",
+        "  - law/case",
+        "date: 2026-09-01",
+        "generated-by: law-note-restructurer",
+        "---",
+        "",
+        "# Culbertson",
+        "",
+        "<!-- law-restructurer-begin: Lecture 3.md, Reading.pdf -->",
+        "Intent governs.",
+        "<!-- law-restructurer-end -->",
+        "",
+        "My own aside.",
+    ].join("\n");
+
+    it("reads kind, generation and date from frontmatter", () => {
+        expect(noteMetadata(PAGE, "Tax", 0)).toEqual({
+            course: "Tax",
+            kind: "case",
+            generated: true,
+            sources: [],
+            date: "2026-09-01",
+        });
+        const own = noteMetadata("# Notes\n\nText", "", Date.UTC(2026, 9, 5));
+        expect(own).toMatchObject({ kind: "note", generated: false, date: "2026-10-05" });
+    });
+
+    it("finds the source documents of the section a chunk starts in", () => {
+        expect(chunkSources(PAGE, "<!-- law-restructurer-begin: Lecture 3.md, Reading.pdf -->\nIntent governs.")).toEqual([
+            "Lecture 3.md",
+            "Reading.pdf",
+        ]);
+        expect(chunkSources(PAGE, "My own aside.")).toEqual([]);
+    });
+
+    it("matches on every field given and ignores the rest", () => {
+        const chunk: IndexedChunk = {
+            path: "Out/Tax/Cases/Culbertson.md",
+            title: "Culbertson",
+            text: "Intent governs.",
+            meta: { ...noteMetadata(PAGE, "Tax", 0), sources: ["Lecture 3.md"] },
+        };
+        expect(matchesFilter(chunk, {})).toBe(true);
+        expect(matchesFilter(chunk, { courses: ["Tax"], kinds: ["case"], generated: true })).toBe(true);
+        expect(matchesFilter(chunk, { courses: ["Civ Pro"] })).toBe(false);
+        expect(matchesFilter(chunk, { kinds: ["concept"] })).toBe(false);
+        expect(matchesFilter(chunk, { generated: false })).toBe(false);
+        expect(matchesFilter(chunk, { source: "lecture 3" })).toBe(true);
+        expect(matchesFilter(chunk, { source: "Reading" })).toBe(false);
+        expect(matchesFilter(chunk, { since: "2026-09-01", until: "2026-09-30" })).toBe(true);
+        expect(matchesFilter(chunk, { since: "2026-09-02" })).toBe(false);
+        expect(matchesFilter({ ...chunk, meta: undefined }, { generated: false })).toBe(true);
+        expect(matchesFilter({ ...chunk, meta: undefined }, { until: "2026-12-31" })).toBe(false);
+    });
+});
+
 describe("rankBySimilarity", () => {
     it("returns the most similar indices first, dropping zero-similarity hits", () => {
         const ranked = rankBySimilarity([1, 0], [
@@ -68,6 +195,70 @@ describe("rankBySimilarity", () => {
     });
 });
 
+describe("fuseRankings", () => {
+    const vector = [
+        { index: 0, score: 0.9 },
+        { index: 1, score: 0.8 },
+    ];
+    const keyword = [
+        { index: 2, score: 12 },
+        { index: 1, score: 3 },
+    ];
+
+    it("promotes chunks that rank well in both lists", () => {
+        const fused = fuseRankings(
+            [
+                { ranked: vector, weight: 0.5 },
+                { ranked: keyword, weight: 0.5 },
+            ],
+            3
+        );
+        expect(fused.map((r) => r.index)).toEqual([1, 0, 2]);
+    });
+
+    it("follows one ranking alone when the other has no weight", () => {
+        const ranked = (w: number) =>
+            fuseRankings(
+                [
+                    { ranked: vector, weight: 1 - w },
+                    { ranked: keyword, weight: w },
+                ],
+                2
+            ).map((r) => r.index);
+        expect(ranked(0)).toEqual([0, 1]);
+        expect(ranked(1)).toEqual([2, 1]);
+    });
+});
+
+describe("selectDiverse", () => {
+    const chunk = (path: string, embedding: number[]) => ({ path, title: path, text: "", embedding });
+    const chunks = [
+        chunk("concept.md", [1, 0, 0]),
+        chunk("concept.md", [0.99, 0.1, 0]),
+        chunk("dashboard.md", [0.98, 0.15, 0]),
+        chunk("case.md", [0.3, 0.9, 0.2]),
+    ];
+    const candidates = [
+        { index: 0, score: 0.04 },
+        { index: 1, score: 0.039 },
+        { index: 2, score: 0.038 },
+        { index: 3, score: 0.03 },
+    ];
+
+    it("skips near-duplicates of what it already picked", () => {
+        expect(selectDiverse(candidates, chunks, 2).map((r) => r.index)).toEqual([0, 3]);
+    });
+
+    it("is plain relevance order when lambda is 1", () => {
+        expect(selectDiverse(candidates, chunks, 3, 1).map((r) => r.index)).toEqual([0, 1, 2]);
+    });
+
+    it("keeps the candidates' scores", () => {
+        expect(selectDiverse(candidates, chunks, 1)).toEqual([{ index: 0, score: 0.04 }]);
+        expect(selectDiverse([], chunks, 3)).toEqual([]);
+    });
+});
+
 describe("buildRagPrompt / uniqueSources", () => {
     const contexts: IndexedChunk[] = [
         { path: "p1.md", title: "Promissory Estoppel", text: "a promise relied upon" },
@@ -103,6 +294,17 @@ describe("buildRagPrompt / uniqueSources", () => {
         expect(compare).toContain("China");
     });
 
+    it("cites anchored chunks as [[Note#Heading]] / [[Note#^id]]", () => {
+        const anchored: IndexedChunk[] = [
+            { ...contexts[0], headings: ["Promissory Estoppel", "Rule"], anchor: "Rule" },
+            { ...contexts[1], anchor: "^reliance" },
+        ];
+        const prompt = buildRagPrompt("What is reliance?", anchored);
+        expect(prompt).toContain("(Source: [[Promissory Estoppel#Rule]])\nPromissory Estoppel › Rule\na promise");
+        expect(prompt).toContain("[[Promissory Estoppel#^reliance]]");
+        expect(uniqueSources(anchored)).toEqual(["Promissory Estoppel#Rule", "Promissory Estoppel#^reliance"]);
+    });
+
     it("encodes the requested answer length", () => {
         expect(buildPrompt("qa", "x", contexts, [], "brief")).toContain("BRIEF");
         expect(buildPrompt("qa", "x", contexts, [], "detailed")).toContain("THOROUGH");
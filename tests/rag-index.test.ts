@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Vault } from "obsidian";
+import type { Embedder } from "../src/ai/embedder";
+import { buildIndex, indexChunkCount, loadIndex, loadVectors, saveIndex } from "../src/rag/rag-index";
+
+const BODY = "A partnership is treated as an aggregate of its partners for many purposes. ".repeat(3);
+
+/** Fake vault: notes with mtimes, and an adapter holding text and binary files. */
+function fakeVault(notes: Record<string, { mtime: number; content: string }>) {
+    const text = new Map<string, string>();
+    const binary = new Map<string, ArrayBuffer>();
+    const reads = { binary: 0 };
+    const vault = {
+        getMarkdownFiles: () =>
+            Object.entries(notes).map(([path, n]) => ({
+                path,
+                basename: path.split("/").pop()!.replace(/\.md$/, ""),
+                stat: { mtime: n.mtime },
+            })),
+        cachedRead: async (file: { path: string }) => notes[file.path].content,
+        adapter: {
+            exists: async (path: string) => text.has(path) || binary.has(path),
+            read: async (path: string) => text.get(path) ?? "",
+            write: async (path: string, data: string) => {
+                text.set(path, data);
+            },
+            readBinary: async (path: string) => {
+                reads.binary++;
+                const data = binary.get(path);
+                if (!data) throw new Error(`missing ${path}`);
+                return data;
+            },
+            writeBinary: async (path: string, data: ArrayBuffer) => {
+                binary.set(path, data);
+            },
+        },
+    };
+    return { vault: vault as unknown as Vault, text, binary, reads };
+}
+
+/** Embeds each text as [length, 1, 0.5] and counts the texts it was asked for. */
+function countingEmbedder(): Embedder & { embedded: number } {
+    const embedder = {
+        embedded: 0,
+        async embedTexts(texts: string[]) {
+            embedder.embedded += texts.length;
+            return texts.map((t) => [t.length, 1, 0.5]);
+        },
+    };
+    return embedder;
+}
+
+const INDEX = "Out/.rag-index.json";
+
+describe("saveIndex / loadIndex", () => {
+    it("keeps vectors in a binary file beside a JSON manifest and reads them lazily", async () => {
+        const notes = {
+            "Out/A.md": { mtime: 1, content: `# A\n\n${BODY}` },
+            "Out/B.md": { mtime: 1, content: `# B\n\n${BODY}` },
+        };
+        const { vault, text, binary, reads } = fakeVault(notes);
+        const embedder = countingEmbedder();
+        const built = await buildIndex(vault, embedder, "Out", "sig");
+        await saveIndex(vault, INDEX, built);
+
+        expect(text.get(INDEX)).not.toContain("embedding");
+        expect(binary.has("Out/.rag-index.vectors.bin")).toBe(true);
+
+        const loaded = (await loadIndex(vault, INDEX))!;
+        expect(loaded.vectors).toMatchObject({ file: ".rag-index.vectors.bin", encoding: "float32", count: 2 });
+        expect(indexChunkCount(loaded)).toBe(2);
+        expect(reads.binary).toBe(0);
+
+        await loadVectors(loaded);
+        await loadVectors(loaded);
+        expect(reads.binary).toBe(1);
+        expect(Array.from(loaded.files["Out/A.md"].chunks[0].embedding)).toEqual(
+            Array.from(built.files["Out/A.md"].chunks[0].embedding)
+        );
+    });
+
+    it("reuses unchanged files' vectors from disk and only embeds changed ones", async () => {
+        const notes = {
+            "Out/A.md": { mtime: 1, content: `# A\n\n${BODY}` },
+            "Out/B.md": { mtime: 1, content: `# B\n\n${BODY}` },
+        };
+        const { vault } = fakeVault(notes);
+        await saveIndex(vault, INDEX, await buildIndex(vault, countingEmbedder(), "Out", "sig"), "int8");
+
+        notes["Out/B.md"] = { mtime: 2, content: `# B\n\nChanged. ${BODY}` };
+        const embedder = countingEmbedder();
+        const rebuilt = await buildIndex(vault, embedder, "Out", "sig", await loadIndex(vault, INDEX));
+        expect(embedder.embedded).toBe(1);
+        expect(rebuilt.files["Out/A.md"].chunks[0].embedding).toBeInstanceOf(Float32Array);
+        await saveIndex(vault, INDEX, rebuilt);
+        expect((await loadIndex(vault, INDEX))!.vectors?.count).toBe(2);
+    });
+
+    it("rejects a vector file from a different save, even with the same chunk count", async () => {
+        const notes = { "Out/A.md": { mtime: 1, content: `# A\n\n${BODY}` } };
+        const { vault, text } = fakeVault(notes);
+        await saveIndex(vault, INDEX, await buildIndex(vault, countingEmbedder(), "Out", "sig"));
+        const manifest = text.get(INDEX)!;
+
+        // A later save that got as far as the vector file: same count, other vectors.
+        notes["Out/A.md"] = { mtime: 2, content: `# A\n\nEdited. ${BODY}` };
+        await saveIndex(vault, INDEX, await buildIndex(vault, countingEmbedder(), "Out", "sig"));
+        text.set(INDEX, manifest);
+
+        await expect(loadVectors((await loadIndex(vault, INDEX))!)).rejects.toThrow(/does not match its manifest/);
+    });
+
+    it("rebuilds from scratch when the vector file is missing", async () => {
+        const notes = { "Out/A.md": { mtime: 1, content: `# A\n\n${BODY}` } };
+        const { vault, binary } = fakeVault(notes);
+        await saveIndex(vault, INDEX, await buildIndex(vault, countingEmbedder(), "Out", "sig"));
+        binary.clear();
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        const embedder = countingEmbedder();
+        const rebuilt = await buildIndex(vault, embedder, "Out", "sig", await loadIndex(vault, INDEX));
+        expect(embedder.embedded).toBe(1);
+        expect(indexChunkCount(rebuilt)).toBe(1);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining("vectors unreadable"), expect.any(Error));
+        warn.mockRestore();
+    });
+});
+
+describe("buildIndex", () => {
+    it("returns the saved index as is when no note changed, and rebuilds the keyword index when one did", async () => {
+        const notes = {
+            "Out/A.md": { mtime: 1, content: `# A\n\n${BODY}` },
+            "Out/B.md": { mtime: 1, content: `# B\n\n${BODY}` },
+        };
+        const { vault } = fakeVault(notes);
+        await saveIndex(vault, INDEX, await buildIndex(vault, countingEmbedder(), "Out", "sig"));
+        const loaded = (await loadIndex(vault, INDEX))!;
+
+        const embedder = countingEmbedder();
+        const same = await buildIndex(vault, embedder, "Out", "sig", loaded);
+        expect(same).toBe(loaded); // nothing to save
+        expect(same.lexical).toBe(loaded.lexical);
+        expect(embedder.embedded).toBe(0);
+
+        notes["Out/B.md"] = { mtime: 2, content: `# B\n\nCulbertson. ${BODY}` };
+        const changed = await buildIndex(vault, countingEmbedder(), "Out", "sig", loaded);
+        expect(changed.lexical).not.toBe(loaded.lexical);
+        expect(changed.lexical!.postings.culbertson).toEqual([[1, 1]]);
+    });
+});
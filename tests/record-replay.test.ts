@@ -0,0 +1,136 @@
+import { afterEach, describe, it, expect } from "vitest";
+import type { Vault } from "obsidian";
+import { z } from "zod";
+import { Type } from "@google/genai";
+import type { LLMClient } from "../src/ai/llm-provider";
+import {
+    FixtureStore,
+    RecordingLLMClient,
+    ReplayLLMClient,
+    UnknownPromptError,
+    fixtureKey,
+    fixtureStoreFor,
+    setFixtureVault,
+} from "../src/ai/record-replay";
+import { DEFAULT_SETTINGS } from "../src/types";
+
+/** Minimal in-memory stand-in for `vault.adapter`, with `mkdir`. */
+function memoryVault(): { vault: Vault; files: Map<string, string> } {
+    const files = new Map<string, string>();
+    const adapter = {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) ?? "",
+        write: async (path: string, data: string) => {
+            files.set(path, data);
+        },
+        mkdir: async (path: string) => {
+            files.set(path, "");
+        },
+    };
+    return { vault: { adapter } as unknown as Vault, files };
+}
+
+/** Echoes the prompt and counts model calls. */
+class EchoLLM implements LLMClient {
+    calls = 0;
+    async generate(prompt: string): Promise<string> {
+        this.calls++;
+        return `answer to ${prompt}`;
+    }
+    async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        this.calls++;
+        return schema.parse({ title: prompt });
+    }
+    async generateStreaming(prompt: string, onChunk: (text: string, accumulated: string) => void): Promise<string> {
+        const text = await this.generate(prompt);
+        onChunk(text, text);
+        return text;
+    }
+    async generateStructuredStreaming<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        return this.generateStructured(prompt, schema);
+    }
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        this.calls++;
+        return texts.map((t) => [t.length, 1]);
+    }
+    abort(): void {}
+    getTotalTokensUsed(): number {
+        return this.calls * 10;
+    }
+}
+
+const Title = z.object({ title: z.string() });
+
+describe("fixtureKey", () => {
+    it("changes with the call kind, prompt and response schema", () => {
+        const key = fixtureKey("text", "p");
+        expect(fixtureKey("text", "p")).toBe(key);
+        expect(fixtureKey("json", "p")).not.toBe(key);
+        expect(fixtureKey("text", "q")).not.toBe(key);
+        expect(fixtureKey("json", "p", { type: Type.STRING })).not.toBe(fixtureKey("json", "p"));
+    });
+
+    it("ignores dates embedded in the prompt", () => {
+        expect(fixtureKey("text", "date: 2026-10-19")).toBe(fixtureKey("text", "date: 2026-11-02"));
+    });
+});
+
+describe("record / replay", () => {
+    it("replays what was recorded without calling a model", async () => {
+        const { vault, files } = memoryVault();
+        const llm = new EchoLLM();
+        const recorder = new RecordingLLMClient(llm, new FixtureStore(vault, "Fixtures", "record"));
+        await recorder.generate("hello");
+        await recorder.generateStreaming("stream", () => {}, true, { type: Type.OBJECT });
+        await recorder.generateStructured("page", Title);
+        await recorder.embedTexts(["a", "bb"]);
+        expect(llm.calls).toBe(4);
+        expect(files.has(`Fixtures/${fixtureKey("text", "hello")}.json`)).toBe(true);
+
+        const replay = new ReplayLLMClient(new FixtureStore(vault, "Fixtures", "replay"));
+        expect(await replay.generate("hello")).toBe("answer to hello");
+        const chunks: string[] = [];
+        const streamed = await replay.generateStreaming("stream", (t) => chunks.push(t), true, { type: Type.OBJECT });
+        expect(streamed).toBe("answer to stream");
+        expect(chunks).toEqual(["answer to stream"]);
+        expect(await replay.generateStructuredStreaming("page", Title, () => {})).toEqual({ title: "page" });
+        expect(await replay.embedTexts(["bb", "a"])).toEqual([
+            [2, 1],
+            [1, 1],
+        ]);
+        expect(llm.calls).toBe(4);
+        expect(replay.getTotalTokensUsed()).toBe(0);
+    });
+
+    it("fails loudly on a prompt that was never recorded", async () => {
+        const { vault } = memoryVault();
+        const replay = new ReplayLLMClient(new FixtureStore(vault, "Fixtures", "replay"));
+        await expect(replay.generate("never seen")).rejects.toBeInstanceOf(UnknownPromptError);
+        await expect(replay.generate("never seen")).rejects.toThrow(/Fixtures.*never seen/);
+        await expect(replay.embedTexts(["x"])).rejects.toBeInstanceOf(UnknownPromptError);
+    });
+
+    it("does not answer a structured call from a text recording", async () => {
+        const { vault } = memoryVault();
+        const store = new FixtureStore(vault, "Fixtures", "record");
+        await new RecordingLLMClient(new EchoLLM(), store).generate("page");
+        await expect(new ReplayLLMClient(store).generateStructured("page", Title)).rejects.toBeInstanceOf(
+            UnknownPromptError
+        );
+    });
+});
+
+describe("fixtureStoreFor", () => {
+    afterEach(() => setFixtureVault(null));
+
+    it("is off until a vault is registered and the mode is set", () => {
+        const { vault } = memoryVault();
+        const replay = { ...DEFAULT_SETTINGS, fixtureMode: "replay" as const, fixtureFolder: "Fx/" };
+        expect(fixtureStoreFor(replay)).toBeNull();
+        setFixtureVault(vault);
+        expect(fixtureStoreFor(DEFAULT_SETTINGS)).toBeNull();
+        const store = fixtureStoreFor(replay);
+        expect(store).toMatchObject({ folder: "Fx", mode: "replay" });
+        expect(fixtureStoreFor(replay)).toBe(store);
+    });
+});
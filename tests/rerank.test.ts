@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import type { z } from "zod";
+import type { LLMClient } from "../src/ai/llm-provider";
+import { buildRerankPrompt, rerankChunks } from "../src/rag/rerank";
+import type { IndexedChunk } from "../src/rag/rag-core";
+
+/** Answers every structured call with `answer` (or throws it), recording prompts. */
+function fakeClient(answer: unknown): LLMClient & { prompts: string[] } {
+    const prompts: string[] = [];
+    const fail = () => Promise.reject(new Error("unexpected call"));
+    return {
+        prompts,
+        async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+            prompts.push(prompt);
+            if (answer instanceof Error) throw answer;
+            return schema.parse(answer);
+        },
+        generate: fail,
+        generateStreaming: fail,
+        generateStructuredStreaming: fail,
+        embedTexts: fail,
+        abort: () => {},
+        getTotalTokensUsed: () => 0,
+    };
+}
+
+const chunks: IndexedChunk[] = [
+    { path: "a.md", title: "Aggregate Theory", text: "A partnership is its partners.", headings: ["Rule"] },
+    { path: "b.md", title: "Culbertson", text: "Intent to join together governs." },
+    { path: "c.md", title: "Basis", text: "Outside basis equals contributed basis." },
+];
+const candidates = [
+    { index: 0, score: 0.03 },
+    { index: 1, score: 0.02 },
+    { index: 2, score: 0.01 },
+];
+
+describe("buildRerankPrompt", () => {
+    it("numbers each passage with its title and heading path", () => {
+        const prompt = buildRerankPrompt("When is there a partnership?", chunks);
+        expect(prompt).toContain("[0] (Aggregate Theory)\nRule\nA partnership");
+        expect(prompt).toContain("[2] (Basis)");
+        expect(prompt).toContain("When is there a partnership?");
+    });
+});
+
+describe("rerankChunks", () => {
+    it("reorders candidates by the model's scores, rescaled to 0–1", async () => {
+        const client = fakeClient({
+            scores: [
+                { id: 0, score: 2 },
+                { id: 1, score: 9 },
+            ],
+        });
+        const reranked = await rerankChunks(client, "intent?", chunks, candidates);
+        expect(reranked).toEqual([
+            { index: 1, score: 0.9 },
+            { index: 0, score: 0.2 },
+            { index: 2, score: 0 },
+        ]);
+        expect(client.prompts).toHaveLength(1);
+    });
+
+    it("keeps the retrieval order when the model call fails", async () => {
+        const reranked = await rerankChunks(fakeClient(new Error("offline")), "q", chunks, candidates);
+        expect(reranked).toBe(candidates);
+    });
+});
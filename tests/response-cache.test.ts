@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import type { Vault } from "obsidian";
+import { z } from "zod";
+import { Type } from "@google/genai";
+import type { LLMClient } from "../src/ai/llm-provider";
+import { CachedLLMClient, ResponseCache, cacheSummary, responseCacheKey } from "../src/ai/response-cache";
+
+/** Minimal in-memory stand-in for `vault.adapter`. */
+function memoryVault(): { vault: Vault; files: Map<string, string> } {
+    const files = new Map<string, string>();
+    const adapter = {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) ?? "",
+        write: async (path: string, data: string) => {
+            files.set(path, data);
+        },
+    };
+    return { vault: { adapter } as unknown as Vault, files };
+}
+
+/** Echoes the prompt and counts model calls. */
+class CountingLLM implements LLMClient {
+    calls = 0;
+    async generate(prompt: string): Promise<string> {
+        this.calls++;
+        return `answer to ${prompt}`;
+    }
+    async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        this.calls++;
+        return schema.parse({ title: prompt });
+    }
+    async generateStreaming(prompt: string, onChunk: (text: string, accumulated: string) => void): Promise<string> {
+        const text = await this.generate(prompt);
+        onChunk(text, text);
+        return text;
+    }
+    async generateStructuredStreaming<T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> {
+        return this.generateStructured(prompt, schema);
+    }
+    async embedTexts(texts: string[]): Promise<number[][]> {
+        return texts.map(() => [0]);
+    }
+    abort(): void {}
+    getTotalTokensUsed(): number {
+        return this.calls * 10;
+    }
+}
+
+const options = { model: "gemini:gemini-2.5-flash", temperature: 0.3, describe: () => "gemini:gemini-2.5-flash" };
+
+describe("responseCacheKey", () => {
+    const base = { prompt: "p", model: "gemini:gemini-2.5-flash", temperature: 0.3, mode: "text" };
+
+    it("is stable and changes with prompt, model, temperature, mode and schema", () => {
+        const key = responseCacheKey(base);
+        expect(responseCacheKey({ ...base })).toBe(key);
+        expect(responseCacheKey({ ...base, prompt: "q" })).not.toBe(key);
+        expect(responseCacheKey({ ...base, model: "ollama:llama3.1" })).not.toBe(key);
+        expect(responseCacheKey({ ...base, temperature: 0.7 })).not.toBe(key);
+        expect(responseCacheKey({ ...base, mode: "json" })).not.toBe(key);
+        expect(responseCacheKey({ ...base, responseSchema: { type: Type.STRING } })).not.toBe(key);
+    });
+});
+
+describe("ResponseCache", () => {
+    it("persists entries across opens", async () => {
+        const { vault, files } = memoryVault();
+        const cache = await ResponseCache.open(vault, "Course", 1_000_000);
+        cache.put("k", "value", "gemini:x");
+        await cache.flush();
+        expect(files.has("Course/_llm-cache.json")).toBe(true);
+
+        const reopened = await ResponseCache.open(vault, "Course", 1_000_000);
+        expect(reopened.get("k")).toEqual({ value: "value", producedBy: "gemini:x" });
+        expect(reopened.hits).toBe(1);
+    });
+
+    it("evicts the least recently used entries past the size limit", async () => {
+        const { vault } = memoryVault();
+        const cache = await ResponseCache.open(vault, "Course", 30);
+        cache.put("a", "x".repeat(10), "p");
+        await new Promise((r) => setTimeout(r, 2));
+        cache.put("b", "y".repeat(10), "p");
+        await new Promise((r) => setTimeout(r, 2));
+        cache.get("a"); // a is now more recent than b
+        cache.put("c", "z".repeat(10), "p");
+
+        expect(cache.size).toBe(2);
+        expect(cache.get("b")).toBeNull();
+        expect(cache.get("a")).not.toBeNull();
+        expect(cache.bytes).toBeLessThanOrEqual(30);
+    });
+
+    it("skips entries larger than the whole cache", async () => {
+        const { vault } = memoryVault();
+        const cache = await ResponseCache.open(vault, "Course", 5);
+        cache.put("big", "too large", "p");
+        expect(cache.size).toBe(0);
+    });
+
+    it("starts empty on a corrupt file", async () => {
+        const { vault, files } = memoryVault();
+        files.set("Course/_llm-cache.json", "{not json");
+        const cache = await ResponseCache.open(vault, "Course", 1000);
+        expect(cache.size).toBe(0);
+    });
+});
+
+describe("CachedLLMClient", () => {
+    it("answers a repeated prompt from the cache", async () => {
+        const { vault } = memoryVault();
+        const inner = new CountingLLM();
+        const cache = await ResponseCache.open(vault, "Course", 1_000_000);
+        const client = new CachedLLMClient(inner, cache, options);
+
+        expect(await client.generate("q")).toBe("answer to q");
+        expect(await client.generate("q")).toBe("answer to q");
+        expect(inner.calls).toBe(1);
+        expect([cache.hits, cache.misses]).toEqual([1, 1]);
+        expect(client.servedBy).toBe("gemini:gemini-2.5-flash");
+    });
+
+    it("replays a streaming hit as one chunk", async () => {
+        const { vault } = memoryVault();
+        const cache = await ResponseCache.open(vault, "Course", 1_000_000);
+        const client = new CachedLLMClient(new CountingLLM(), cache, options);
+        await client.generate("q");
+
+        const chunks: string[] = [];
+        expect(await client.generateStreaming("q", (t) => chunks.push(t))).toBe("answer to q");
+        expect(chunks).toEqual(["answer to q"]);
+    });
+
+    it("caches and re-validates structured results", async () => {
+        const { vault } = memoryVault();
+        const inner = new CountingLLM();
+        const cache = await ResponseCache.open(vault, "Course", 1_000_000);
+        const client = new CachedLLMClient(inner, cache, options);
+        const schema = z.object({ title: z.string() });
+
+        await client.generateStructured("q", schema);
+        expect(await client.generateStructuredStreaming("q", schema, () => {})).toEqual({ title: "q" });
+        expect(inner.calls).toBe(1);
+
+        // A stricter schema rejects the cached value: regenerate instead of returning it.
+        const stricter = z.object({ title: z.string().min(5) });
+        await expect(client.generateStructured("q", stricter)).rejects.toThrow();
+        expect(inner.calls).toBe(2);
+    });
+
+    it("always calls the model when bypassed but still stores the answer", async () => {
+        const { vault } = memoryVault();
+        const inner = new CountingLLM();
+        const bypassed = await ResponseCache.open(vault, "Course", 1_000_000, true);
+        const client = new CachedLLMClient(inner, bypassed, options);
+
+        await client.generate("q");
+        await client.generate("q");
+        expect(inner.calls).toBe(2);
+        expect(bypassed.size).toBe(1);
+        expect(cacheSummary(bypassed)).toContain("bypassed");
+    });
+});
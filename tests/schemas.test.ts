@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { normalizeRelationshipMatrix, RelationshipMatrixSchema } from "../src/ai/schemas";
+
+describe("normalizeRelationshipMatrix", () => {
+    it("fills missing concept and case link arrays", () => {
+        const data: Record<string, unknown> = { entries: [], casesInOrder: [], conceptsInOrder: [] };
+        normalizeRelationshipMatrix(data);
+        expect(data.conceptEntries).toEqual([]);
+        expect(data.caseEntries).toEqual([]);
+        expect(RelationshipMatrixSchema.safeParse(data).success).toBe(true);
+    });
+
+    it("coerces link types and drops incomplete or self-referencing links", () => {
+        const data: Record<string, unknown> = {
+            entries: [],
+            casesInOrder: [],
+            conceptsInOrder: [],
+            conceptEntries: [
+                { fromConceptId: "nec", toConceptId: "tres", relationshipType: "Exception_Of", description: "d" },
+                { fromConceptId: "a", toConceptId: "a", relationshipType: "element-of", description: "d" },
+                { fromConceptId: "b", relationshipType: "element-of" },
+            ],
+            caseEntries: [
+                { citingCaseId: "new", citedCaseId: "old", relationshipType: "cites", description: null },
+            ],
+        };
+        normalizeRelationshipMatrix(data);
+        expect(data.conceptEntries).toEqual([
+            { fromConceptId: "nec", toConceptId: "tres", relationshipType: "exception-of", description: "d" },
+        ]);
+        expect(data.caseEntries).toEqual([
+            { citingCaseId: "new", citedCaseId: "old", relationshipType: "follows", description: "" },
+        ]);
+        expect(RelationshipMatrixSchema.safeParse(data).success).toBe(true);
+    });
+});
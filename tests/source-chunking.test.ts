@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { buildChunks, splitDocument, splitParagraphs } from "../src/pipeline/source-chunking";
+import { estimateTokens, type SourceDocument } from "../src/types";
+
+function doc(filename: string, rawText: string): SourceDocument {
+    return {
+        path: `Law/${filename}`,
+        filename,
+        type: "md",
+        rawText,
+        charCount: rawText.length,
+        tokenEstimate: estimateTokens(rawText),
+    };
+}
+
+const filler = (n: number, ch = "x"): string => ch.repeat(n * 4); // ~n tokens
+
+describe("splitDocument", () => {
+    it("splits an oversized document on headings and carries the heading path", () => {
+        const text = [
+            "# Civ Pro",
+            "## Personal Jurisdiction",
+            filler(60),
+            "### Minimum Contacts",
+            filler(60),
+            "## Venue",
+            filler(60),
+        ].join("\n");
+        const parts = splitDocument(doc("civpro.md", text), 100);
+
+        expect(parts.length).toBe(3);
+        expect(parts[1].rawText.startsWith("# Civ Pro\n## Personal Jurisdiction\n\n### Minimum Contacts")).toBe(true);
+        expect(parts[2].rawText.startsWith("# Civ Pro\n\n## Venue")).toBe(true);
+        expect(parts.every((p) => p.filename === "civpro.md")).toBe(true);
+    });
+
+    it("ignores heading-like lines inside code fences", () => {
+        const text = ["# A", filler(40), "```", "# not a heading", "```", "# B", filler(40)].join("\n");
+        const parts = splitDocument(doc("a.md", text), 60);
+        expect(parts).toHaveLength(2);
+        expect(parts[0].rawText).toContain("# not a heading");
+    });
+
+    it("cuts an oversized section between paragraphs and re-states its heading", () => {
+        const text = ["# Torts", "## Negligence", filler(40, "a"), "", filler(40, "b"), "", filler(40, "c")].join("\n");
+        const parts = splitDocument(doc("torts.md", text), 100, 0);
+
+        expect(parts.length).toBe(2);
+        expect(parts.every((p) => p.tokenEstimate <= 100)).toBe(true);
+        expect(parts[1].rawText.startsWith("# Torts\n## Negligence\n\n")).toBe(true);
+        expect(parts[1].rawText).toContain(filler(40, "c"));
+    });
+});
+
+describe("splitParagraphs", () => {
+    it("repeats the tail of the previous piece as an overlap window", () => {
+        const text = [filler(30, "a"), filler(30, "b"), filler(30, "c")].join("\n\n");
+        const pieces = splitParagraphs(text, 70, 35);
+
+        expect(pieces).toEqual([
+            `${filler(30, "a")}\n\n${filler(30, "b")}`,
+            `${filler(30, "b")}\n\n${filler(30, "c")}`,
+        ]);
+    });
+
+    it("hard-splits a single paragraph longer than the limit", () => {
+        const words = Array.from({ length: 200 }, (_, i) => `word${i}`).join(" ");
+        const pieces = splitParagraphs(words, 100, 0);
+        expect(pieces.length).toBeGreaterThan(1);
+        expect(pieces.every((p) => estimateTokens(p) <= 100)).toBe(true);
+        expect(pieces.join(" ").split(" ")).toHaveLength(200);
+    });
+});
+
+describe("buildChunks", () => {
+    it("packs small documents together and keeps them whole", () => {
+        const chunks = buildChunks([doc("a.md", filler(40)), doc("b.md", filler(40)), doc("c.md", filler(40))], 100);
+        expect(chunks.map((c) => c.map((d) => d.filename))).toEqual([["a.md", "b.md"], ["c.md"]]);
+    });
+
+    it("splits a single oversized document across chunks on heading boundaries", () => {
+        const big = doc("big.md", ["# One", filler(80), "# Two", filler(80)].join("\n"));
+        const chunks = buildChunks([big], 100);
+        expect(chunks).toHaveLength(2);
+        expect(chunks[0][0].rawText.startsWith("# One")).toBe(true);
+        expect(chunks[1][0].rawText.startsWith("# Two")).toBe(true);
+    });
+
+    it("never emits a chunk over the limit, even for one huge unstructured file", () => {
+        const big = doc("casebook.md", Array.from({ length: 10 }, (_, i) => filler(30, String(i))).join("\n\n"));
+        const chunks = buildChunks([big], 100);
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every((c) => c.reduce((s, d) => s + estimateTokens(d.rawText), 0) <= 100)).toBe(true);
+    });
+});
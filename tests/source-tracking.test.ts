@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
     detectChangedSources,
+    detectDeletedSources,
     mergeSignatures,
     watchedFolders,
     type SourceSignature,
@@ -26,6 +27,13 @@ describe("detectChangedSources", () => {
     });
 });
 
+describe("detectDeletedSources", () => {
+    it("lists recorded notes that no longer exist", () => {
+        const current: SourceSignature[] = [{ path: "Law/ch2.md", mtime: 300 }];
+        expect(detectDeletedSources(current, recorded)).toEqual(["Law/ch1.md"]);
+    });
+});
+
 describe("mergeSignatures", () => {
     it("unions and takes the newer mtime", () => {
         const merged = mergeSignatures(recorded, [
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { splitSseEvents } from "../src/ai/sse";
+
+describe("splitSseEvents", () => {
+    it("returns complete events and keeps the partial tail", () => {
+        const { data, rest } = splitSseEvents('data: {"a":1}\n\ndata: {"b"');
+        expect(data).toEqual(['{"a":1}']);
+        expect(rest).toBe('data: {"b"');
+
+        const next = splitSseEvents(rest + ':2}\r\n\r\ndata: [DONE]\n\n');
+        expect(next.data).toEqual(['{"b":2}', "[DONE]"]);
+        expect(next.rest).toBe("");
+    });
+
+    it("ignores comments and joins multi-line data", () => {
+        const { data } = splitSseEvents(": keep-alive\n\ndata: line1\ndata: line2\n\n");
+        expect(data).toEqual(["line1\nline2"]);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { generateStatutePageLocal, renderStatuteSection } from "../src/generators/statute-page-generator";
+import type { ExtractedEntities, RelationshipMatrix } from "../src/types";
+
+function entities(): ExtractedEntities {
+    return {
+        concepts: [
+            { id: "nonrec", name: "Nonrecognition", definition: "d", category: "doctrine", sourceReferences: [] },
+            { id: "basis", name: "Carryover Basis", definition: "d", category: "rule", sourceReferences: [] },
+        ],
+        cases: [{ id: "c", name: "Stafford v. US", facts: "f", holding: "h", significance: "", relatedConcepts: [], sourceReferences: [] }],
+        principles: [],
+        rules: [],
+        statutes: [
+            {
+                id: "irc-721",
+                citation: "IRC § 721",
+                title: "Nonrecognition on contribution",
+                jurisdiction: "US Federal",
+                textSummary: "No gain or loss on contributing property for a partnership interest.",
+                elements: ["Contribution of property", "In exchange for a partnership interest"],
+                relatedConcepts: ["nonrec", "basis"],
+                relatedCases: ["c"],
+                sourceReferences: [],
+            },
+        ],
+        metadata: { sourceDocuments: [], extractionTimestamp: new Date(0).toISOString(), modelUsed: "t", totalTokensUsed: 0 },
+    };
+}
+
+const matrix: RelationshipMatrix = {
+    entries: [],
+    casesInOrder: [],
+    conceptsInOrder: [],
+    statuteEntries: [
+        { statuteId: "irc-721", conceptId: "nonrec", relationshipType: "codifies", description: "Enacts the rule." },
+    ],
+};
+
+describe("generateStatutePageLocal", () => {
+    it("renders elements, matrix relationships, extraction-time links and cases", () => {
+        const e = entities();
+        const page = generateStatutePageLocal(e.statutes![0], e, matrix);
+
+        expect(page).toContain("# IRC § 721");
+        expect(page).toContain("1. Contribution of property");
+        expect(page).toContain("- [[Nonrecognition]] - codifies: Enacts the rule.");
+        expect(page).toContain("- [[Carryover Basis]]");
+        expect(page).toContain("- [[Stafford v. US]]");
+    });
+});
+
+describe("renderStatuteSection", () => {
+    it("links the statutes bearing on a concept", () => {
+        const section = renderStatuteSection("nonrec", entities(), matrix);
+        expect(section).toContain("[[IRC § 721]] (Nonrecognition on contribution) - codifies");
+    });
+
+    it("is empty for a concept no statute touches", () => {
+        const e = entities();
+        e.statutes![0].relatedConcepts = [];
+        expect(renderStatuteSection("basis", e, { ...matrix, statuteEntries: undefined })).toBe("");
+    });
+});
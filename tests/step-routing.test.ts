@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { settingsForStep, usesProvider } from "../src/ai/step-routing";
+import { DEFAULT_SETTINGS, type LawNoteSettings } from "../src/types";
+
+const settings = (over: Partial<LawNoteSettings> = {}): LawNoteSettings => ({
+    ...DEFAULT_SETTINGS,
+    ...over,
+});
+
+describe("settingsForStep", () => {
+    it("returns the global settings for a step without a route", () => {
+        const base = settings();
+        expect(settingsForStep(base, "pages")).toBe(base);
+    });
+
+    it("applies the step's provider, model, temperature and thinking budget", () => {
+        const base = settings({
+            stepModels: {
+                extraction: { provider: "gemini", model: "gemini-2.5-pro", temperature: 0.1, thinkingBudget: 8192 },
+                outline: { provider: "ollama", model: "qwen2.5:14b" },
+            },
+        });
+
+        const extraction = settingsForStep(base, "extraction");
+        expect(extraction.modelName).toBe("gemini-2.5-pro");
+        expect(extraction.temperature).toBe(0.1);
+        expect(extraction.thinkingBudget).toBe(8192);
+
+        const outline = settingsForStep(base, "outline");
+        expect(outline.generationProvider).toBe("ollama");
+        expect(outline.ollamaModel).toBe("qwen2.5:14b");
+        expect(outline.temperature).toBe(DEFAULT_SETTINGS.temperature);
+        expect(base.generationProvider).toBe("gemini"); // not mutated
+    });
+
+    it("ignores a route with no model yet", () => {
+        const base = settings({ stepModels: { ask: { provider: "openai", model: " " } } });
+        expect(settingsForStep(base, "ask")).toBe(base);
+    });
+});
+
+describe("usesProvider", () => {
+    it("sees providers used by any step, the fallback chain or embeddings", () => {
+        const local = settings({ generationProvider: "ollama", embeddingProvider: "ollama" });
+        expect(usesProvider(local, "gemini")).toBe(false);
+        expect(usesProvider({ ...local, stepModels: { pages: { provider: "gemini", model: "gemini-2.5-flash" } } }, "gemini")).toBe(true);
+        expect(usesProvider({ ...local, fallbackChain: [{ provider: "gemini", model: "gemini-2.5-pro" }] }, "gemini")).toBe(true);
+    });
+});
@@ -74,6 +74,21 @@ describe("generateEvolutionPage", () => {
         expect(page).toContain("-->|modifies|");
         // Concepts with no evolution entries are omitted.
         expect(page).not.toContain("Lonely Doctrine");
+        expect(page).not.toContain("Case Lineage");
+    });
+
+    it("draws recorded citations instead of the date-order chain", () => {
+        const { entities, matrix } = fixture();
+        matrix.caseEntries = [
+            { citingCaseId: "later", citedCaseId: "early", relationshipType: "distinguishes", description: "different facts" },
+        ];
+        const page = generateEvolutionPage(matrix, entities);
+
+        expect(page).toContain("*modifies* (distinguishes [[Early v. State]])");
+        expect(page).toContain("-->|distinguishes|");
+        expect(page).not.toContain("-->|modifies|");
+        expect(page).toContain("## Case Lineage");
+        expect(page).toContain("[[Later v. State]] (1990) *distinguishes* [[Early v. State]] (1970)");
     });
 });
 
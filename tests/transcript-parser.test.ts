@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+    formatTimestamp,
+    formatTranscript,
+    parseTimestamp,
+    parseTranscript,
+} from "../src/parsers/transcript-parser";
+
+const SRT = `1
+00:41:10,120 --> 00:41:13,000
+PROFESSOR: Minimum contacts is the test.
+
+2
+00:41:13,000 --> 00:41:15,500
+It comes from International Shoe.
+
+3
+00:41:16,000 --> 00:41:18,000
+STUDENT: What about general jurisdiction?
+`;
+
+const VTT = `WEBVTT
+
+NOTE auto-generated
+
+intro
+00:00:05.000 --> 00:00:07.000
+<v Prof. Lee>Today: <b>personal jurisdiction</b>.
+
+00:00:07.000 --> 00:00:09.000
+<v Prof. Lee>Today: <b>personal jurisdiction</b>.
+
+00:01:20.000 --> 00:01:22.000
+Pennoyer was about presence.
+`;
+
+describe("timestamps", () => {
+    it("parses and formats HH:MM:SS", () => {
+        expect(parseTimestamp("00:41:10,120")).toBeCloseTo(2470.12);
+        expect(parseTimestamp("41:10")).toBe(2470);
+        expect(formatTimestamp(2470.12)).toBe("00:41:10");
+    });
+});
+
+describe("parseTranscript + formatTranscript", () => {
+    it("merges SRT cues into timestamped speaker turns", () => {
+        expect(formatTranscript(parseTranscript(SRT, "srt"))).toBe(
+            "[00:41:10] PROFESSOR: Minimum contacts is the test. It comes from International Shoe.\n\n" +
+                "[00:41:16] STUDENT: What about general jurisdiction?"
+        );
+    });
+
+    it("reads VTT voice tags, strips markup, drops rolling duplicates and re-anchors long turns", () => {
+        expect(formatTranscript(parseTranscript(VTT, "vtt"))).toBe(
+            "[00:00:05] Prof. Lee: Today: personal jurisdiction.\n\n" +
+                "[00:01:20] Prof. Lee: Pennoyer was about presence."
+        );
+    });
+
+    it("reads plain transcripts with inline timestamps and continuation lines", () => {
+        const txt = "[12:30] Prof. Lee: Duty first.\nthen breach.\n(13:05) Student: Why?";
+        expect(formatTranscript(parseTranscript(txt, "txt"))).toBe(
+            "[00:12:30] Prof. Lee: Duty first. then breach.\n\n[00:13:05] Student: Why?"
+        );
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import type { Vault } from "obsidian";
+import { UsageLedger, parseLedger, type LedgerEntry } from "../src/ai/usage-ledger";
+import { entryCostUSD, generateUsageReport, groupUsage } from "../src/generators/usage-report-generator";
+
+/** Minimal in-memory stand-in for `vault.adapter`, with `append`. */
+function memoryVault(): { vault: Vault; files: Map<string, string> } {
+    const files = new Map<string, string>();
+    const adapter = {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) ?? "",
+        write: async (path: string, data: string) => {
+            files.set(path, data);
+        },
+        append: async (path: string, data: string) => {
+            files.set(path, (files.get(path) ?? "") + data);
+        },
+    };
+    return { vault: { adapter } as unknown as Vault, files };
+}
+
+const usage = (inputTokens: number, outputTokens: number, thinkingTokens = 0) => ({
+    inputTokens,
+    outputTokens,
+    thinkingTokens,
+});
+
+function entry(over: Partial<LedgerEntry>): LedgerEntry {
+    return {
+        time: "2026-10-01T10:00:00.000Z",
+        course: "Tax",
+        step: "pages",
+        model: "gemini:gemini-2.5-flash",
+        input: 0,
+        output: 0,
+        thinking: 0,
+        cached: false,
+        ...over,
+    };
+}
+
+describe("UsageLedger", () => {
+    it("appends each run's calls to one JSON Lines file", async () => {
+        const { vault, files } = memoryVault();
+        const first = UsageLedger.at(vault, "Out", "Tax");
+        first.recorder("extraction")("gemini:gemini-2.5-pro", usage(1000, 200, 50));
+        await first.flush();
+
+        const second = UsageLedger.at(vault, "Out", "Torts");
+        const pages = second.recorder("pages");
+        pages("ollama:llama3.1", usage(300, 100));
+        pages("gemini:gemini-2.5-flash", usage(999, 999), true);
+        await second.flush();
+
+        expect(files.get("Out/_usage-ledger.jsonl")!.trim().split("\n")).toHaveLength(3);
+        const entries = await UsageLedger.read(vault, "Out");
+        expect(entries.map((e) => [e.course, e.step, e.model, e.input, e.output, e.thinking, e.cached])).toEqual([
+            ["Tax", "extraction", "gemini:gemini-2.5-pro", 1000, 200, 50, false],
+            ["Torts", "pages", "ollama:llama3.1", 300, 100, 0, false],
+            // Cache hits are logged but bill nothing.
+            ["Torts", "pages", "gemini:gemini-2.5-flash", 0, 0, 0, true],
+        ]);
+    });
+
+    it("writes nothing when no calls were made", async () => {
+        const { vault, files } = memoryVault();
+        await UsageLedger.at(vault, "Out", "").flush();
+        expect(files.size).toBe(0);
+        expect(await UsageLedger.read(vault, "Out")).toEqual([]);
+    });
+
+    it("skips blank and torn lines", () => {
+        const good = JSON.stringify(entry({ input: 5 }));
+        expect(parseLedger(`${good}\n\n{"time":"2026-10\n${good}\n`)).toHaveLength(2);
+    });
+});
+
+describe("usage report", () => {
+    const entries = [
+        entry({ step: "extraction", model: "gemini:gemini-2.5-pro", input: 1_000_000, output: 100_000, thinking: 100_000 }),
+        entry({ step: "pages", input: 1_000_000, output: 1_000_000 }),
+        entry({ course: "Torts", step: "pages", model: "ollama:llama3.1", input: 500, output: 500 }),
+        entry({ course: "", step: "ask", time: "2026-09-30T10:00:00.000Z", cached: true }),
+    ];
+
+    it("prices output and thinking at the output rate", () => {
+        expect(entryCostUSD(entries[0])).toBeCloseTo(1.25 + 2, 5);
+        expect(entryCostUSD(entries[2])).toBe(0);
+    });
+
+    it("prices provider-cached input at the cached rate", () => {
+        const hit = entry({ model: "gemini:gemini-2.5-pro", input: 1_000_000, cachedInput: 1_000_000 });
+        expect(entryCostUSD(hit)).toBeCloseTo(0.31, 5);
+    });
+
+    it("sums calls per key", () => {
+        const byCourse = groupUsage(entries, (e) => e.course);
+        expect([...byCourse.keys()]).toEqual(["Tax", "Torts", ""]);
+        expect(byCourse.get("Tax")).toMatchObject({ calls: 2, input: 2_000_000, output: 1_100_000, thinking: 100_000 });
+        expect(byCourse.get("")).toMatchObject({ calls: 1, cached: 1 });
+    });
+
+    it("renders per-course, per-step and per-month tables", () => {
+        const report = generateUsageReport(entries);
+        expect(report).toContain("# Usage");
+        expect(report).toContain("## By course");
+        expect(report).toContain("| Tax | 2 | 0 | 2.00M | 1.10M | 100.0K | ~$6.05 |");
+        expect(report).toContain("| (default folder) | 1 | 1 |");
+        expect(report).toContain("| Entity extraction (实体提取) | 1 |");
+        // Newest month first.
+        expect(report.indexOf("| 2026-10 |")).toBeLessThan(report.indexOf("| 2026-09 |"));
+        expect(report).toContain("`ollama:llama3.1`");
+    });
+
+    it("says so when the ledger is empty", () => {
+        expect(generateUsageReport([])).toContain("No model calls recorded yet");
+    });
+});
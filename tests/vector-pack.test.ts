@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { packVectors, unpackVectors, vectorChecksum } from "../src/rag/vector-pack";
+import { cosineSimilarity } from "../src/utils/similarity";
+
+const rows = [
+    [0.12, -0.5, 0.33, 0.9],
+    [-0.01, 0.02, 0.7, -0.25],
+    [1, 0, 0, 0],
+];
+
+describe("packVectors / unpackVectors", () => {
+    it("round-trips float32 rows at float32 precision", () => {
+        const buffer = packVectors(rows, "float32");
+        expect(buffer.byteLength).toBe(16 + 3 * 4 * 4);
+        const back = unpackVectors(buffer);
+        expect(back).toHaveLength(3);
+        back.forEach((row, i) => row.forEach((v, d) => expect(v).toBeCloseTo(rows[i][d], 6)));
+    });
+
+    it("quantizes int8 rows to a quarter of the size with nearly the same direction", () => {
+        const buffer = packVectors(rows, "int8");
+        expect(buffer.byteLength).toBe(16 + 3 * 4 + 3 * 4);
+        const back = unpackVectors(buffer);
+        back.forEach((row, i) => {
+            expect(cosineSimilarity(row, rows[i])).toBeGreaterThan(0.9999);
+            row.forEach((v, d) => expect(Math.abs(v - rows[i][d])).toBeLessThan(0.01));
+        });
+    });
+
+    it("stores rows of the wrong length as zeros", () => {
+        for (const encoding of ["float32", "int8"] as const) {
+            const back = unpackVectors(packVectors([[1, 2], [], [0, 0]], encoding));
+            expect(Array.from(back[1])).toEqual([0, 0]);
+            expect(Array.from(back[2])).toEqual([0, 0]);
+        }
+    });
+
+    it("rejects files that are not packed vectors or are cut short", () => {
+        expect(() => unpackVectors(new ArrayBuffer(32))).toThrow(/Not a notes-index vector file/);
+        const buffer = packVectors(rows, "float32");
+        expect(() => unpackVectors(buffer.slice(0, buffer.byteLength - 4))).toThrow(/truncated/);
+        expect(() => unpackVectors(new ArrayBuffer(3))).toThrow(/truncated/);
+    });
+
+    it("checksums the packed bytes", () => {
+        const buffer = packVectors(rows, "float32");
+        expect(vectorChecksum(buffer)).toBe(vectorChecksum(packVectors(rows, "float32")));
+        expect(vectorChecksum(buffer)).not.toBe(vectorChecksum(packVectors([rows[1], rows[0], rows[2]], "float32")));
+    });
+});
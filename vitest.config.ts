@@ -1,6 +1,11 @@
 import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
 
 export default defineConfig({
+    resolve: {
+        // "obsidian" is types-only; tests get small runtime stand-ins.
+        alias: { obsidian: fileURLToPath(new URL("./tests/obsidian-runtime.ts", import.meta.url)) },
+    },
     test: {
         environment: "node",
         include: ["tests/**/*.test.ts"],